@@ -1,50 +1,48 @@
 import { useState, useEffect } from 'react';
 import { JournalProvider, useJournal } from './store/JournalContext';
+import { SyncProvider } from './store/SyncContext';
 import { Navigation } from './components/Navigation';
+import { UndoToast } from './components/UndoToast';
+import { SyncConflicts } from './components/SyncConflicts';
 import { Dashboard } from './pages/Dashboard';
 import { Journal } from './pages/Journal';
+import { DailyJournal } from './pages/DailyJournal';
 import { AddTrade } from './pages/AddTrade';
 import { Analytics } from './pages/Analytics';
+import { Reviews } from './pages/Reviews';
 import { Settings } from './pages/Settings';
-import type { AppView, JournalState } from './types/trade';
-import { loadSyncConfig, loadSyncMeta, pullFromCloud } from './utils/cloudSync';
+import type { AppView } from './types/trade';
 
-/** Handles automatic cloud pull: once on mount, then whenever the window regains focus. */
-function SyncEffect() {
-  const { dispatch, suppressNextPush } = useJournal();
+/** Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo. Text fields keep their own undo. */
+function HistoryShortcuts() {
+  const { undo, redo } = useJournal();
 
   useEffect(() => {
-    async function tryPull() {
-      const config = loadSyncConfig();
-      if (!config?.supabaseUrl || !config?.anonKey || !config?.syncKey) return;
-      const meta = loadSyncMeta();
-      try {
-        const remote = await pullFromCloud(config);
-        if (!remote) return;
-        // Only replace local state when the cloud copy is strictly newer.
-        if (remote.updatedAt > meta.lastPushedAt) {
-          suppressNextPush();
-          dispatch({ type: 'LOAD_STATE', state: remote.state as JournalState });
-        }
-      } catch {
-        // Silently ignore network errors during background pull.
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
       }
     }
-
-    tryPull();
-
-    function onFocus() { tryPull(); }
-    window.addEventListener('focus', onFocus);
-    return () => window.removeEventListener('focus', onFocus);
-  }, [dispatch, suppressNextPush]);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
 
   return null;
 }
 
 function AppInner() {
-  const { state } = useJournal();
+  const { state, newerSchema } = useJournal();
   const [view, setView] = useState<AppView>('dashboard');
   const [editTradeId, setEditTradeId] = useState<string | undefined>();
+  const [duplicateTradeId, setDuplicateTradeId] = useState<string | undefined>();
   const [viewTradeId, setViewTradeId] = useState<string | undefined>();
 
   // Sync --glass-blur CSS variable with settings.blurIntensity
@@ -56,6 +54,7 @@ function AppInner() {
   }, [state.settings.blurIntensity]);
 
   function navigate(v: AppView, tradeId?: string) {
+    setDuplicateTradeId(undefined);
     if (v === 'add-trade' && tradeId) {
       setEditTradeId(tradeId);
     } else {
@@ -71,6 +70,7 @@ function AppInner() {
 
   function handleAddDone() {
     setEditTradeId(undefined);
+    setDuplicateTradeId(undefined);
     setView('journal');
   }
 
@@ -79,6 +79,12 @@ function AppInner() {
     setView('add-trade');
   }
 
+  function handleDuplicate(id: string) {
+    setEditTradeId(undefined);
+    setDuplicateTradeId(id);
+    setView('add-trade');
+  }
+
   return (
     <div className="app-shell" data-theme={state.settings.theme}>
       <div className="app-bg">
@@ -87,16 +93,26 @@ function AppInner() {
         <div className="bg-vignette" />
       </div>
 
-      <SyncEffect />
+      <HistoryShortcuts />
 
       <main className="app-main">
+        {newerSchema !== undefined && (
+          <div className="schema-banner" role="alert">
+            This journal was saved by a newer version of CRTV. Changes made here won't be saved — update the app to keep working with it.
+          </div>
+        )}
         {view === 'dashboard' && <Dashboard onNavigate={navigate} />}
-        {view === 'journal' && <Journal onEdit={handleEditFromJournal} selectedId={viewTradeId} />}
-        {view === 'add-trade' && <AddTrade editId={editTradeId} onDone={handleAddDone} />}
-        {view === 'analytics' && <Analytics />}
+        {view === 'journal' && <Journal onEdit={handleEditFromJournal} onDuplicate={handleDuplicate} selectedId={viewTradeId} />}
+        {view === 'daily' && <DailyJournal onNavigate={navigate} />}
+        {view === 'add-trade' && <AddTrade editId={editTradeId} duplicateId={duplicateTradeId} onDone={handleAddDone} />}
+        {view === 'analytics' && <Analytics onOpenReviews={() => navigate('review')} />}
+        {view === 'review' && <Reviews onBack={() => navigate('analytics')} onNavigate={navigate} />}
         {view === 'settings' && <Settings />}
       </main>
 
+      <UndoToast />
+      <SyncConflicts />
+
       {view !== 'add-trade' && (
         <Navigation current={view} onChange={navigate} />
       )}
@@ -107,7 +123,9 @@ function AppInner() {
 export default function App() {
   return (
     <JournalProvider>
-      <AppInner />
+      <SyncProvider>
+        <AppInner />
+      </SyncProvider>
     </JournalProvider>
   );
 }
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { GlassCard } from './GlassCard';
+import { GlassInput, GlassSelect } from './GlassInput';
+import type { AccountType, Account } from '../types/trade';
+import { generateId } from '../utils/id';
+import { tradePnl } from '../utils/pnl';
+import { isClosed } from '../utils/lifecycle';
+
+const ACCOUNT_TYPES: AccountType[] = ['Live', 'Funded', 'Demo'];
+
+interface Draft {
+  id?: string;
+  name: string;
+  broker: string;
+  type: AccountType;
+  baseCurrency: string;
+  startingBalance: string;
+}
+
+function toDraft(a: Account): Draft {
+  return {
+    id: a.id,
+    name: a.name,
+    broker: a.broker ?? '',
+    type: a.type,
+    baseCurrency: a.baseCurrency,
+    startingBalance: String(a.startingBalance),
+  };
+}
+
+/** Settings section for creating and editing trading accounts. */
+export function AccountManager() {
+  const { state, dispatch } = useJournal();
+  const { accounts, trades, settings } = state;
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState('');
+
+  function patch(p: Partial<Draft>) {
+    setDraft(d => d ? { ...d, ...p } : d);
+  }
+
+  function save() {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const startingBalance = parseFloat(draft.startingBalance);
+    if (!name) return setError('Name is required');
+    if (!Number.isFinite(startingBalance) || startingBalance < 0) return setError('Starting balance must be zero or more');
+    dispatch({
+      type: 'UPSERT_ACCOUNT',
+      account: {
+        id: draft.id ?? generateId(),
+        name,
+        broker: draft.broker.trim() || undefined,
+        type: draft.type,
+        baseCurrency: draft.baseCurrency.trim().toUpperCase() || settings.currency,
+        startingBalance,
+      },
+    });
+    setDraft(null);
+    setError('');
+  }
+
+  function remove(id: string) {
+    const found = accounts.find(a => a.id === id);
+    const count = trades.filter(t => t.accountId === id).length;
+    if (!found || !window.confirm(`Delete ${found.name}? Its ${count} trade(s) stay in the journal, unassigned.`)) return;
+    dispatch({ type: 'DELETE_ACCOUNT', id });
+    setDraft(null);
+  }
+
+  function balance(a: Account): number {
+    return trades
+      .filter(t => t.accountId === a.id && isClosed(t))
+      .reduce((sum, t) => sum + tradePnl(t, settings.pnlMode), a.startingBalance);
+  }
+
+  return (
+    <GlassCard className="form-section">
+      <div className="form-section-title">Accounts</div>
+
+      {accounts.length > 0 && (
+        <div className="perf-table">
+          <div className="perf-header">
+            <span>Account</span>
+            <span>Type</span>
+            <span>Trades</span>
+            <span>Balance</span>
+          </div>
+          {accounts.map(a => (
+            <div key={a.id} className="perf-row" role="button" style={{ cursor: 'pointer' }} onClick={() => { setDraft(toDraft(a)); setError(''); }}>
+              <span className="perf-name">{a.name}{a.broker && <span className="text-dim"> {a.broker}</span>}</span>
+              <span>{a.type}</span>
+              <span>{trades.filter(t => t.accountId === a.id).length}</span>
+              <span>{balance(a).toLocaleString('en-US', { maximumFractionDigits: 0 })} {a.baseCurrency}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft ? (
+        <>
+          <div className="form-grid-2">
+            <GlassInput label="Name" placeholder="e.g. Topstep 50K" value={draft.name} onChange={e => patch({ name: e.target.value })} />
+            <GlassInput label="Broker" placeholder="Optional" value={draft.broker} onChange={e => patch({ broker: e.target.value })} />
+          </div>
+          <div className="form-grid-3">
+            <GlassSelect
+              label="Type"
+              value={draft.type}
+              onChange={v => patch({ type: v as AccountType })}
+              options={ACCOUNT_TYPES.map(t => ({ value: t, label: t }))}
+            />
+            <GlassInput label="Currency" value={draft.baseCurrency} onChange={e => patch({ baseCurrency: e.target.value })} />
+            <GlassInput label="Start Balance" type="number" step="0.01" value={draft.startingBalance} onChange={e => patch({ startingBalance: e.target.value })} />
+          </div>
+          {error && <p className="glass-error">{error}</p>}
+          <div className="settings-actions">
+            <button className="btn-secondary" onClick={save}>{draft.id ? 'Save' : 'Add'}</button>
+            <button className="btn-ghost" onClick={() => { setDraft(null); setError(''); }}>Cancel</button>
+          </div>
+          {draft.id && (
+            <button className="btn-link btn-link--danger" onClick={() => remove(draft.id!)}>Delete account</button>
+          )}
+        </>
+      ) : (
+        <button
+          className="btn-secondary"
+          onClick={() => setDraft({ name: '', broker: '', type: 'Live', baseCurrency: settings.currency, startingBalance: '' })}
+        >
+          Add Account
+        </button>
+      )}
+    </GlassCard>
+  );
+}
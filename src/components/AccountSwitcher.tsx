@@ -0,0 +1,23 @@
+import { useJournal } from '../store/JournalContext';
+import { selectActiveAccount } from '../store/selectors';
+
+/** Global "All accounts" / single-account scope picker. Hidden until an account exists. */
+export function AccountSwitcher() {
+  const { state, dispatch } = useJournal();
+  if (state.accounts.length === 0) return null;
+  const active = selectActiveAccount(state);
+
+  return (
+    <select
+      className="glass-input glass-select account-switcher"
+      value={active?.id ?? ''}
+      onChange={e => dispatch({ type: 'UPDATE_SETTINGS', settings: { activeAccountId: e.target.value || undefined } })}
+      aria-label="Account"
+    >
+      <option value="">All accounts</option>
+      {state.accounts.map(a => (
+        <option key={a.id} value={a.id}>{a.name} · {a.type}</option>
+      ))}
+    </select>
+  );
+}
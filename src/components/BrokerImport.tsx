@@ -0,0 +1,278 @@
+import { useMemo, useRef, useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { selectActiveAccount } from '../store/selectors';
+import { GlassCard } from './GlassCard';
+import { GlassSelect } from './GlassInput';
+import { StatusBadge } from './StatusBadge';
+import { generateId } from '../utils/id';
+import { parseCsv, uniqueHeaders, DATE_FORMAT_LABEL, type DateFormat, type DecimalSeparator } from '../utils/csv';
+import {
+  LAYOUT_FIELDS,
+  LAYOUT_LABEL,
+  buildTrades,
+  detectFormats,
+  guessMapping,
+  loadCsvPresets,
+  saveCsvPreset,
+  deleteCsvPreset,
+  matchPreset,
+  type CsvMapping,
+  type ImportField,
+  type ImportLayout,
+} from '../utils/brokerImport';
+
+interface LoadedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const PREVIEW_LIMIT = 25;
+
+/** Settings section that imports trade history from a broker's CSV export. */
+export function BrokerImport() {
+  const { state, dispatch } = useJournal();
+  const [presets, setPresets] = useState(loadCsvPresets);
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [presetId, setPresetId] = useState('');
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [detected, setDetected] = useState<Pick<CsvMapping, 'dateFormat' | 'decimal'> | null>(null);
+  const [message, setMessage] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+  const accountId = selectActiveAccount(state)?.id ?? state.accounts[0]?.id;
+
+  const result = useMemo(
+    () => file && mapping ? buildTrades(file.headers, file.rows, mapping, { instruments: state.instruments, accountId }) : null,
+    [file, mapping, state.instruments, accountId],
+  );
+
+  function load(name: string, text: string) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header || rows.length === 0) {
+      setMessage(`${name} has no data rows.`);
+      return;
+    }
+    const headers = uniqueHeaders(header);
+    const preset = matchPreset(headers, presets);
+    const next = preset ? preset.mapping : guessMapping(headers, rows);
+    setFile({ name, headers, rows });
+    setPresetId(preset?.id ?? '');
+    setMapping(next);
+    setDetected(detectFormats(headers, rows, next.columns));
+    setMessage('');
+  }
+
+  function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const picked = e.target.files?.[0];
+    if (!picked) return;
+    const reader = new FileReader();
+    reader.onload = () => load(picked.name, reader.result as string);
+    reader.readAsText(picked);
+    e.target.value = '';
+  }
+
+  async function loadSample(name: string) {
+    try {
+      const res = await fetch(`${import.meta.env.BASE_URL}samples/${name}`);
+      if (!res.ok) throw new Error(String(res.status));
+      load(name, await res.text());
+    } catch {
+      setMessage(`Could not load sample ${name}.`);
+    }
+  }
+
+  function pickPreset(id: string) {
+    setPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) setMapping(preset.mapping);
+  }
+
+  function patch(next: Partial<CsvMapping>) {
+    if (!mapping) return;
+    setMapping({ ...mapping, ...next });
+    setPresetId('');
+  }
+
+  function setColumn(field: ImportField, header: string) {
+    if (!mapping) return;
+    const columns = { ...mapping.columns };
+    if (header) columns[field] = header;
+    else delete columns[field];
+    patch({ columns });
+  }
+
+  function setLayout(layout: ImportLayout) {
+    if (!file || !mapping || layout === mapping.layout) return;
+    patch({ ...guessMapping(file.headers, file.rows), layout, dateFormat: mapping.dateFormat, decimal: mapping.decimal });
+  }
+
+  function savePreset() {
+    if (!mapping) return;
+    const current = presets.find(p => p.id === presetId && !p.builtIn);
+    const name = window.prompt('Preset name (e.g. the broker)', current?.name ?? '')?.trim();
+    if (!name) return;
+    const preset = { id: current?.id ?? generateId(), name, mapping };
+    saveCsvPreset(preset);
+    setPresets(loadCsvPresets());
+    setPresetId(preset.id);
+  }
+
+  function removePreset() {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset || preset.builtIn || !window.confirm(`Delete preset "${preset.name}"?`)) return;
+    deleteCsvPreset(preset.id);
+    setPresets(loadCsvPresets());
+    setPresetId('');
+  }
+
+  function handleImport() {
+    if (!result?.trades.length) return;
+    // Statements run oldest-first; the journal lists newest-first
+    const trades = [...result.trades].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    dispatch({ type: 'UPSERT_TRADES', trades });
+    setMessage(`Imported ${result.trades.length} trade(s) from ${file?.name}.`);
+    setFile(null);
+    setMapping(null);
+  }
+
+  const selectedPreset = presets.find(p => p.id === presetId);
+  const headerOptions = [{ value: '', label: '— Not mapped —' }, ...(file?.headers ?? []).map(h => ({ value: h, label: h }))];
+  const dateOptions = (Object.keys(DATE_FORMAT_LABEL) as DateFormat[]).map(f => ({
+    value: f,
+    label: `${DATE_FORMAT_LABEL[f]}${detected?.dateFormat === f ? ' (detected)' : ''}`,
+  }));
+  const decimalOptions = (['.', ','] as DecimalSeparator[]).map(d => ({
+    value: d,
+    label: `${d === '.' ? '1,234.50' : '1.234,50'}${detected?.decimal === d ? ' (detected)' : ''}`,
+  }));
+  const samples = presets.filter(p => p.sample);
+
+  return (
+    <GlassCard className="form-section">
+      <div className="form-section-title">Broker Import</div>
+      <p className="text-dim">
+        Import history exported from Tradovate, NinjaTrader, MetaTrader or TradingView, or map any other CSV yourself.
+        Fills are paired into round-trip trades; imported trades are tagged "imported".
+      </p>
+      <div className="settings-actions">
+        <button className="btn-secondary" onClick={() => fileRef.current?.click()}>Choose CSV…</button>
+      </div>
+      <GlassSelect
+        label="Or try a sample file"
+        value=""
+        onChange={name => { if (name) loadSample(name); }}
+        options={[{ value: '', label: 'Pick a sample…' }, ...samples.map(p => ({ value: p.sample ?? '', label: p.name }))]}
+      />
+      <input ref={fileRef} type="file" accept=".csv,text/csv" style={{ display: 'none' }} onChange={handleFile} />
+      {message && <p className="text-dim">{message}</p>}
+
+      {file && mapping && result && (
+        <>
+          <div className="settings-info-row">
+            <span className="settings-info-label">File</span>
+            <span className="settings-info-value">{file.name} · {file.rows.length} row(s)</span>
+          </div>
+
+          <GlassSelect
+            label="Preset"
+            value={presetId}
+            onChange={pickPreset}
+            options={[{ value: '', label: 'Custom mapping' }, ...presets.map(p => ({ value: p.id, label: p.name }))]}
+          />
+          <div className="settings-actions">
+            <button type="button" className="btn-secondary" onClick={savePreset}>
+              {selectedPreset && !selectedPreset.builtIn ? 'Update Preset' : 'Save as Preset'}
+            </button>
+            {selectedPreset && !selectedPreset.builtIn && (
+              <button type="button" className="btn-ghost" onClick={removePreset}>Delete Preset</button>
+            )}
+          </div>
+
+          <div className="glass-field">
+            <label className="glass-label">Each row is</label>
+            <div className="segmented" role="group" aria-label="Row layout">
+              {(Object.keys(LAYOUT_LABEL) as ImportLayout[]).map(l => (
+                <button
+                  key={l}
+                  type="button"
+                  className={`segmented-btn${mapping.layout === l ? ' segmented-btn--active' : ''}`}
+                  onClick={() => setLayout(l)}
+                >
+                  {LAYOUT_LABEL[l]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-grid-2">
+            {LAYOUT_FIELDS[mapping.layout].map(f => (
+              <GlassSelect
+                key={f.field}
+                label={`${f.label}${f.required ? ' *' : ''}`}
+                value={mapping.columns[f.field] ?? ''}
+                onChange={v => setColumn(f.field, v)}
+                options={headerOptions}
+              />
+            ))}
+            <GlassSelect
+              label="Date format"
+              value={mapping.dateFormat}
+              onChange={v => patch({ dateFormat: v as DateFormat })}
+              options={dateOptions}
+            />
+            <GlassSelect
+              label="Numbers"
+              value={mapping.decimal}
+              onChange={v => patch({ decimal: v as DecimalSeparator })}
+              options={decimalOptions}
+            />
+          </div>
+
+          <div className="form-section-title">Preview</div>
+          <p className="text-dim">
+            {result.trades.length} trade(s) from {file.rows.length} row(s)
+            {result.skipped > 0 && ` · ${result.skipped} row(s) skipped (cancelled orders, balance entries)`}
+            {result.errors.length > 0 && ` · ${result.errors.length} problem(s)`}
+          </p>
+          {result.errors.length > 0 && (
+            <div className="repair-list">
+              {result.errors.map((err, i) => (
+                <div key={i} className="repair-row">
+                  <span className="perf-name">{err.line === 1 ? 'Mapping' : `Row ${err.line}`}</span>
+                  <span className="text-dim">{err.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {result.trades.length > 0 && (
+            <div className="perf-table">
+              <div className="perf-header">
+                <span>Date</span><span>Symbol</span><span>Size</span><span>P/L</span>
+              </div>
+              {result.trades.slice(0, PREVIEW_LIMIT).map(t => (
+                <div key={t.id} className="perf-row">
+                  <span>{new Date(t.date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  <span className="perf-name">{t.symbol} <StatusBadge direction={t.direction} /></span>
+                  <span>{t.positionSize ?? '—'}</span>
+                  <span className={t.status === 'open' ? 'text-dim' : t.pnl >= 0 ? 'text-win' : 'text-loss'}>
+                    {t.status === 'open' ? 'Open' : `${t.pnl >= 0 ? '+' : ''}${t.pnl.toFixed(2)}`}
+                  </span>
+                </div>
+              ))}
+              {result.trades.length > PREVIEW_LIMIT && (
+                <p className="text-dim">…and {result.trades.length - PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+          )}
+
+          <div className="settings-actions">
+            <button type="button" className="btn-primary" onClick={handleImport} disabled={result.trades.length === 0}>
+              Import {result.trades.length} Trade(s)
+            </button>
+            <button type="button" className="btn-ghost" onClick={() => { setFile(null); setMapping(null); }}>Cancel</button>
+          </div>
+        </>
+      )}
+    </GlassCard>
+  );
+}
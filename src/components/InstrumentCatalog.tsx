@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { GlassCard } from './GlassCard';
+import { GlassInput, GlassSelect } from './GlassInput';
+import type { AssetClass, Instrument } from '../types/trade';
+import { generateId } from '../utils/id';
+import { pointValue } from '../utils/instruments';
+
+const ASSET_CLASSES: AssetClass[] = ['Futures', 'Forex', 'Stocks', 'Crypto', 'Other'];
+
+interface Draft {
+  id?: string;
+  symbol: string;
+  assetClass: AssetClass;
+  tickSize: string;
+  tickValue: string;
+  quoteCurrency: string;
+  commissionPerUnit: string;
+  feePerUnit: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  symbol: '', assetClass: 'Futures', tickSize: '', tickValue: '', quoteCurrency: 'USD', commissionPerUnit: '', feePerUnit: '',
+};
+
+function optionalNumber(raw: string): number | undefined {
+  const n = parseFloat(raw);
+  return raw.trim() && Number.isFinite(n) ? n : undefined;
+}
+
+function toDraft(i: Instrument): Draft {
+  return {
+    id: i.id,
+    symbol: i.symbol,
+    assetClass: i.assetClass,
+    tickSize: String(i.tickSize),
+    tickValue: String(i.tickValue),
+    quoteCurrency: i.quoteCurrency,
+    commissionPerUnit: i.commissionPerUnit !== undefined ? String(i.commissionPerUnit) : '',
+    feePerUnit: i.feePerUnit !== undefined ? String(i.feePerUnit) : '',
+  };
+}
+
+/** Settings section for the user-editable instrument catalog used to compute P&L from prices. */
+export function InstrumentCatalog() {
+  const { state, dispatch } = useJournal();
+  const { instruments } = state;
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState('');
+
+  function patch(p: Partial<Draft>) {
+    setDraft(d => d ? { ...d, ...p } : d);
+  }
+
+  function save() {
+    if (!draft) return;
+    const symbol = draft.symbol.trim().toUpperCase();
+    const tickSize = parseFloat(draft.tickSize);
+    const tickValue = parseFloat(draft.tickValue);
+    if (!symbol) return setError('Symbol is required');
+    if (instruments.some(i => i.symbol.toUpperCase() === symbol && i.id !== draft.id)) {
+      return setError(`${symbol} is already in the catalog`);
+    }
+    if (!(tickSize > 0)) return setError('Tick size must be a positive number');
+    if (!(tickValue > 0)) return setError('Tick value must be a positive number');
+    const commissionPerUnit = optionalNumber(draft.commissionPerUnit);
+    const feePerUnit = optionalNumber(draft.feePerUnit);
+    if ((commissionPerUnit ?? 0) < 0 || (feePerUnit ?? 0) < 0) return setError('Default fees cannot be negative');
+    dispatch({
+      type: 'UPSERT_INSTRUMENT',
+      instrument: {
+        id: draft.id ?? generateId(),
+        symbol,
+        assetClass: draft.assetClass,
+        tickSize,
+        tickValue,
+        quoteCurrency: draft.quoteCurrency.trim().toUpperCase() || 'USD',
+        commissionPerUnit,
+        feePerUnit,
+      },
+    });
+    setDraft(null);
+    setError('');
+  }
+
+  function remove(id: string) {
+    const found = instruments.find(i => i.id === id);
+    if (!found || !window.confirm(`Remove ${found.symbol} from the catalog? Existing trades keep their P&L.`)) return;
+    dispatch({ type: 'DELETE_INSTRUMENT', id });
+    setDraft(null);
+  }
+
+  const tickSizeNum = parseFloat(draft?.tickSize ?? '');
+  const tickValueNum = parseFloat(draft?.tickValue ?? '');
+  const draftPointValue = tickSizeNum > 0 && tickValueNum > 0 ? tickValueNum / tickSizeNum : null;
+
+  return (
+    <GlassCard className="form-section">
+      <div className="form-section-title">Instruments</div>
+
+      {instruments.length > 0 && (
+        <div className="perf-table">
+          <div className="perf-header">
+            <span>Symbol</span>
+            <span>Tick</span>
+            <span>Tick $</span>
+            <span>Point $</span>
+          </div>
+          {instruments.map(i => (
+            <div key={i.id} className="perf-row" role="button" style={{ cursor: 'pointer' }} onClick={() => { setDraft(toDraft(i)); setError(''); }}>
+              <span className="perf-name">{i.symbol} <span className="text-dim">{i.assetClass}</span></span>
+              <span>{i.tickSize}</span>
+              <span>{i.tickValue}</span>
+              <span>{parseFloat(pointValue(i).toFixed(4))}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft ? (
+        <>
+          <div className="form-grid-2">
+            <GlassInput label="Symbol" value={draft.symbol} onChange={e => patch({ symbol: e.target.value })} />
+            <GlassSelect
+              label="Asset Class"
+              value={draft.assetClass}
+              onChange={v => patch({ assetClass: v as AssetClass })}
+              options={ASSET_CLASSES.map(a => ({ value: a, label: a }))}
+            />
+          </div>
+          <div className="form-grid-3">
+            <GlassInput label="Tick Size" type="number" step="any" value={draft.tickSize} onChange={e => patch({ tickSize: e.target.value })} />
+            <GlassInput label="Tick Value" type="number" step="any" value={draft.tickValue} onChange={e => patch({ tickValue: e.target.value })} />
+            <GlassInput label="Quote Ccy" value={draft.quoteCurrency} onChange={e => patch({ quoteCurrency: e.target.value })} />
+          </div>
+          <div className="form-grid-2">
+            <GlassInput
+              label="Commission / unit (RT)"
+              type="number"
+              step="0.01"
+              placeholder="Optional"
+              value={draft.commissionPerUnit}
+              onChange={e => patch({ commissionPerUnit: e.target.value })}
+            />
+            <GlassInput
+              label="Fees / unit (RT)"
+              type="number"
+              step="0.01"
+              placeholder="Optional"
+              value={draft.feePerUnit}
+              onChange={e => patch({ feePerUnit: e.target.value })}
+            />
+          </div>
+          {draftPointValue !== null && (
+            <div className="settings-info-row">
+              <span className="settings-info-label">Contract multiplier (per point)</span>
+              <span className="settings-info-value">{parseFloat(draftPointValue.toFixed(4))}</span>
+            </div>
+          )}
+          {error && <p className="glass-error">{error}</p>}
+          <div className="settings-actions">
+            <button className="btn-secondary" onClick={save}>{draft.id ? 'Save' : 'Add'}</button>
+            <button className="btn-ghost" onClick={() => { setDraft(null); setError(''); }}>Cancel</button>
+          </div>
+          {draft.id && (
+            <button className="btn-link btn-link--danger" onClick={() => remove(draft.id!)}>Remove instrument</button>
+          )}
+        </>
+      ) : (
+        <button className="btn-secondary" onClick={() => setDraft(EMPTY_DRAFT)}>Add Instrument</button>
+      )}
+    </GlassCard>
+  );
+}
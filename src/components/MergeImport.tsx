@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { StatusBadge } from './StatusBadge';
+import type { JournalState } from '../types/trade';
+import { diffTrades, formatFieldValue, mergeJournal, tradeTitle, type MatchKind, type TradeMatch } from '../utils/merge';
+
+interface MergeImportProps {
+  /** Validated journal data from the import file */
+  incoming: Partial<JournalState>;
+  /** `applied` is false when the import was cancelled */
+  onClose: (applied: boolean) => void;
+}
+
+const KIND_LABEL: Record<MatchKind, string> = {
+  new: 'New',
+  changed: 'Changed',
+  conflict: 'Conflicts',
+  identical: 'Already here',
+};
+
+/** Shows how an imported journal differs from this one and merges it, or replaces the journal, as one undoable step. */
+export function MergeImport({ incoming, onClose }: MergeImportProps) {
+  const { state, dispatch } = useJournal();
+  const matches = useMemo(() => diffTrades(state.trades, incoming.trades ?? []), [state.trades, incoming.trades]);
+  const [takeTheirs, setTakeTheirs] = useState<Set<string>>(new Set());
+  const [shown, setShown] = useState<MatchKind>(() => matches.some(m => m.kind === 'conflict') ? 'conflict' : 'new');
+
+  const counts = matches.reduce<Record<MatchKind, number>>(
+    (acc, m) => ({ ...acc, [m.kind]: acc[m.kind] + 1 }),
+    { new: 0, changed: 0, conflict: 0, identical: 0 },
+  );
+  const visible = matches.filter(m => m.kind === shown);
+
+  function choose(m: TradeMatch, theirs: boolean) {
+    setTakeTheirs(prev => {
+      const next = new Set(prev);
+      if (theirs) next.add(m.incoming.id);
+      else next.delete(m.incoming.id);
+      return next;
+    });
+  }
+
+  function merge() {
+    dispatch({ type: 'LOAD_STATE', state: mergeJournal(state, incoming, matches, takeTheirs), source: 'merge' });
+    onClose(true);
+  }
+
+  function replace() {
+    if (!window.confirm(`Replace your journal with the ${incoming.trades?.length ?? 0} imported trade(s)?`)) return;
+    dispatch({ type: 'LOAD_STATE', state: incoming, source: 'import' });
+    onClose(true);
+  }
+
+  return (
+    <div className="sheet-backdrop" onClick={() => onClose(false)}>
+      <div className="sheet" role="dialog" onClick={e => e.stopPropagation()}>
+        <div className="sheet-title">Import {incoming.trades?.length ?? 0} trade(s)</div>
+        <p className="text-dim">
+          Merging adds new trades and fills in blanks. For conflicts, pick which copy to keep — yours is kept unless you choose theirs.
+          Missing accounts, instruments, templates, reviews and daily entries are added; your settings stay.
+        </p>
+        <div className="segmented segmented--wrap" role="group" aria-label="Trades to show">
+          {(Object.keys(KIND_LABEL) as MatchKind[]).map(k => (
+            <button
+              key={k}
+              type="button"
+              className={`segmented-btn${shown === k ? ' segmented-btn--active' : ''}`}
+              onClick={() => setShown(k)}
+            >
+              {KIND_LABEL[k]} ({counts[k]})
+            </button>
+          ))}
+        </div>
+
+        <div className="repair-list">
+          {visible.length === 0 && <p className="text-dim">None.</p>}
+          {visible.map(m => (
+            <div key={m.incoming.id} className="repair-row">
+              <span className="perf-name">
+                {tradeTitle(m.incoming)} <StatusBadge direction={m.incoming.direction} />
+                {m.by === 'fingerprint' && <span className="text-dim"> · matched by symbol, time and P&L</span>}
+              </span>
+              {m.local && m.fields.map(f => (
+                <span key={f} className="text-dim">
+                  {f}: {formatFieldValue(m.local?.[f])} → {formatFieldValue(m.incoming[f])}
+                </span>
+              ))}
+              {m.kind === 'conflict' && (
+                <div className="segmented" role="group" aria-label="Copy to keep">
+                  <button
+                    type="button"
+                    className={`segmented-btn${!takeTheirs.has(m.incoming.id) ? ' segmented-btn--active' : ''}`}
+                    onClick={() => choose(m, false)}
+                  >Keep mine</button>
+                  <button
+                    type="button"
+                    className={`segmented-btn${takeTheirs.has(m.incoming.id) ? ' segmented-btn--active' : ''}`}
+                    onClick={() => choose(m, true)}
+                  >Use theirs</button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="form-actions">
+          <button type="button" className="btn-primary" onClick={merge}>
+            Merge ({counts.new} new, {counts.changed + takeTheirs.size} updated)
+          </button>
+          <button type="button" className="btn-secondary" onClick={replace}>Replace Journal Instead</button>
+          <button type="button" className="btn-ghost" onClick={() => onClose(false)}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+}
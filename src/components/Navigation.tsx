@@ -1,5 +1,5 @@
 import type { AppView } from '../types/trade';
-import { LayoutDashboard, BookOpen, PlusCircle, BarChart2, Settings } from 'lucide-react';
+import { LayoutDashboard, BookOpen, NotebookPen, PlusCircle, BarChart2, Settings } from 'lucide-react';
 
 interface NavigationProps {
   current: AppView;
@@ -9,6 +9,7 @@ interface NavigationProps {
 const NAV_ITEMS: { view: AppView; icon: typeof LayoutDashboard; label: string }[] = [
   { view: 'dashboard', icon: LayoutDashboard, label: 'Dashboard' },
   { view: 'journal', icon: BookOpen, label: 'Journal' },
+  { view: 'daily', icon: NotebookPen, label: 'Daily' },
   { view: 'add-trade', icon: PlusCircle, label: 'Add' },
   { view: 'analytics', icon: BarChart2, label: 'Analytics' },
   { view: 'settings', icon: Settings, label: 'Settings' },
@@ -0,0 +1,24 @@
+import { useJournal } from '../store/JournalContext';
+import type { PnlMode } from '../types/trade';
+import { PNL_MODE_LABEL } from '../utils/pnl';
+
+/** Gross / Net switch bound to settings.pnlMode, shared by every page that shows P&L. */
+export function PnlModeToggle() {
+  const { state, dispatch } = useJournal();
+  const mode = state.settings.pnlMode;
+
+  return (
+    <div className="segmented" role="group" aria-label="P&L basis">
+      {(['gross', 'net'] as PnlMode[]).map(m => (
+        <button
+          key={m}
+          type="button"
+          className={`segmented-btn${mode === m ? ' segmented-btn--active' : ''}`}
+          onClick={() => dispatch({ type: 'UPDATE_SETTINGS', settings: { pnlMode: m } })}
+        >
+          {PNL_MODE_LABEL[m]}
+        </button>
+      ))}
+    </div>
+  );
+}
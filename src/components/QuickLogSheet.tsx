@@ -0,0 +1,119 @@
+import { useState, type FormEvent } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { selectActiveAccount } from '../store/selectors';
+import { GlassInput, GlassSelect } from './GlassInput';
+import type { Direction, Trade } from '../types/trade';
+import { generateId } from '../utils/id';
+import { defaultValue } from '../utils/taxonomy';
+
+interface QuickLogSheetProps {
+  onClose: () => void;
+}
+
+/** Compact bottom sheet that logs a closed trade from symbol, direction and P&L. Other fields come from a template or the defaults. */
+export function QuickLogSheet({ onClose }: QuickLogSheetProps) {
+  const { state, dispatch } = useJournal();
+  const { taxonomies, templates } = state;
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const template = templates.find(t => t.id === templateId);
+  const [symbol, setSymbol] = useState(template?.fields.symbol ?? '');
+  const [direction, setDirection] = useState<Direction>(template?.fields.direction ?? 'Long');
+  const [pnl, setPnl] = useState('');
+  const [error, setError] = useState('');
+
+  function pickTemplate(id: string) {
+    setTemplateId(id);
+    const next = templates.find(t => t.id === id);
+    if (next?.fields.symbol) setSymbol(next.fields.symbol);
+    if (next?.fields.direction) setDirection(next.fields.direction);
+  }
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const pnlNum = parseFloat(pnl);
+    if (!symbol.trim()) return setError('Symbol is required');
+    if (isNaN(pnlNum)) return setError('Valid P&L amount required (e.g. +120.50 or -45.00)');
+
+    const f = template?.fields ?? {};
+    const now = new Date().toISOString();
+    const trade: Trade = {
+      id: generateId(),
+      createdAt: now,
+      accountId: f.accountId ?? selectActiveAccount(state)?.id ?? state.accounts[0]?.id,
+      status: 'closed',
+      closedAt: now,
+      symbol: symbol.toUpperCase().trim(),
+      direction,
+      timeframe: f.timeframe ?? defaultValue(taxonomies.timeframe, '15m'),
+      session: f.session ?? defaultValue(taxonomies.session, 'New York'),
+      setup: f.setup ?? defaultValue(taxonomies.setup),
+      strategyType: f.strategyType ?? defaultValue(taxonomies.strategy),
+      pnl: parseFloat(pnlNum.toFixed(2)),
+      positionSize: f.positionSize,
+      emotion: f.emotion,
+      tags: f.tags,
+      date: now,
+    };
+    dispatch({ type: 'ADD_TRADE', trade });
+    onClose();
+  }
+
+  return (
+    <div className="sheet-backdrop" onClick={onClose}>
+      <form className="sheet" onSubmit={handleSubmit} onClick={e => e.stopPropagation()} noValidate>
+        <div className="sheet-title">Quick Log</div>
+        {templates.length > 0 && (
+          <GlassSelect
+            label="Template"
+            value={templateId}
+            onChange={pickTemplate}
+            options={[{ value: '', label: 'No template' }, ...templates.map(t => ({ value: t.id, label: t.name }))]}
+          />
+        )}
+        <div className="form-grid-2">
+          <GlassInput
+            label="Symbol"
+            placeholder="e.g. NQ"
+            value={symbol}
+            onChange={e => setSymbol(e.target.value)}
+            list="quick-log-symbols"
+            autoComplete="off"
+            autoFocus
+          />
+          <datalist id="quick-log-symbols">
+            {state.instruments.map(i => <option key={i.id} value={i.symbol} />)}
+          </datalist>
+          <div className="glass-field">
+            <label className="glass-label">Direction</label>
+            <div className="direction-toggle">
+              <button
+                type="button"
+                className={`dir-btn${direction === 'Long' ? ' dir-btn--active dir-btn--long' : ''}`}
+                onClick={() => setDirection('Long')}
+              >Long</button>
+              <button
+                type="button"
+                className={`dir-btn${direction === 'Short' ? ' dir-btn--active dir-btn--short' : ''}`}
+                onClick={() => setDirection('Short')}
+              >Short</button>
+            </div>
+          </div>
+        </div>
+        <GlassInput
+          label="Gross P&L (signed)"
+          type="number"
+          step="0.01"
+          inputMode="decimal"
+          placeholder="e.g. +120.50 or -45.00"
+          value={pnl}
+          onChange={e => setPnl(e.target.value)}
+          error={error || undefined}
+        />
+        <div className="form-actions">
+          <button type="submit" className="btn-primary">Log Trade</button>
+          <button type="button" className="btn-ghost" onClick={onClose}>Cancel</button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import type { JournalState } from '../types/trade';
+import type { ValidationReport } from '../store/validation';
+
+interface RepairReportProps {
+  report: ValidationReport;
+  /** What the data is about to do, e.g. "Import" or "Pull" */
+  action: string;
+  /** What happens once a choice is made */
+  note: string;
+  onLoad: (data: Partial<JournalState>) => void;
+  onAbort: () => void;
+}
+
+/** Lists invalid records in incoming journal data and lets the user skip them, repair them, or abort. */
+export function RepairReport({ report, action, note, onLoad, onAbort }: RepairReportProps) {
+  const { issues, totalTrades, invalidTrades, skipped, repaired } = report;
+
+  return (
+    <div className="sheet-backdrop" onClick={onAbort}>
+      <div className="sheet" role="dialog" onClick={e => e.stopPropagation()}>
+        <div className="sheet-title">{action}: {issues.length} record(s) need attention</div>
+        <p className="text-dim">
+          {invalidTrades > 0
+            ? `${invalidTrades} of ${totalTrades} trade(s) don't match the journal format.`
+            : 'Some records don\'t match the journal format.'}
+          {' '}{note}
+        </p>
+        <div className="repair-list">
+          {issues.map((issue, i) => (
+            <div key={i} className="repair-row">
+              <span className="perf-name">{issue.record}</span>
+              <span className="text-dim">{issue.problems.join('; ')}</span>
+            </div>
+          ))}
+        </div>
+        <div className="form-actions">
+          <button type="button" className="btn-primary" onClick={() => onLoad(repaired)}>
+            Auto-repair ({repaired.trades?.length ?? 0} trade(s))
+          </button>
+          <button type="button" className="btn-secondary" onClick={() => onLoad(skipped)}>
+            Skip invalid ({skipped.trades?.length ?? 0} trade(s))
+          </button>
+          <button type="button" className="btn-ghost" onClick={onAbort}>Abort</button>
+        </div>
+      </div>
+    </div>
+  );
+}
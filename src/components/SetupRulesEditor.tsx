@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { GlassCard } from './GlassCard';
+import { GlassInput, GlassSelect } from './GlassInput';
+import { X } from 'lucide-react';
+
+/** Settings section for the entry-rule checklist attached to each setup. */
+export function SetupRulesEditor() {
+  const { state, dispatch } = useJournal();
+  const setups = state.taxonomies.setup.filter(s => !s.archived);
+  const [setupId, setSetupId] = useState(setups[0]?.id ?? '');
+  const [newRule, setNewRule] = useState('');
+  const setup = setups.find(s => s.id === setupId) ?? setups[0];
+
+  if (!setup) return null;
+  const rules = setup.rules ?? [];
+
+  function saveRules(next: string[]) {
+    dispatch({ type: 'UPSERT_TAXONOMY_ITEM', kind: 'setup', item: { ...setup, rules: next.length ? next : undefined } });
+  }
+
+  function add() {
+    const rule = newRule.trim();
+    if (!rule || rules.includes(rule)) return;
+    saveRules([...rules, rule]);
+    setNewRule('');
+  }
+
+  return (
+    <GlassCard className="form-section">
+      <div className="form-section-title">Setup Checklists</div>
+      <GlassSelect
+        label="Setup"
+        value={setup.id}
+        onChange={setSetupId}
+        options={setups.map(s => ({ value: s.id, label: s.label }))}
+      />
+      {rules.length === 0 && <p className="text-dim">No rules yet. Add the conditions that must hold before entering a {setup.label}.</p>}
+      <div className="taxonomy-list">
+        {rules.map(rule => (
+          <div key={rule} className="taxonomy-row">
+            <span className="checklist-rule-text">{rule}</span>
+            <button className="icon-btn" onClick={() => saveRules(rules.filter(r => r !== rule))} aria-label={`Remove ${rule}`}>
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="sync-key-row">
+        <div style={{ flex: 1 }}>
+          <GlassInput
+            placeholder="e.g. HTF bias aligned"
+            value={newRule}
+            onChange={e => setNewRule(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') add(); }}
+          />
+        </div>
+        <button className="btn-secondary sync-gen-btn" onClick={add} disabled={!newRule.trim()}>Add</button>
+      </div>
+    </GlassCard>
+  );
+}
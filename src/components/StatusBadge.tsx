@@ -1,3 +1,4 @@
+import type { CSSProperties } from 'react';
 import type { TradeResult, Direction } from '../types/trade';
 
 interface StatusBadgeProps {
@@ -37,8 +38,10 @@ export function StatusBadge({ result, direction, label, size = 'sm' }: StatusBad
 
 interface TagBadgeProps {
   label: string;
+  /** Optional colour override, e.g. from a taxonomy item */
+  style?: CSSProperties;
 }
 
-export function TagBadge({ label }: TagBadgeProps) {
-  return <span className="badge badge-tag">{label}</span>;
+export function TagBadge({ label, style }: TagBadgeProps) {
+  return <span className="badge badge-tag" style={style}>{label}</span>;
 }
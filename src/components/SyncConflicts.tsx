@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { useSync } from '../store/SyncContext';
+import { StatusBadge } from './StatusBadge';
+import { formatFieldValue, tradeTitle } from '../utils/merge';
+import type { ConflictChoice, SyncConflict } from '../utils/syncMerge';
+
+function describeConflict(c: SyncConflict): string {
+  if (!c.local) return 'Deleted on this device, edited on another.';
+  if (!c.remote) return 'Edited on this device, deleted on another.';
+  return 'Edited on this device and another.';
+}
+
+/** Asks which copy to keep for trades changed on two devices since they last synced. */
+export function SyncConflicts() {
+  const { conflicts, resolveConflicts, postponeConflicts } = useSync();
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  if (conflicts.length === 0) return null;
+
+  const choose = (id: string, side: ConflictChoice) => setChoices(prev => ({ ...prev, [id]: side }));
+
+  return (
+    <div className="sheet-backdrop" onClick={postponeConflicts}>
+      <div className="sheet" role="dialog" onClick={e => e.stopPropagation()}>
+        <div className="sheet-title">{conflicts.length} sync conflict(s)</div>
+        <p className="text-dim">
+          These trades were changed here and on another device since they last synced.
+          Everything else has been merged; pick which copy of each to keep. Yours is kept unless you choose theirs.
+        </p>
+
+        <div className="repair-list">
+          {conflicts.map(c => {
+            const trade = c.local ?? c.remote;
+            if (!trade) return null;
+            const side = choices[c.id] ?? 'local';
+            return (
+              <div key={c.id} className="repair-row">
+                <span className="perf-name">
+                  {tradeTitle(trade)} <StatusBadge direction={trade.direction} />
+                </span>
+                <span className="text-dim">{describeConflict(c)}</span>
+                {c.fields.map(f => (
+                  <span key={f} className="text-dim">
+                    {f}: {formatFieldValue(c.local?.[f])} (mine) · {formatFieldValue(c.remote?.[f])} (theirs)
+                  </span>
+                ))}
+                <div className="segmented" role="group" aria-label="Copy to keep">
+                  <button
+                    type="button"
+                    className={`segmented-btn${side === 'local' ? ' segmented-btn--active' : ''}`}
+                    onClick={() => choose(c.id, 'local')}
+                  >{c.local ? 'Keep mine' : 'Keep deleted'}</button>
+                  <button
+                    type="button"
+                    className={`segmented-btn${side === 'remote' ? ' segmented-btn--active' : ''}`}
+                    onClick={() => choose(c.id, 'remote')}
+                  >{c.remote ? 'Use theirs' : 'Delete it'}</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="form-actions">
+          <button type="button" className="btn-primary" onClick={() => resolveConflicts(choices)}>Apply and Sync</button>
+          <button type="button" className="btn-ghost" onClick={postponeConflicts}>Decide Later</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { useSync } from '../store/SyncContext';
+import { GlassInput } from './GlassInput';
+import { loadSyncMeta, loadSyncSecret, pushToCloud, readCloudRow, reencryptSnapshots, saveSyncSecret } from '../utils/cloudSync';
+import type { SyncConfig } from '../utils/syncProviders';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  PassphraseError,
+  decryptPayload,
+  deriveSecret,
+  generateImageKey,
+  isEncryptedPayload,
+  sameSecret,
+  unwrapImageKey,
+  type SyncSecret,
+} from '../utils/syncCrypto';
+
+type Form = 'enable' | 'unlock' | 'change';
+
+function checkNew(passphrase: string, confirm: string): string {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  if (passphrase !== confirm) return "The passphrases don't match.";
+  return '';
+}
+
+/** Cloud Sync subsection: sets, enters and changes the end-to-end encryption passphrase. */
+export function SyncPassphrase({ config }: { config: SyncConfig }) {
+  const sync = useSync();
+  const [secret, setSecret] = useState(() => loadSyncSecret(config));
+  const [form, setForm] = useState<Form | null>(null);
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  // The cloud copy is encrypted and this device can't open it
+  const locked = sync.passphraseNeeded || (!secret && !!loadSyncMeta().remoteEncrypted);
+  const shown: Form | null = form ?? (locked ? 'unlock' : null);
+
+  function close(text: string, error = false) {
+    setForm(null);
+    setCurrent('');
+    setPassphrase('');
+    setConfirm('');
+    setMessage({ text, error });
+    sync.syncNow();
+  }
+
+  /** Brings the snapshots over to the new secret once the journal is, and closes with `done` plus what happened to them. */
+  async function finish(done: string, previous: SyncSecret | null, next: SyncSecret) {
+    try {
+      const deleted = await reencryptSnapshots(config, previous, next);
+      close(deleted ? `${done} ${deleted} older snapshot(s) couldn't be opened and were deleted.` : done);
+    } catch (err) {
+      close(`${done} Older snapshots weren't re-encrypted — ${err instanceof Error ? err.message : String(err)}`, true);
+    }
+  }
+
+  function fail(err: unknown) {
+    setMessage({
+      text: err instanceof PassphraseError ? "That passphrase doesn't open the cloud copy." : String(err instanceof Error ? err.message : err),
+      error: true,
+    });
+  }
+
+  /** Turns encryption on, or — when the cloud copy is already encrypted — checks the passphrase against it. */
+  async function enableOrUnlock() {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const row = await readCloudRow(config);
+      if (row && isEncryptedPayload(row.payload)) {
+        const candidate = await deriveSecret(passphrase, row.payload.kdf);
+        await decryptPayload(row.payload, candidate, config.syncKey);
+        candidate.imageKey = await unwrapImageKey(row.payload, candidate, config.syncKey);
+        saveSyncSecret(config, candidate);
+        setSecret(candidate);
+        close('Passphrase accepted — this device syncs again.');
+        return;
+      }
+      const problem = checkNew(passphrase, confirm);
+      if (problem) {
+        setForm('enable');
+        setMessage({ text: shown === 'unlock' ? "The cloud copy isn't encrypted yet — confirm a new passphrase to turn encryption on." : problem, error: true });
+        return;
+      }
+      const candidate = { ...await deriveSecret(passphrase), imageKey: generateImageKey() };
+      // Re-encrypt the cloud copy as it stands; this device's changes follow with the next sync
+      if (row) await pushToCloud(config, row.payload, row.updatedAt, candidate);
+      saveSyncSecret(config, candidate);
+      setSecret(candidate);
+      await finish('Encryption is on. Enter the same passphrase on your other devices.', null, candidate);
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function changePassphrase() {
+    if (!secret) return;
+    const problem = checkNew(passphrase, confirm);
+    if (problem) {
+      setMessage({ text: problem, error: true });
+      return;
+    }
+    setBusy(true);
+    setMessage(null);
+    try {
+      if (!sameSecret(await deriveSecret(current, secret), secret)) {
+        setMessage({ text: 'The current passphrase is wrong.', error: true });
+        return;
+      }
+      const row = await readCloudRow(config);
+      // Keep the image key so screenshots already uploaded stay readable
+      const replacement = { ...await deriveSecret(passphrase), imageKey: secret.imageKey ?? generateImageKey() };
+      if (row) {
+        const state = isEncryptedPayload(row.payload) ? await decryptPayload(row.payload, secret, config.syncKey) : row.payload;
+        await pushToCloud(config, state, row.updatedAt, replacement);
+      }
+      saveSyncSecret(config, replacement);
+      setSecret(replacement);
+      await finish('Passphrase changed. Your other devices will ask for the new one.', secret, replacement);
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="settings-info-row">
+        <span className="settings-info-label">End-to-end encryption</span>
+        <span className="settings-info-value">{locked ? 'Passphrase needed' : secret ? 'On' : 'Off'}</span>
+      </div>
+
+      {shown === null && (
+        <div className="settings-actions">
+          <button type="button" className="btn-secondary" onClick={() => { setForm(secret ? 'change' : 'enable'); setMessage(null); }}>
+            {secret ? 'Change Passphrase…' : 'Set Passphrase…'}
+          </button>
+        </div>
+      )}
+
+      {shown !== null && (
+        <>
+          <p className="text-dim">
+            {shown === 'unlock'
+              ? 'The cloud copy is encrypted. Enter the passphrase you set on your other device.'
+              : 'The journal is encrypted on this device before upload, and its cloud snapshots are re-encrypted to match. '
+                + "There is no way to recover the cloud copy without the passphrase — this device's data is unaffected. "
+                + 'Screenshots uploaded from now on are encrypted too; earlier ones stay as they are.'}
+          </p>
+          {shown === 'change' && (
+            <GlassInput label="Current passphrase" type="password" autoComplete="current-password" value={current} onChange={e => setCurrent(e.target.value)} />
+          )}
+          <GlassInput
+            label={shown === 'change' ? 'New passphrase' : 'Passphrase'}
+            type="password"
+            autoComplete={shown === 'unlock' ? 'current-password' : 'new-password'}
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+          />
+          {shown !== 'unlock' && (
+            <GlassInput label="Confirm passphrase" type="password" autoComplete="new-password" value={confirm} onChange={e => setConfirm(e.target.value)} />
+          )}
+          <div className="settings-actions">
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={shown === 'change' ? changePassphrase : enableOrUnlock}
+              disabled={busy || !passphrase}
+            >
+              {busy ? 'Working…' : shown === 'change' ? 'Change Passphrase' : shown === 'unlock' ? 'Unlock' : 'Turn On Encryption'}
+            </button>
+            {form !== null && (
+              <button type="button" className="btn-ghost" onClick={() => { setForm(null); setMessage(null); }} disabled={busy}>Cancel</button>
+            )}
+          </div>
+        </>
+      )}
+
+      {message && <p className={`sync-status sync-status--${message.error ? 'error' : 'ok'}`}>{message.text}</p>}
+    </>
+  );
+}
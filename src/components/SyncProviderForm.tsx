@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { GlassInput, GlassSelect } from './GlassInput';
+import { generateSyncKey, testSyncConnection } from '../utils/cloudSync';
+import { isFolderSyncSupported, pickSyncFolder } from '../utils/syncFolder';
+import {
+  SYNC_PROVIDERS,
+  blankSyncConfig,
+  isSyncConfigured,
+  isValidSyncUrl,
+  type SyncConfig,
+  type SyncProviderKind,
+} from '../utils/syncProviders';
+
+function ProviderIntro({ provider }: { provider: SyncProviderKind }) {
+  switch (provider) {
+    case 'supabase':
+      return (
+        <p className="text-dim" style={{ lineHeight: 1.6 }}>
+          Sync your journal across devices via{' '}
+          <a href="https://supabase.com" target="_blank" rel="noreferrer" className="sync-link">Supabase</a>
+          {' '}— hosted or self-hosted. Create a project, run the setup SQL to create the{' '}
+          <code>journals</code> table, then paste your Project URL, anon key, and a sync key below.
+        </p>
+      );
+    case 'rest':
+      return (
+        <p className="text-dim" style={{ lineHeight: 1.6 }}>
+          Sync through your own server. It stores files by path: <code>GET</code>, <code>PUT</code> and{' '}
+          <code>DELETE</code> with ETags and <code>If-Match</code>, and a JSON listing for paths ending in <code>/</code>.
+        </p>
+      );
+    case 'webdav':
+      return (
+        <p className="text-dim" style={{ lineHeight: 1.6 }}>
+          Sync into a folder on a WebDAV server such as Nextcloud. The server must allow requests from this app (CORS).
+        </p>
+      );
+    case 'folder':
+      return (
+        <p className="text-dim" style={{ lineHeight: 1.6 }}>
+          Sync through a folder on this computer — point every device at a folder Dropbox, iCloud Drive or Syncthing
+          keeps in step. Needs a Chromium-based browser.
+        </p>
+      );
+  }
+}
+
+/** Cloud Sync setup: picks the provider and edits its connection details. */
+export function SyncProviderForm({ config, onChange }: { config: SyncConfig; onChange: (config: SyncConfig) => void }) {
+  const [test, setTest] = useState<{ text: string; error: boolean } | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  function change(next: SyncConfig) {
+    setTest(null);
+    onChange(next);
+  }
+
+  async function runTest() {
+    setTesting(true);
+    setTest(null);
+    try {
+      await testSyncConnection(config);
+      setTest({ text: 'Connected.', error: false });
+    } catch (err) {
+      setTest({ text: String(err instanceof Error ? err.message : err), error: true });
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  async function chooseFolder() {
+    if (config.provider !== 'folder') return;
+    try {
+      change({ ...config, ...await pickSyncFolder() });
+    } catch (err) {
+      // Closing the picker isn't an error
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setTest({ text: String(err instanceof Error ? err.message : err), error: true });
+      }
+    }
+  }
+
+  const url = config.provider === 'supabase' ? config.supabaseUrl : config.provider === 'folder' ? '' : config.url;
+  const urlError = url && !isValidSyncUrl(url) ? 'Enter an https:// URL — plain http:// only works for localhost.' : '';
+
+  return (
+    <>
+      <GlassSelect
+        label="Provider"
+        value={config.provider}
+        onChange={v => change(blankSyncConfig(v as SyncProviderKind, config.syncKey))}
+        options={SYNC_PROVIDERS}
+      />
+
+      <ProviderIntro provider={config.provider} />
+
+      {config.provider === 'supabase' && (
+        <>
+          <GlassInput
+            label="Supabase Project URL"
+            placeholder="https://xyzcompany.supabase.co"
+            value={config.supabaseUrl}
+            onChange={e => change({ ...config, supabaseUrl: e.target.value.trim() })}
+          />
+          {urlError && <p className="glass-error">{urlError}</p>}
+          <GlassInput
+            label="Anon Public Key"
+            placeholder="Paste your anon public key here"
+            value={config.anonKey}
+            onChange={e => change({ ...config, anonKey: e.target.value.trim() })}
+          />
+        </>
+      )}
+
+      {config.provider === 'rest' && (
+        <>
+          <GlassInput
+            label="Server URL"
+            placeholder="https://sync.example.com/crtv"
+            value={config.url}
+            onChange={e => change({ ...config, url: e.target.value.trim() })}
+          />
+          {urlError && <p className="glass-error">{urlError}</p>}
+          <GlassInput
+            label="Access Token (optional)"
+            type="password"
+            value={config.token}
+            onChange={e => change({ ...config, token: e.target.value.trim() })}
+          />
+        </>
+      )}
+
+      {config.provider === 'webdav' && (
+        <>
+          <GlassInput
+            label="Folder URL"
+            placeholder="https://cloud.example.com/remote.php/dav/files/me/CRTV"
+            value={config.url}
+            onChange={e => change({ ...config, url: e.target.value.trim() })}
+          />
+          {urlError && <p className="glass-error">{urlError}</p>}
+          <GlassInput
+            label="Username"
+            autoComplete="username"
+            value={config.username}
+            onChange={e => change({ ...config, username: e.target.value.trim() })}
+          />
+          <GlassInput
+            label="Password (an app password, where the server offers them)"
+            type="password"
+            autoComplete="current-password"
+            value={config.password}
+            onChange={e => change({ ...config, password: e.target.value })}
+          />
+        </>
+      )}
+
+      {config.provider === 'folder' && (
+        isFolderSyncSupported() ? (
+          <div className="settings-info-row">
+            <span className="settings-info-label">Folder</span>
+            <span className="settings-info-value">{config.folderName || 'None chosen'}</span>
+            <button className="btn-secondary" onClick={chooseFolder}>{config.folderId ? 'Change…' : 'Choose Folder…'}</button>
+          </div>
+        ) : (
+          <p className="glass-error">This browser can't sync to a folder. Use Chrome or Edge, or pick another provider.</p>
+        )
+      )}
+
+      <div className="sync-key-row">
+        <div style={{ flex: 1 }}>
+          <GlassInput
+            label="Sync Key  (shared secret — use the same key on every device)"
+            placeholder="XXXX-XXXX-XXXX"
+            value={config.syncKey}
+            onChange={e => change({ ...config, syncKey: e.target.value.trim() })}
+          />
+        </div>
+        <button
+          className="btn-secondary sync-gen-btn"
+          onClick={() => change({ ...config, syncKey: generateSyncKey() })}
+          title="Generate a new random sync key"
+        >
+          Generate
+        </button>
+      </div>
+
+      <div className="settings-actions">
+        <button className="btn-secondary" onClick={runTest} disabled={!isSyncConfigured(config) || testing}>
+          {testing ? 'Testing…' : 'Test Connection'}
+        </button>
+      </div>
+      {test && <p className={`sync-status sync-status--${test.error ? 'error' : 'ok'}`}>{test.text}</p>}
+    </>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { listCloudSnapshots, pullCloudSnapshot } from '../utils/cloudSync';
+import type { SyncConfig, SyncSnapshot } from '../utils/syncProviders';
+
+function snapshotLabel(s: SyncSnapshot): string {
+  const when = new Date(s.savedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  return s.size !== undefined ? `${when} · ${Math.max(1, Math.round(s.size / 1024))} KB` : when;
+}
+
+/** Cloud Sync subsection: lists the hourly snapshots the provider keeps and hands one back for restoring. */
+export function SyncSnapshots({ config, onRestore }: {
+  config: SyncConfig;
+  onRestore: (snapshot: { state: unknown; updatedAt: number }) => void;
+}) {
+  const [snapshots, setSnapshots] = useState<SyncSnapshot[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  async function load() {
+    setBusy(true);
+    setError('');
+    try {
+      setSnapshots(await listCloudSnapshots(config));
+    } catch (err) {
+      setError(String(err instanceof Error ? err.message : err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function restore(s: SyncSnapshot) {
+    if (!window.confirm(`Replace the journal on this device and in the cloud with the snapshot from ${snapshotLabel(s)}?`)) return;
+    setBusy(true);
+    setError('');
+    try {
+      const snapshot = await pullCloudSnapshot(config, s.id);
+      if (snapshot) onRestore(snapshot);
+      else setError('That snapshot is no longer available.');
+    } catch (err) {
+      setError(String(err instanceof Error ? err.message : err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <>
+      {snapshots === null ? (
+        <div className="settings-actions">
+          <button type="button" className="btn-secondary" onClick={load} disabled={busy}>
+            {busy ? 'Loading…' : 'Show Snapshots…'}
+          </button>
+        </div>
+      ) : snapshots.length === 0 ? (
+        <p className="text-dim">No snapshots yet — one is kept at most every hour when this journal is pushed.</p>
+      ) : (
+        <div className="repair-list">
+          {snapshots.map(s => (
+            <div key={s.id} className="settings-info-row">
+              <span className="settings-info-label">{snapshotLabel(s)}</span>
+              <button type="button" className="btn-link" onClick={() => restore(s)} disabled={busy}>Restore</button>
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <p className="sync-status sync-status--error">{error}</p>}
+    </>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState, type KeyboardEvent } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTag } from '../utils/tags';
+
+interface TagInputProps {
+  label?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Known tags offered as autocomplete chips */
+  suggestions: string[];
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/** Chip-style multi-value input. Enter or comma commits the typed tag; Backspace on empty removes the last. */
+export function TagInput({ label, value, onChange, suggestions, placeholder = 'Add tag…' }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  function add(raw: string) {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setDraft('');
+  }
+
+  function remove(tag: string) {
+    onChange(value.filter(t => t !== tag));
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length) {
+      remove(value[value.length - 1]);
+    }
+  }
+
+  const query = normalizeTag(draft);
+  const matches = suggestions
+    .filter(s => !value.includes(s) && (!query || s.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="glass-field">
+      {label && <label className="glass-label">{label}</label>}
+      <div className="glass-input tag-input">
+        {value.map(tag => (
+          <span key={tag} className="badge badge-tag tag-chip">
+            {tag}
+            <button type="button" className="tag-chip-remove" onClick={() => remove(tag)} aria-label={`Remove ${tag}`}>
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <input
+          className="tag-input-field"
+          value={draft}
+          placeholder={value.length ? '' : placeholder}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => { if (draft.trim()) add(draft); }}
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="mistake-chips">
+          {matches.map(s => (
+            <button
+              key={s}
+              type="button"
+              className="mistake-chip"
+              // mousedown fires before the input's blur, so the click isn't swallowed by the blur commit
+              onMouseDown={e => { e.preventDefault(); add(s); }}
+            >
+              + {s}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { GlassCard } from './GlassCard';
+import { GlassInput } from './GlassInput';
+import type { TaxonomyItem, TaxonomyKind } from '../types/trade';
+import { ArrowDown, ArrowUp, Archive, ArchiveRestore } from 'lucide-react';
+import { generateId } from '../utils/id';
+import { TAXONOMY_LABELS, taxonomyValues } from '../utils/taxonomy';
+
+const KINDS = Object.keys(TAXONOMY_LABELS) as TaxonomyKind[];
+const DEFAULT_COLOR = '#a0a0b4';
+
+/** Settings section for adding, renaming, reordering, recolouring and archiving taxonomy values. */
+export function TaxonomyManager() {
+  const { state, dispatch } = useJournal();
+  const [kind, setKind] = useState<TaxonomyKind>('setup');
+  const [newLabel, setNewLabel] = useState('');
+  const [error, setError] = useState('');
+  const items = state.taxonomies[kind];
+
+  function isTaken(label: string, exceptId?: string) {
+    return items.some(i => i.id !== exceptId && i.label.toLowerCase() === label.toLowerCase());
+  }
+
+  function add() {
+    const label = newLabel.trim();
+    if (!label) return;
+    if (isTaken(label)) return setError(`"${label}" already exists`);
+    dispatch({ type: 'UPSERT_TAXONOMY_ITEM', kind, item: { id: generateId(), label } });
+    setNewLabel('');
+    setError('');
+  }
+
+  function rename(item: TaxonomyItem, label: string): boolean {
+    const next = label.trim();
+    if (!next || next === item.label) return false;
+    if (isTaken(next, item.id)) {
+      setError(`"${next}" already exists`);
+      return false;
+    }
+    const used = state.trades.filter(t => taxonomyValues(t, kind).includes(item.label)).length;
+    if (used > 0 && !window.confirm(`Rename "${item.label}" to "${next}"? ${used} trade(s) will be updated.`)) return false;
+    dispatch({ type: 'UPSERT_TAXONOMY_ITEM', kind, item: { ...item, label: next } });
+    setError('');
+    return true;
+  }
+
+  return (
+    <GlassCard className="form-section">
+      <div className="form-section-title">Categories</div>
+      <div className="segmented segmented--wrap" role="group" aria-label="Category">
+        {KINDS.map(k => (
+          <button
+            key={k}
+            type="button"
+            className={`segmented-btn${kind === k ? ' segmented-btn--active' : ''}`}
+            onClick={() => { setKind(k); setError(''); }}
+          >
+            {TAXONOMY_LABELS[k]}
+          </button>
+        ))}
+      </div>
+
+      <div className="taxonomy-list">
+        {items.map((item, i) => (
+          <TaxonomyRow
+            key={`${item.id}:${item.label}`}
+            item={item}
+            isFirst={i === 0}
+            isLast={i === items.length - 1}
+            onRename={label => rename(item, label)}
+            onColor={color => dispatch({ type: 'UPSERT_TAXONOMY_ITEM', kind, item: { ...item, color } })}
+            onArchive={() => dispatch({ type: 'UPSERT_TAXONOMY_ITEM', kind, item: { ...item, archived: !item.archived || undefined } })}
+            onMove={delta => dispatch({ type: 'MOVE_TAXONOMY_ITEM', kind, id: item.id, delta })}
+          />
+        ))}
+      </div>
+
+      <div className="sync-key-row">
+        <div style={{ flex: 1 }}>
+          <GlassInput
+            placeholder={`New ${TAXONOMY_LABELS[kind].toLowerCase().replace(/s$/, '')}…`}
+            value={newLabel}
+            onChange={e => setNewLabel(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') add(); }}
+          />
+        </div>
+        <button className="btn-secondary sync-gen-btn" onClick={add} disabled={!newLabel.trim()}>Add</button>
+      </div>
+      {error && <p className="glass-error">{error}</p>}
+    </GlassCard>
+  );
+}
+
+interface TaxonomyRowProps {
+  item: TaxonomyItem;
+  isFirst: boolean;
+  isLast: boolean;
+  onRename: (label: string) => boolean;
+  onColor: (color: string) => void;
+  onArchive: () => void;
+  onMove: (delta: -1 | 1) => void;
+}
+
+function TaxonomyRow({ item, isFirst, isLast, onRename, onColor, onArchive, onMove }: TaxonomyRowProps) {
+  // Renames are committed on blur / Enter so trades aren't rewritten on every keystroke
+  const [label, setLabel] = useState(item.label);
+
+  function commit() {
+    if (!onRename(label)) setLabel(item.label);
+  }
+
+  return (
+    <div className={`taxonomy-row${item.archived ? ' taxonomy-row--archived' : ''}`}>
+      <input
+        type="color"
+        className="taxonomy-color"
+        value={item.color ?? DEFAULT_COLOR}
+        onChange={e => onColor(e.target.value)}
+        aria-label={`Colour for ${item.label}`}
+      />
+      <input
+        className="glass-input taxonomy-label"
+        value={label}
+        onChange={e => setLabel(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      />
+      <button className="icon-btn" onClick={() => onMove(-1)} disabled={isFirst} aria-label="Move up"><ArrowUp size={14} /></button>
+      <button className="icon-btn" onClick={() => onMove(1)} disabled={isLast} aria-label="Move down"><ArrowDown size={14} /></button>
+      <button className="icon-btn" onClick={onArchive} aria-label={item.archived ? 'Restore' : 'Archive'} title={item.archived ? 'Restore' : 'Archive'}>
+        {item.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+      </button>
+    </div>
+  );
+}
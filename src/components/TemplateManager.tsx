@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { GlassCard } from './GlassCard';
+import type { TradeTemplate } from '../types/trade';
+import { Trash2 } from 'lucide-react';
+import { templateSummary } from '../utils/templates';
+
+/** Settings section for renaming and deleting trade templates. Templates are created from the Add Trade form. */
+export function TemplateManager() {
+  const { state, dispatch } = useJournal();
+  const { templates } = state;
+
+  function remove(t: TradeTemplate) {
+    if (!window.confirm(`Delete template "${t.name}"?`)) return;
+    dispatch({ type: 'DELETE_TEMPLATE', id: t.id });
+  }
+
+  return (
+    <GlassCard className="form-section">
+      <div className="form-section-title">Templates</div>
+      {templates.length === 0 && (
+        <p className="text-dim">No templates yet. Use "Save as Template" when logging a trade.</p>
+      )}
+      <div className="taxonomy-list">
+        {templates.map(t => (
+          <TemplateRow
+            key={`${t.id}:${t.name}`}
+            template={t}
+            onRename={name => dispatch({ type: 'UPSERT_TEMPLATE', template: { ...t, name } })}
+            onDelete={() => remove(t)}
+          />
+        ))}
+      </div>
+    </GlassCard>
+  );
+}
+
+interface TemplateRowProps {
+  template: TradeTemplate;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+function TemplateRow({ template, onRename, onDelete }: TemplateRowProps) {
+  const [name, setName] = useState(template.name);
+
+  function commit() {
+    const next = name.trim();
+    if (next && next !== template.name) onRename(next);
+    else setName(template.name);
+  }
+
+  return (
+    <div className="taxonomy-row">
+      <div className="draft-row-info">
+        <input
+          className="glass-input taxonomy-label"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onBlur={commit}
+          onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        />
+        <span className="text-dim">{templateSummary(template)}</span>
+      </div>
+      <button className="icon-btn" onClick={onDelete} aria-label="Delete template"><Trash2 size={14} /></button>
+    </div>
+  );
+}
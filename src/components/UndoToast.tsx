@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { useJournal } from '../store/JournalContext';
+
+const VISIBLE_MS = 8000;
+
+/** Offers a one-tap undo after deletes, bulk edits, imports, cloud pulls and resets. */
+export function UndoToast() {
+  const { lastChange, undo } = useJournal();
+  const [dismissedSeq, setDismissedSeq] = useState(0);
+  const visible = !!lastChange?.destructive && lastChange.seq !== dismissedSeq;
+
+  useEffect(() => {
+    if (!lastChange?.destructive) return;
+    const seq = lastChange.seq;
+    const timer = setTimeout(() => setDismissedSeq(seq), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [lastChange]);
+
+  if (!visible) return null;
+  return (
+    <div className="undo-toast" role="status">
+      <span>{lastChange.label}</span>
+      <button type="button" className="btn-link" onClick={undo}>Undo</button>
+    </div>
+  );
+}
@@ -1,150 +1,486 @@
 import { useState, useRef, useEffect, type FormEvent } from 'react';
 import { useJournal } from '../store/JournalContext';
+import { selectActiveAccount } from '../store/selectors';
 import { GlassCard } from '../components/GlassCard';
 import { GlassInput, GlassTextarea, GlassSelect } from '../components/GlassInput';
-import type { Trade, Direction, Session, Setup } from '../types/trade';
-import { ChevronDown, Upload, X } from 'lucide-react';
-import { storeImage, loadImageUrl } from '../utils/imageStore';
+import { TagInput } from '../components/TagInput';
+import type { Trade, Direction, Execution, ExecutionSide, JournalState, TemplateFields, TradeTemplate, TradeStatus, TradeResult } from '../types/trade';
+import { ChevronDown, Plus, Upload, X } from 'lucide-react';
+import { storeImage, loadImageUrl, deleteImages } from '../utils/imageStore';
+import {
+  draftsFor,
+  upsertDraft,
+  removeDraft,
+  discardDraft,
+  defaultDraftName,
+  type FillDraft,
+  type TradeDraft,
+  type TradeFormFields,
+} from '../utils/drafts';
+import { generateId } from '../utils/id';
+import { findInstrument, calcPnl } from '../utils/instruments';
+import { pickerOptions, defaultValue } from '../utils/taxonomy';
+import { collectTags } from '../utils/tags';
+import { adherenceScore } from '../utils/checklist';
+import { templateFields } from '../utils/templates';
+import { STATUS_LABEL, tradeStatus, transitionTrade } from '../utils/lifecycle';
+import { summarizeExecutions, sortExecutions, formatDuration } from '../utils/executions';
+import { plannedRR, realizedR, parseOptionalNumber, formatR, formatRR } from '../utils/tradeMath';
 
 interface AddTradeProps {
   editId?: string;
+  /** Start a new trade pre-filled from this one */
+  duplicateId?: string;
   onDone: () => void;
 }
 
-const SESSIONS: Session[] = ['London', 'New York', 'Asian', 'Other'];
-const SETUPS: Setup[] = ['A++ Setup', 'A+ Setup', 'A Setup'];
-const STRATEGIES = [
-  'IFVG', 'FVG', 'Order Block', 'Breaker Block', 'Mitigation Block',
-  'Liquidity Sweep', 'Turtle Soup', 'Judas Swing', 'Market Structure Shift (MSS)',
-  'Displacement', 'OTE', 'Premium/Discount', 'Session High/Low Raid', 'Killzone Model',
-];
-const EMOTIONS = ['Calm', 'Confident', 'Anxious', 'FOMO', 'Neutral', 'Focused'];
-const TIMEFRAMES = ['1m', '5m', '15m', '30m', '1H', '4H', 'D', 'W'];
-
 type FormErrors = Partial<Record<string, string>>;
 
-function generateId(): string {
-  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+function toFillDraft(e: Execution): FillDraft {
+  return {
+    id: e.id,
+    time: new Date(e.time).toISOString().slice(0, 16),
+    side: e.side,
+    quantity: String(e.quantity),
+    price: String(e.price),
+    fee: e.fee !== undefined ? String(e.fee) : '',
+  };
 }
 
-export function AddTrade({ editId, onDone }: AddTradeProps) {
-  const { state, dispatch } = useJournal();
+function parseFill(f: FillDraft): Execution | null {
+  const quantity = parseOptionalNumber(f.quantity);
+  const price = parseOptionalNumber(f.price);
+  const time = new Date(f.time);
+  if (quantity === undefined || quantity <= 0 || price === undefined || isNaN(time.getTime())) return null;
+  return { id: f.id, time: time.toISOString(), side: f.side, quantity, price, fee: parseOptionalNumber(f.fee) };
+}
+
+/** Rounds away float noise from averaged prices for display. */
+function priceString(n: number | null | undefined): string {
+  return n === null || n === undefined ? '' : String(parseFloat(n.toFixed(6)));
+}
+
+const SUBMIT_LABEL: Record<TradeStatus, string> = {
+  planned: 'Save Idea',
+  open: 'Open Trade',
+  closed: 'Log Trade',
+  cancelled: 'Log Skipped Idea',
+};
+
+/** Starting values for a fresh form: the trade being edited, or defaults (plus any template presets) for a new one. */
+function initialFields(existing: Trade | undefined, state: JournalState, preset: TemplateFields = {}): TradeFormFields {
+  const { taxonomies } = state;
+  const str = (n: number | undefined) => n !== undefined ? String(n) : '';
+  return {
+    status: existing ? tradeStatus(existing) : 'closed',
+    hypotheticalResult: existing?.hypotheticalResult ?? '',
+    accountId: existing ? existing.accountId ?? '' : preset.accountId ?? selectActiveAccount(state)?.id ?? state.accounts[0]?.id ?? '',
+    symbol: existing?.symbol ?? preset.symbol ?? '',
+    direction: existing?.direction ?? preset.direction ?? 'Long',
+    timeframe: existing?.timeframe ?? preset.timeframe ?? defaultValue(taxonomies.timeframe, '15m'),
+    session: existing?.session ?? preset.session ?? defaultValue(taxonomies.session, 'New York'),
+    setup: existing?.setup ?? preset.setup ?? defaultValue(taxonomies.setup),
+    strategyType: existing?.strategyType ?? preset.strategyType ?? defaultValue(taxonomies.strategy),
+    pnl: str(existing?.pnl),
+    // New trades take their P&L from the instrument catalog until the user types one in;
+    // edits keep whatever was logged unless auto mode is switched back on.
+    autoPnl: !existing,
+    entryPrice: str(existing?.entryPrice),
+    stopLoss: str(existing?.stopLoss),
+    takeProfit: str(existing?.takeProfit),
+    exitPrice: str(existing?.exitPrice),
+    positionSize: str(existing?.positionSize ?? preset.positionSize),
+    commission: str(existing?.commission),
+    fees: str(existing?.fees),
+    fills: (existing?.executions ?? []).map(toFillDraft),
+    emotion: existing?.emotion ?? preset.emotion ?? '',
+    tags: existing?.tags ?? preset.tags ?? [],
+    mistakes: existing?.mistakes ?? [],
+    // Rules ticked, by rule text — kept across setup switches so toggling back doesn't lose ticks
+    metRules: existing?.checklist?.filter(c => c.met).map(c => c.rule) ?? [],
+    notes: existing?.notes ?? '',
+    tradeDate: new Date(existing?.date ?? Date.now()).toISOString().slice(0, 16),
+    imageIds: existing?.imageUrls ?? [],
+  };
+}
+
+export function AddTrade({ editId, duplicateId, onDone }: AddTradeProps) {
+  const { state } = useJournal();
   const existing = editId ? state.trades.find(t => t.id === editId) : undefined;
+  const [drafts, setDrafts] = useState(() => draftsFor(editId));
+  // undefined: still asking whether to resume; null: start from the saved trade / a blank form
+  const [chosen, setChosen] = useState<TradeDraft | null | undefined>(drafts.length && !duplicateId ? undefined : null);
+  // Presets for a new trade, from a template or the trade being duplicated. `key` remounts the form.
+  const [preset, setPreset] = useState<{ key: string; fields: TemplateFields } | undefined>(() => {
+    const source = duplicateId ? state.trades.find(t => t.id === duplicateId) : undefined;
+    return source ? { key: `copy:${source.id}`, fields: templateFields(source) } : undefined;
+  });
+
+  async function handleDiscard(d: TradeDraft) {
+    if (!window.confirm(`Discard draft "${d.name}"?`)) return;
+    await discardDraft(d);
+    const rest = drafts.filter(x => x.id !== d.id);
+    setDrafts(rest);
+    if (!rest.length) setChosen(null);
+  }
+
+  if (chosen === undefined) {
+    return (
+      <div className="page-content">
+        <header className="page-header">
+          <button className="back-btn" onClick={onDone}>
+            <ChevronDown size={18} style={{ transform: 'rotate(90deg)' }} />
+            <span>Cancel</span>
+          </button>
+          <h1 className="page-title-sm">{existing ? 'Edit Trade' : 'Log Trade'}</h1>
+          <div style={{ width: 60 }} />
+        </header>
+
+        <GlassCard className="form-section">
+          <div className="form-section-title">Unsaved Drafts</div>
+          <p className="text-dim">
+            {existing
+              ? 'You have unsaved changes to this trade.'
+              : editId
+                ? 'The trade these changes were made to has been deleted. Resuming saves them as a new trade.'
+                : 'Pick up where you left off, or start a new trade.'}
+          </p>
+          {drafts.map(d => (
+            <div key={d.id} className="draft-row">
+              <div className="draft-row-info">
+                <span className="perf-name">{d.name}</span>
+                <span className="text-dim">
+                  {new Date(d.updatedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                  {d.stagedImageIds.length > 0 && ` · ${d.stagedImageIds.length} screenshot${d.stagedImageIds.length !== 1 ? 's' : ''}`}
+                </span>
+              </div>
+              <button type="button" className="btn-link" onClick={() => handleDiscard(d)}>Discard</button>
+              <button type="button" className="btn-secondary" onClick={() => setChosen(d)}>Resume</button>
+            </div>
+          ))}
+        </GlassCard>
 
-  const [symbol, setSymbol] = useState(existing?.symbol ?? '');
-  const [direction, setDirection] = useState<Direction>(existing?.direction ?? 'Long');
-  const [timeframe, setTimeframe] = useState(existing?.timeframe ?? '15m');
-  const [session, setSession] = useState<Session>(existing?.session ?? 'New York');
-  const [setup, setSetup] = useState<Setup>(existing?.setup ?? SETUPS[0]);
-  const [strategyType, setStrategyType] = useState(existing?.strategyType ?? STRATEGIES[0]);
-  const [pnl, setPnl] = useState(existing?.pnl !== undefined ? String(existing.pnl) : '');
-  const [emotion, setEmotion] = useState(existing?.emotion ?? '');
-  const [notes, setNotes] = useState(existing?.notes ?? '');
-  const [tradeDate, setTradeDate] = useState(
-    existing ? new Date(existing.date).toISOString().slice(0, 16) : new Date().toISOString().slice(0, 16)
+        <div className="form-actions">
+          <button type="button" className="btn-primary" onClick={() => setChosen(null)}>
+            {existing ? 'Edit Saved Version' : 'Start New Trade'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <TradeForm
+      key={chosen?.id ?? preset?.key ?? 'new'}
+      existing={existing}
+      draft={chosen ?? undefined}
+      preset={preset?.fields}
+      onPickTemplate={t => setPreset({ key: `template:${t.id}:${Date.now()}`, fields: t.fields })}
+      onDone={onDone}
+    />
   );
+}
+
+interface TradeFormProps {
+  existing?: Trade;
+  draft?: TradeDraft;
+  preset?: TemplateFields;
+  onPickTemplate: (t: TradeTemplate) => void;
+  onDone: () => void;
+}
+
+function TradeForm({ existing, draft, preset, onPickTemplate, onDone }: TradeFormProps) {
+  const { state, dispatch } = useJournal();
+  const { taxonomies } = state;
+  const [init] = useState(() => draft?.fields ?? initialFields(existing, state, preset));
+
+  const [status, setStatus] = useState<TradeStatus>(init.status);
+  const [hypotheticalResult, setHypotheticalResult] = useState<TradeResult | ''>(init.hypotheticalResult);
+  const [accountId, setAccountId] = useState(init.accountId);
+  const [symbol, setSymbol] = useState(init.symbol);
+  const [direction, setDirection] = useState<Direction>(init.direction);
+  const [timeframe, setTimeframe] = useState(init.timeframe);
+  const [session, setSession] = useState(init.session);
+  const [setup, setSetup] = useState(init.setup);
+  const [strategyType, setStrategyType] = useState(init.strategyType);
+  const [pnl, setPnl] = useState(init.pnl);
+  const [autoPnl, setAutoPnl] = useState(init.autoPnl);
+  const [entryPrice, setEntryPrice] = useState(init.entryPrice);
+  const [stopLoss, setStopLoss] = useState(init.stopLoss);
+  const [takeProfit, setTakeProfit] = useState(init.takeProfit);
+  const [exitPrice, setExitPrice] = useState(init.exitPrice);
+  const [positionSize, setPositionSize] = useState(init.positionSize);
+  const [commission, setCommission] = useState(init.commission);
+  const [fees, setFees] = useState(init.fees);
+  const [fills, setFills] = useState<FillDraft[]>(init.fills);
+  const [emotion, setEmotion] = useState(init.emotion);
+  const [tags, setTags] = useState<string[]>(init.tags);
+  const [mistakes, setMistakes] = useState<string[]>(init.mistakes);
+  const [metRules, setMetRules] = useState<string[]>(init.metRules);
+  const [notes, setNotes] = useState(init.notes);
+  const [tradeDate, setTradeDate] = useState(init.tradeDate);
   const [errors, setErrors] = useState<FormErrors>({});
 
-  // Image state: existing IDs + new pending files + their preview URLs
-  const [existingImageIds, setExistingImageIds] = useState<string[]>(existing?.imageUrls ?? []);
-  const [existingPreviews, setExistingPreviews] = useState<{ id: string; url: string }[]>([]);
-  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
-  const [pendingPreviews, setPendingPreviews] = useState<string[]>([]);
+  // Images: saved IDs still attached, plus screenshots staged in this draft. Staged files are
+  // written to IndexedDB as soon as they're picked so a reload doesn't lose them.
+  const [imageIds, setImageIds] = useState<string[]>(init.imageIds);
+  const [stagedIds, setStagedIds] = useState<string[]>(draft?.stagedImageIds ?? []);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [staging, setStaging] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [saving, setSaving] = useState(false);
-  const initialImageIds = useRef(existing?.imageUrls ?? []);
+  const initialImageIds = useRef([...init.imageIds, ...(draft?.stagedImageIds ?? [])]);
+  const objectUrls = useRef<string[]>([]);
+
+  // Draft bookkeeping
+  const [draftId, setDraftId] = useState(draft?.id);
+  // An edit whose trade was deleted meanwhile, here or by sync, is saved as a new trade with its own id
+  const [editing] = useState(() => !!existing || draft?.editId !== undefined);
+  const orphaned = editing && !existing;
+  const [draftName, setDraftName] = useState(draft?.name ?? '');
+  const [savedAt, setSavedAt] = useState(draft?.updatedAt);
+  const initialJson = useRef(JSON.stringify(init));
 
-  // Load existing image previews from IndexedDB (runs once on mount)
+  // Load previews for saved and previously staged images (runs once on mount); revoke everything on unmount
   useEffect(() => {
     let cancelled = false;
-    const urls: string[] = [];
     const ids = initialImageIds.current;
-    if (!ids.length) return;
-    Promise.all(ids.map(id => loadImageUrl(id))).then(results => {
-      if (cancelled) return;
-      const previews = ids
-        .map((id, i) => ({ id, url: results[i] ?? '' }))
-        .filter(p => p.url);
-      setExistingPreviews(previews);
-      urls.push(...(results.filter(Boolean) as string[]));
-    });
+    const urls = objectUrls.current;
+    if (ids.length) {
+      Promise.all(ids.map(id => loadImageUrl(id))).then(results => {
+        if (cancelled) {
+          results.forEach(u => { if (u?.startsWith('blob:')) URL.revokeObjectURL(u); });
+          return;
+        }
+        urls.push(...(results.filter(Boolean) as string[]));
+        setPreviews(prev => {
+          const next = { ...prev };
+          ids.forEach((id, i) => { if (results[i]) next[id] = results[i] as string; });
+          return next;
+        });
+      });
+    }
     return () => {
       cancelled = true;
-      urls.forEach(u => URL.revokeObjectURL(u));
+      urls.filter(u => u.startsWith('blob:')).forEach(u => URL.revokeObjectURL(u));
     };
   }, []);
 
-  // Revoke pending preview URLs on unmount
-  useEffect(() => {
-    return () => { pendingPreviews.forEach(u => URL.revokeObjectURL(u)); };
-  }, [pendingPreviews]);
-
-  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
     const files = Array.from(e.target.files ?? []);
-    if (!files.length) return;
-    const newPreviews = files.map(f => URL.createObjectURL(f));
-    setPendingFiles(prev => [...prev, ...files]);
-    setPendingPreviews(prev => [...prev, ...newPreviews]);
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!files.length) return;
+    setStaging(n => n + 1);
+    try {
+      const ids = await Promise.all(files.map(f => storeImage(f)));
+      const urls = files.map(f => URL.createObjectURL(f));
+      objectUrls.current.push(...urls);
+      setPreviews(prev => {
+        const next = { ...prev };
+        ids.forEach((id, i) => { next[id] = urls[i]; });
+        return next;
+      });
+      setStagedIds(prev => [...prev, ...ids]);
+    } finally {
+      setStaging(n => n - 1);
+    }
   }
 
-  function removePending(index: number) {
-    URL.revokeObjectURL(pendingPreviews[index]);
-    setPendingFiles(prev => prev.filter((_, i) => i !== index));
-    setPendingPreviews(prev => prev.filter((_, i) => i !== index));
+  function removeStaged(id: string) {
+    setStagedIds(prev => prev.filter(x => x !== id));
+    deleteImages([id]).catch(() => { /* orphaned blob — harmless */ });
   }
 
   function removeExisting(id: string) {
-    setExistingImageIds(prev => prev.filter(x => x !== id));
-    setExistingPreviews(prev => {
-      const found = prev.find(p => p.id === id);
-      if (found) URL.revokeObjectURL(found.url);
-      return prev.filter(p => p.id !== id);
-    });
+    setImageIds(prev => prev.filter(x => x !== id));
+  }
+
+  function addFill() {
+    const openSide: ExecutionSide = direction === 'Long' ? 'Buy' : 'Sell';
+    const closeSide: ExecutionSide = direction === 'Long' ? 'Sell' : 'Buy';
+    setFills(prev => [...prev, {
+      id: generateId(),
+      time: prev.length ? prev[prev.length - 1].time : tradeDate,
+      side: prev.length ? closeSide : openSide,
+      quantity: prev.length ? '' : positionSize,
+      price: '',
+      fee: '',
+    }]);
+  }
+
+  function updateFill(id: string, patch: Partial<FillDraft>) {
+    setFills(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+  }
+
+  function removeFill(id: string) {
+    setFills(prev => prev.filter(f => f.id !== id));
+  }
+
+  const instrument = findInstrument(state.instruments, symbol);
+  const parsedFills = fills.map(parseFill).filter((f): f is Execution => f !== null);
+  const fillSummary = parsedFills.length ? summarizeExecutions(parsedFills, direction, instrument) : null;
+
+  // Live R preview — recomputed from the raw form strings on every keystroke.
+  // When fills are logged, entry / exit / size come from their weighted averages instead.
+  const levels = {
+    direction,
+    entryPrice: fillSummary ? fillSummary.avgEntry ?? undefined : parseOptionalNumber(entryPrice),
+    stopLoss: parseOptionalNumber(stopLoss),
+    takeProfit: parseOptionalNumber(takeProfit),
+    exitPrice: fillSummary ? fillSummary.avgExit ?? undefined : parseOptionalNumber(exitPrice),
+  };
+  const sizeValue = fillSummary ? String(fillSummary.entryQty) : positionSize;
+  const previewRR = plannedRR(levels);
+  const previewR = realizedR(levels);
+
+  const computedPnl = fillSummary
+    ? fillSummary.grossPnl
+    : calcPnl(instrument, direction, levels.entryPrice, levels.exitPrice, parseOptionalNumber(positionSize));
+  const pnlIsAuto = autoPnl && computedPnl !== null;
+  const pnlValue = pnlIsAuto ? computedPnl.toFixed(2) : pnl;
+
+  // Blank commission / fee fields fall back to the instrument's per-unit defaults — but not when the
+  // fills carry their own fees, which would count them twice, nor for a saved trade that had none
+  const sizeNumForFees = parseOptionalNumber(sizeValue) ?? 0;
+  const fillsHaveFees = parsedFills.some(f => f.fee !== undefined);
+  const perUnitDefault = (perUnit: number | undefined, saved: number | undefined) =>
+    perUnit !== undefined && !fillsHaveFees && (!existing || saved !== undefined) ? perUnit * sizeNumForFees : undefined;
+  const defaultCommission = perUnitDefault(instrument?.commissionPerUnit, existing?.commission);
+  const defaultFees = perUnitDefault(instrument?.feePerUnit, existing?.fees);
+  const commissionNum = parseOptionalNumber(commission) ?? defaultCommission;
+  const feesNum = parseOptionalNumber(fees) ?? defaultFees;
+  const fillFees = fillSummary?.fees ?? 0;
+  const pnlNumPreview = parseFloat(pnlValue);
+  const netPreview = isNaN(pnlNumPreview) ? null : pnlNumPreview - (commissionNum ?? 0) - (feesNum ?? 0) - fillFees;
+
+  const setupRules = taxonomies.setup.find(s => s.label === setup)?.rules ?? [];
+  const checklist = setupRules.map(rule => ({ rule, met: metRules.includes(rule) }));
+  const adherence = adherenceScore(checklist);
+
+  function toggleMistake(m: string) {
+    setMistakes(prev => prev.includes(m) ? prev.filter(x => x !== m) : [...prev, m]);
+  }
+
+  function toggleRule(rule: string) {
+    setMetRules(prev => prev.includes(rule) ? prev.filter(r => r !== rule) : [...prev, rule]);
+  }
+
+  function handlePnlChange(value: string) {
+    setPnl(value);
+    setAutoPnl(false);
   }
 
   function validate(): boolean {
     const e: FormErrors = {};
     if (!symbol.trim()) e.symbol = 'Symbol is required';
-    const pnlNum = parseFloat(pnl);
-    if (!pnl || isNaN(pnlNum)) e.pnl = 'Valid P&L amount required (e.g. +120.50 or -45.00)';
+    const pnlNum = parseFloat(pnlValue);
+    if (status === 'closed' && (!pnlValue || isNaN(pnlNum))) e.pnl = 'Valid P&L amount required (e.g. +120.50 or -45.00)';
+    if (levels.entryPrice !== undefined && levels.entryPrice === levels.stopLoss) {
+      e.stopLoss = 'Stop loss must differ from entry';
+    }
+    if (fills.length !== parsedFills.length) e.fills = 'Each fill needs a time, a positive quantity and a price';
+    else if (fillSummary && fillSummary.openQty < 0) e.fills = 'Closing fills exceed the quantity opened';
+    const sizeNum = parseOptionalNumber(sizeValue);
+    if (sizeNum !== undefined && sizeNum <= 0) e.positionSize = 'Position size must be positive';
     setErrors(e);
     return Object.keys(e).length === 0;
   }
 
-  async function handleSubmit(e: FormEvent) {
+  // Autosave: every change after the form diverges from its starting point is written to the draft
+  const fields: TradeFormFields = {
+    status, hypotheticalResult, accountId, symbol, direction, timeframe, session, setup, strategyType,
+    pnl, autoPnl, entryPrice, stopLoss, takeProfit, exitPrice, positionSize, commission, fees,
+    fills, emotion, tags, mistakes, metRules, notes, tradeDate, imageIds,
+  };
+  const fieldsJson = JSON.stringify(fields);
+  const editId = existing?.id;
+
+  useEffect(() => {
+    if (!draftId && fieldsJson === initialJson.current && !stagedIds.length) return;
+    const parsed = JSON.parse(fieldsJson) as TradeFormFields;
+    const id = draftId ?? generateId();
+    const updatedAt = new Date().toISOString();
+    upsertDraft({
+      id,
+      name: draftName.trim() || defaultDraftName(parsed),
+      editId,
+      fields: parsed,
+      stagedImageIds: stagedIds,
+      updatedAt,
+    });
+    if (!draftId) setDraftId(id);
+    setSavedAt(updatedAt);
+  }, [fieldsJson, stagedIds, draftName, draftId, editId]);
+
+  async function handleDiscardDraft() {
+    if (!window.confirm('Discard this draft and everything typed into it?')) return;
+    if (draftId) removeDraft(draftId);
+    await deleteImages(stagedIds);
+    onDone();
+  }
+
+  function saveAsTemplate() {
+    const name = window.prompt('Template name', defaultDraftName(fields));
+    if (!name?.trim()) return;
+    const presetFields = templateFields({
+      accountId: accountId || undefined,
+      symbol: symbol.toUpperCase().trim(),
+      direction,
+      timeframe,
+      session,
+      setup,
+      strategyType,
+      positionSize: parseOptionalNumber(sizeValue),
+      emotion: emotion || undefined,
+      tags,
+    });
+    dispatch({ type: 'UPSERT_TEMPLATE', template: { id: generateId(), name: name.trim(), fields: presetFields } });
+  }
+
+  function handleSubmit(e: FormEvent) {
     e.preventDefault();
     if (!validate()) return;
-    setSaving(true);
-    try {
-      const newImageIds = await Promise.all(pendingFiles.map(f => storeImage(f)));
-      const allImageUrls = [...existingImageIds, ...newImageIds];
-
-      const trade: Trade = {
-        id: existing?.id ?? generateId(),
-        createdAt: existing?.createdAt ?? new Date().toISOString(),
-        symbol: symbol.toUpperCase().trim(),
-        direction,
-        timeframe,
-        session,
-        setup,
-        strategyType,
-        pnl: parseFloat(parseFloat(pnl).toFixed(2)),
-        emotion: emotion || undefined,
-        notes: notes || undefined,
-        imageUrls: allImageUrls.length ? allImageUrls : undefined,
-        date: new Date(tradeDate).toISOString(),
-      };
-
-      if (existing) {
-        dispatch({ type: 'UPDATE_TRADE', trade });
-      } else {
-        dispatch({ type: 'ADD_TRADE', trade });
-      }
-      onDone();
-    } finally {
-      setSaving(false);
+    const allImageUrls = [...imageIds, ...stagedIds];
+
+    const record: Trade = {
+      ...existing,
+      id: existing?.id ?? generateId(),
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      accountId: accountId || undefined,
+      symbol: symbol.toUpperCase().trim(),
+      direction,
+      timeframe,
+      session,
+      setup,
+      strategyType,
+      pnl: status === 'closed' ? parseFloat(parseFloat(pnlValue).toFixed(2)) : 0,
+      entryPrice: levels.entryPrice,
+      stopLoss: levels.stopLoss,
+      takeProfit: levels.takeProfit,
+      exitPrice: levels.exitPrice,
+      positionSize: parseOptionalNumber(sizeValue),
+      commission: commissionNum !== undefined ? parseFloat(commissionNum.toFixed(2)) : undefined,
+      fees: feesNum !== undefined ? parseFloat(feesNum.toFixed(2)) : undefined,
+      executions: parsedFills.length ? sortExecutions(parsedFills) : undefined,
+      emotion: emotion || undefined,
+      tags: tags.length ? tags : undefined,
+      mistakes: mistakes.length ? mistakes : undefined,
+      checklist: checklist.length ? checklist : undefined,
+      adherence,
+      notes: notes || undefined,
+      imageUrls: allImageUrls.length ? allImageUrls : undefined,
+      date: parsedFills.length ? sortExecutions(parsedFills)[0].time : new Date(tradeDate).toISOString(),
+      hypotheticalResult: hypotheticalResult || undefined,
+    };
+    const trade = transitionTrade(record, status);
+
+    if (existing) {
+      dispatch({ type: 'UPDATE_TRADE', trade });
+    } else {
+      dispatch({ type: 'ADD_TRADE', trade });
     }
+    // Staged images now belong to the trade, so only the draft record goes
+    if (draftId) removeDraft(draftId);
+    onDone();
   }
 
   return (
@@ -152,16 +488,80 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
       <header className="page-header">
         <button className="back-btn" onClick={onDone}>
           <ChevronDown size={18} style={{ transform: 'rotate(90deg)' }} />
-          <span>Cancel</span>
+          <span>{draftId ? 'Close' : 'Cancel'}</span>
         </button>
         <h1 className="page-title-sm">{existing ? 'Edit Trade' : 'Log Trade'}</h1>
         <div style={{ width: 60 }} />
       </header>
 
+      {draftId && (
+        <div className="draft-bar">
+          <input
+            className="glass-input draft-bar-name"
+            placeholder={defaultDraftName(fields)}
+            value={draftName}
+            onChange={e => setDraftName(e.target.value)}
+            aria-label="Draft name"
+          />
+          {savedAt && (
+            <span className="text-dim">
+              Draft saved {new Date(savedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          )}
+          <button type="button" className="btn-link" onClick={handleDiscardDraft}>Discard</button>
+        </div>
+      )}
+
+      {orphaned && (
+        <div className="draft-warning" role="alert">
+          The trade you were editing has been deleted. Saving logs these changes as a new trade.
+        </div>
+      )}
+
+      {/* Templates only apply to an untouched new trade — picking one restarts the form */}
+      {!existing && !draftId && state.templates.length > 0 && (
+        <div className="template-picker">
+          <span className="glass-label">Template</span>
+          <div className="mistake-chips">
+            {state.templates.map(t => (
+              <button key={t.id} type="button" className="mistake-chip" onClick={() => onPickTemplate(t)}>
+                {t.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} noValidate>
         {/* Trade Details */}
         <GlassCard className="form-section">
           <div className="form-section-title">Trade Details</div>
+          <div className="glass-field">
+            <label className="glass-label">Status</label>
+            <div className="segmented segmented--wrap" role="group" aria-label="Trade status">
+              {(Object.keys(STATUS_LABEL) as TradeStatus[]).map(s => (
+                <button
+                  key={s}
+                  type="button"
+                  className={`segmented-btn${status === s ? ' segmented-btn--active' : ''}`}
+                  onClick={() => setStatus(s)}
+                >
+                  {STATUS_LABEL[s]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {state.accounts.length > 0 && (
+            <GlassSelect
+              label="Account"
+              value={accountId}
+              onChange={setAccountId}
+              options={[
+                { value: '', label: 'No account' },
+                ...state.accounts.map(a => ({ value: a.id, label: `${a.name} · ${a.type}` })),
+              ]}
+            />
+          )}
           <div className="form-grid-2">
             <GlassInput
               label="Symbol"
@@ -169,7 +569,12 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
               value={symbol}
               onChange={e => setSymbol(e.target.value)}
               error={errors.symbol}
+              list="instrument-symbols"
+              autoComplete="off"
             />
+            <datalist id="instrument-symbols">
+              {state.instruments.map(i => <option key={i.id} value={i.symbol}>{i.assetClass}</option>)}
+            </datalist>
             <div className="glass-field">
               <label className="glass-label">Direction</label>
               <div className="direction-toggle">
@@ -192,7 +597,7 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
               label="Timeframe"
               value={timeframe}
               onChange={setTimeframe}
-              options={TIMEFRAMES.map(t => ({ value: t, label: t }))}
+              options={pickerOptions(taxonomies.timeframe, timeframe)}
             />
             <GlassInput
               label="Date & Time"
@@ -202,15 +607,189 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
             />
           </div>
 
+          {status === 'cancelled' && (
+            <GlassSelect
+              label="How would it have played out?"
+              value={hypotheticalResult}
+              onChange={v => setHypotheticalResult(v as TradeResult | '')}
+              options={[
+                { value: '', label: 'Unknown' },
+                { value: 'Win', label: 'Would have won' },
+                { value: 'Loss', label: 'Would have lost' },
+                { value: 'BE', label: 'Breakeven' },
+              ]}
+            />
+          )}
+
+          {status === 'closed' && (
+            <>
+              <GlassInput
+                label={pnlIsAuto ? `Gross P&L (calculated from ${instrument?.symbol} prices)` : 'Gross P&L (signed)'}
+                type="number"
+                step="0.01"
+                placeholder="e.g. +120.50 or -45.00"
+                value={pnlValue}
+                onChange={e => handlePnlChange(e.target.value)}
+                error={errors.pnl}
+              />
+              {!pnlIsAuto && computedPnl !== null && (
+                <button type="button" className="btn-link" onClick={() => setAutoPnl(true)}>
+                  Use calculated P&L ({computedPnl >= 0 ? '+' : ''}{computedPnl.toFixed(2)} {instrument?.quoteCurrency})
+                </button>
+              )}
+              {instrument && instrument.quoteCurrency !== state.settings.currency && (
+                <p className="text-dim">{instrument.symbol} is quoted in {instrument.quoteCurrency}; P&L is not converted to {state.settings.currency}.</p>
+              )}
+              <div className="form-grid-2">
+                <GlassInput
+                  label="Commission"
+                  type="number"
+                  step="0.01"
+                  placeholder={defaultCommission !== undefined ? `Default ${defaultCommission.toFixed(2)}` : '0.00'}
+                  value={commission}
+                  onChange={e => setCommission(e.target.value)}
+                />
+                <GlassInput
+                  label="Fees"
+                  type="number"
+                  step="0.01"
+                  placeholder={defaultFees !== undefined ? `Default ${defaultFees.toFixed(2)}` : '0.00'}
+                  value={fees}
+                  onChange={e => setFees(e.target.value)}
+                />
+              </div>
+              {netPreview !== null && (
+                <div className="settings-info-row">
+                  <span className="settings-info-label">Net P&L{fillFees > 0 ? ` (incl. ${fillFees.toFixed(2)} fill fees)` : ''}</span>
+                  <span className={`settings-info-value ${netPreview >= 0 ? 'text-win' : 'text-loss'}`}>
+                    {netPreview >= 0 ? '+' : ''}{netPreview.toFixed(2)}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </GlassCard>
+
+        {/* Price Levels */}
+        <GlassCard className="form-section">
+          <div className="form-section-title">Price Levels</div>
+          <div className="form-grid-2">
+            <GlassInput
+              label={fillSummary ? 'Avg Entry' : 'Entry'}
+              type="number"
+              step="any"
+              placeholder="Optional"
+              value={fillSummary ? priceString(fillSummary.avgEntry) : entryPrice}
+              onChange={e => setEntryPrice(e.target.value)}
+              disabled={!!fillSummary}
+            />
+            <GlassInput
+              label="Stop Loss"
+              type="number"
+              step="any"
+              placeholder="Optional"
+              value={stopLoss}
+              onChange={e => setStopLoss(e.target.value)}
+              error={errors.stopLoss}
+            />
+          </div>
+          <div className="form-grid-2">
+            <GlassInput
+              label="Take Profit"
+              type="number"
+              step="any"
+              placeholder="Optional"
+              value={takeProfit}
+              onChange={e => setTakeProfit(e.target.value)}
+            />
+            <GlassInput
+              label={fillSummary ? 'Avg Exit' : 'Exit'}
+              type="number"
+              step="any"
+              placeholder="Optional"
+              value={fillSummary ? priceString(fillSummary.avgExit) : exitPrice}
+              onChange={e => setExitPrice(e.target.value)}
+              disabled={!!fillSummary}
+            />
+          </div>
           <GlassInput
-            label="P&L (signed)"
+            label="Position Size"
             type="number"
-            step="0.01"
-            placeholder="e.g. +120.50 or -45.00"
-            value={pnl}
-            onChange={e => setPnl(e.target.value)}
-            error={errors.pnl}
+            step="any"
+            placeholder="Contracts / lots / shares"
+            value={sizeValue}
+            onChange={e => setPositionSize(e.target.value)}
+            error={errors.positionSize}
+            disabled={!!fillSummary}
           />
+          <div className="settings-info-row">
+            <span className="settings-info-label">Planned R:R</span>
+            <span className="settings-info-value">{previewRR !== null ? formatRR(previewRR) : '—'}</span>
+          </div>
+          <div className="settings-info-row">
+            <span className="settings-info-label">Realized R</span>
+            <span className={`settings-info-value ${previewR === null ? '' : previewR >= 0 ? 'text-win' : 'text-loss'}`}>
+              {previewR !== null ? formatR(previewR) : '—'}
+            </span>
+          </div>
+        </GlassCard>
+
+        {/* Executions */}
+        <GlassCard className="form-section">
+          <div className="form-section-title">Executions</div>
+          {fills.length === 0 && (
+            <p className="text-dim">Optional. Log each fill to track scale-ins and partial exits.</p>
+          )}
+          {fills.map(f => (
+            <div key={f.id} className="fill-editor-row">
+              <div className="form-grid-2">
+                <GlassInput
+                  type="datetime-local"
+                  value={f.time}
+                  onChange={e => updateFill(f.id, { time: e.target.value })}
+                />
+                <div className="direction-toggle">
+                  {(['Buy', 'Sell'] as const).map(side => (
+                    <button
+                      key={side}
+                      type="button"
+                      className={`dir-btn${f.side === side ? ` dir-btn--active ${side === 'Buy' ? 'dir-btn--long' : 'dir-btn--short'}` : ''}`}
+                      onClick={() => updateFill(f.id, { side })}
+                    >{side}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="fill-editor-numbers">
+                <GlassInput type="number" step="any" placeholder="Qty" value={f.quantity} onChange={e => updateFill(f.id, { quantity: e.target.value })} />
+                <GlassInput type="number" step="any" placeholder="Price" value={f.price} onChange={e => updateFill(f.id, { price: e.target.value })} />
+                <GlassInput type="number" step="any" placeholder="Fee" value={f.fee} onChange={e => updateFill(f.id, { fee: e.target.value })} />
+                <button type="button" className="thumb-remove fill-remove" onClick={() => removeFill(f.id)} aria-label="Remove fill">
+                  <X size={10} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {errors.fills && <span className="glass-error">{errors.fills}</span>}
+          {fillSummary && (
+            <>
+              <div className="settings-info-row">
+                <span className="settings-info-label">Hold time</span>
+                <span className="settings-info-value">{formatDuration(fillSummary.holdMs)}</span>
+              </div>
+              {fillSummary.openQty > 0 && (
+                <div className="settings-info-row">
+                  <span className="settings-info-label">Still open</span>
+                  <span className="settings-info-value">{fillSummary.openQty}</span>
+                </div>
+              )}
+              {fillSummary.grossPnl === null && (
+                <p className="text-dim">Add {symbol.trim() ? symbol.toUpperCase() : 'this symbol'} to the instrument catalog to derive P&L from fills.</p>
+              )}
+            </>
+          )}
+          <button type="button" className="btn-secondary" onClick={addFill}>
+            <Plus size={14} /> Add Fill
+          </button>
         </GlassCard>
 
         {/* Tags & Context */}
@@ -220,14 +799,14 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
             <GlassSelect
               label="Session"
               value={session}
-              onChange={v => setSession(v as Session)}
-              options={SESSIONS.map(s => ({ value: s, label: s }))}
+              onChange={setSession}
+              options={pickerOptions(taxonomies.session, session)}
             />
             <GlassSelect
               label="Setup"
               value={setup}
-              onChange={v => setSetup(v as Setup)}
-              options={SETUPS.map(s => ({ value: s, label: s }))}
+              onChange={setSetup}
+              options={pickerOptions(taxonomies.setup, setup)}
             />
           </div>
           <div className="form-grid-2">
@@ -235,17 +814,60 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
               label="Strategy Type"
               value={strategyType}
               onChange={setStrategyType}
-              options={STRATEGIES.map(s => ({ value: s, label: s }))}
+              options={pickerOptions(taxonomies.strategy, strategyType)}
             />
             <GlassSelect
               label="Emotion Tag"
               value={emotion}
               onChange={setEmotion}
-              options={[{ value: '', label: 'None' }, ...EMOTIONS.map(s => ({ value: s, label: s }))]}
+              options={[{ value: '', label: 'None' }, ...pickerOptions(taxonomies.emotion, emotion)]}
             />
           </div>
+          <TagInput
+            label="Tags"
+            value={tags}
+            onChange={setTags}
+            suggestions={collectTags(state.trades)}
+            placeholder="e.g. news, counter-trend, moved stop"
+          />
+          <div className="glass-field">
+            <label className="glass-label">Mistakes</label>
+            <div className="mistake-chips">
+              {taxonomies.mistake
+                .filter(m => !m.archived || mistakes.includes(m.label))
+                .map(m => (
+                  <button
+                    key={m.id}
+                    type="button"
+                    className={`mistake-chip${mistakes.includes(m.label) ? ' mistake-chip--active' : ''}`}
+                    onClick={() => toggleMistake(m.label)}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+            </div>
+          </div>
         </GlassCard>
 
+        {/* Setup Checklist */}
+        {checklist.length > 0 && (
+          <GlassCard className="form-section">
+            <div className="form-section-title">{setup} Checklist</div>
+            <div className="checklist">
+              {checklist.map(c => (
+                <label key={c.rule} className={`checklist-item${c.met ? ' checklist-item--met' : ''}`}>
+                  <input type="checkbox" checked={c.met} onChange={() => toggleRule(c.rule)} />
+                  <span>{c.rule}</span>
+                </label>
+              ))}
+            </div>
+            <div className="settings-info-row">
+              <span className="settings-info-label">Plan adherence</span>
+              <span className={`settings-info-value ${adherence === 100 ? 'text-win' : 'text-loss'}`}>{adherence}%</span>
+            </div>
+          </GlassCard>
+        )}
+
         {/* Notes */}
         <GlassCard className="form-section">
           <div className="form-section-title">Notes</div>
@@ -262,20 +884,20 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
         <GlassCard className="form-section">
           <div className="form-section-title">Screenshots</div>
 
-          {(existingPreviews.length > 0 || pendingPreviews.length > 0) && (
+          {(imageIds.length > 0 || stagedIds.length > 0) && (
             <div className="screenshot-thumbs">
-              {existingPreviews.map(p => (
-                <div key={p.id} className="screenshot-thumb">
-                  <img src={p.url} alt="screenshot" className="thumb-img" />
-                  <button type="button" className="thumb-remove" onClick={() => removeExisting(p.id)}>
+              {imageIds.map(id => (
+                <div key={id} className={`screenshot-thumb${previews[id] ? '' : ' screenshot-thumb--loading'}`}>
+                  {previews[id] && <img src={previews[id]} alt="screenshot" className="thumb-img" />}
+                  <button type="button" className="thumb-remove" onClick={() => removeExisting(id)}>
                     <X size={10} />
                   </button>
                 </div>
               ))}
-              {pendingPreviews.map((url, i) => (
-                <div key={i} className="screenshot-thumb">
-                  <img src={url} alt="screenshot" className="thumb-img" />
-                  <button type="button" className="thumb-remove" onClick={() => removePending(i)}>
+              {stagedIds.map(id => (
+                <div key={id} className={`screenshot-thumb${previews[id] ? '' : ' screenshot-thumb--loading'}`}>
+                  {previews[id] && <img src={previews[id]} alt="screenshot" className="thumb-img" />}
+                  <button type="button" className="thumb-remove" onClick={() => removeStaged(id)}>
                     <X size={10} />
                   </button>
                 </div>
@@ -303,10 +925,11 @@ export function AddTrade({ editId, onDone }: AddTradeProps) {
         </GlassCard>
 
         <div className="form-actions">
-          <button type="submit" className="btn-primary" disabled={saving}>
-            {saving ? 'Saving…' : existing ? 'Save Changes' : 'Log Trade'}
+          <button type="submit" className="btn-primary" disabled={staging > 0}>
+            {staging > 0 ? 'Saving screenshots…' : existing ? 'Save Changes' : SUBMIT_LABEL[status]}
           </button>
-          <button type="button" className="btn-ghost" onClick={onDone}>Cancel</button>
+          <button type="button" className="btn-ghost" onClick={onDone}>{draftId ? 'Keep as Draft' : 'Cancel'}</button>
+          <button type="button" className="btn-link" onClick={saveAsTemplate}>Save as Template</button>
         </div>
       </form>
     </div>
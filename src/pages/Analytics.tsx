@@ -1,10 +1,21 @@
 import { useMemo } from 'react';
 import { useJournal } from '../store/JournalContext';
+import type { Trade } from '../types/trade';
 import { GlassCard } from '../components/GlassCard';
 import {
-  AreaChart, Area, BarChart, Bar,
+  AreaChart, Area, BarChart, Bar, LineChart, Line, Legend,
   XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, Cell,
 } from 'recharts';
+import { realizedR, formatR } from '../utils/tradeMath';
+import { tradePnl, tradeFees, PNL_MODE_LABEL } from '../utils/pnl';
+import { PnlModeToggle } from '../components/PnlModeToggle';
+import { AccountSwitcher } from '../components/AccountSwitcher';
+import { selectActiveAccount, selectClosedTrades, selectScopedTrades } from '../store/selectors';
+import { isClosed, tradeStatus } from '../utils/lifecycle';
+import { groupingValues } from '../utils/taxonomy';
+import { collectTags } from '../utils/tags';
+import { hasAdherence, isCompliant } from '../utils/checklist';
+import { mistakeCosts } from '../utils/mistakes';
 
 const CHART_COLORS = {
   win: 'rgba(110, 188, 140, 0.8)',
@@ -13,6 +24,16 @@ const CHART_COLORS = {
   line: 'rgba(180, 190, 210, 0.9)',
 };
 
+// One line per account on the "All accounts" balance chart
+const ACCOUNT_COLORS = [
+  'rgba(120, 160, 225, 0.9)',
+  'rgba(120, 195, 140, 0.9)',
+  'rgba(210, 160, 100, 0.9)',
+  'rgba(190, 130, 210, 0.9)',
+  'rgba(110, 200, 200, 0.9)',
+  'rgba(210, 100, 94, 0.9)',
+];
+
 interface TooltipPayload {
   value: number;
   name: string;
@@ -23,9 +44,11 @@ interface CustomTooltipProps {
   payload?: TooltipPayload[];
   label?: string;
   currency?: string;
+  /** Format every series as money, not just the ones named "P/L" */
+  money?: boolean;
 }
 
-function CustomTooltip({ active, payload, label, currency = '$' }: CustomTooltipProps) {
+function CustomTooltip({ active, payload, label, currency = '$', money = false }: CustomTooltipProps) {
   if (!active || !payload?.length) return null;
   return (
     <div className="chart-tooltip">
@@ -33,49 +56,75 @@ function CustomTooltip({ active, payload, label, currency = '$' }: CustomTooltip
       {payload.map((p, i) => (
         <div key={i} className="chart-tooltip-row">
           <span>{p.name}</span>
-          <span>{typeof p.value === 'number' && p.name?.includes('P/L') ? `${currency}${p.value.toFixed(2)}` : p.value}</span>
+          <span>{typeof p.value === 'number' && (money || p.name?.includes('P/L')) ? `${currency}${p.value.toFixed(2)}` : p.value}</span>
         </div>
       ))}
     </div>
   );
 }
 
-export function Analytics() {
+interface AnalyticsProps {
+  onOpenReviews: () => void;
+}
+
+export function Analytics({ onOpenReviews }: AnalyticsProps) {
   const { state } = useJournal();
-  const { trades, settings } = state;
+  const { settings, accounts, taxonomies } = state;
+  const trades = useMemo(() => selectClosedTrades(state), [state]);
+  const activeAccount = selectActiveAccount(state);
+  // A single account's curve starts from its starting balance; "All accounts" shows cumulative P/L
+  const baseline = activeAccount?.startingBalance ?? 0;
+  const mode = settings.pnlMode;
   const currency = settings.currency === 'USD' ? '$' : settings.currency === 'EUR' ? '€' : settings.currency === 'GBP' ? '£' : settings.currency;
 
   const equityData = useMemo(() => {
-    return [...trades].reverse().reduce<{ i: number; equity: number; label: string; running: number }[]>((acc, t, i) => {
-      const prev = acc[i - 1];
-      const running = (prev ? prev.running : 0) + t.pnl;
-      acc.push({
-        i: i + 1,
-        equity: parseFloat(running.toFixed(2)),
-        label: new Date(t.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        running,
+    return [...trades]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .reduce<{ i: number; equity: number; label: string; running: number }[]>((acc, t, i) => {
+        const prev = acc[i - 1];
+        const running = (prev ? prev.running : baseline) + tradePnl(t, mode);
+        acc.push({
+          i: i + 1,
+          equity: parseFloat(running.toFixed(2)),
+          label: new Date(t.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+          running,
+        });
+        return acc;
+      }, []);
+  }, [trades, mode, baseline]);
+
+  // Per-account balance curves over all trades, in chronological order
+  const accountBalanceData = useMemo(() => {
+    if (activeAccount || accounts.length === 0) return [];
+    const balances: Record<string, number> = Object.fromEntries(accounts.map(a => [a.id, a.startingBalance]));
+    const points: Record<string, number | string>[] = [{ label: 'Start', ...balances }];
+    [...state.trades]
+      .filter(t => isClosed(t) && t.accountId && t.accountId in balances)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .forEach(t => {
+        balances[t.accountId!] = parseFloat((balances[t.accountId!] + tradePnl(t, mode)).toFixed(2));
+        points.push({ label: new Date(t.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }), ...balances });
       });
-      return acc;
-    }, []);
-  }, [trades]);
+    return points.length > 1 ? points : [];
+  }, [state.trades, accounts, activeAccount, mode]);
 
   const sessionPerf = useMemo(() => {
-    const sessions = ['London', 'New York', 'Asian', 'Other'];
+    const sessions = groupingValues(taxonomies.session, trades, 'session');
     return sessions.map(s => {
       const st = trades.filter(t => t.session === s);
-      const wins = st.filter(t => t.pnl > 0).length;
-      const pnl = st.reduce((a, t) => a + t.pnl, 0);
+      const wins = st.filter(t => tradePnl(t, mode) > 0).length;
+      const pnl = st.reduce((a, t) => a + tradePnl(t, mode), 0);
       return { session: s, trades: st.length, wins, winRate: st.length ? (wins / st.length) * 100 : 0, pnl: parseFloat(pnl.toFixed(2)) };
     }).filter(s => s.trades > 0);
-  }, [trades]);
+  }, [trades, mode, taxonomies.session]);
 
   const setupPerf = useMemo(() => {
     const setupMap: Record<string, { total: number; wins: number; pnl: number }> = {};
     trades.forEach(t => {
       if (!setupMap[t.setup]) setupMap[t.setup] = { total: 0, wins: 0, pnl: 0 };
       setupMap[t.setup].total++;
-      if (t.pnl > 0) setupMap[t.setup].wins++;
-      setupMap[t.setup].pnl += t.pnl;
+      if (tradePnl(t, mode) > 0) setupMap[t.setup].wins++;
+      setupMap[t.setup].pnl += tradePnl(t, mode);
     });
     return Object.entries(setupMap).map(([setup, data]) => ({
       setup,
@@ -83,7 +132,61 @@ export function Analytics() {
       pnl: parseFloat(data.pnl.toFixed(2)),
       winRate: (data.wins / data.total) * 100,
     })).sort((a, b) => b.pnl - a.pnl);
-  }, [trades]);
+  }, [trades, mode]);
+
+  // A trade counts towards every tag it carries
+  const tagPerf = useMemo(() => {
+    return collectTags(trades).map(tag => {
+      const tt = trades.filter(t => t.tags?.includes(tag));
+      const wins = tt.filter(t => tradePnl(t, mode) > 0).length;
+      const pnl = tt.reduce((a, t) => a + tradePnl(t, mode), 0);
+      return { tag, trades: tt.length, winRate: (wins / tt.length) * 100, pnl: parseFloat(pnl.toFixed(2)) };
+    }).sort((a, b) => b.pnl - a.pnl);
+  }, [trades, mode]);
+
+  // How ideas logged before entry turned out: taken, cancelled, or still pending
+  const ideaStats = useMemo(() => {
+    const ideas = selectScopedTrades(state).filter(t => t.plannedAt);
+    if (!ideas.length) return null;
+    const taken = ideas.filter(t => tradeStatus(t) === 'open' || tradeStatus(t) === 'closed');
+    const closed = ideas.filter(isClosed);
+    const cancelled = ideas.filter(t => tradeStatus(t) === 'cancelled');
+    return {
+      total: ideas.length,
+      pending: ideas.filter(t => tradeStatus(t) === 'planned').length,
+      taken: taken.length,
+      cancelled: cancelled.length,
+      closedWinRate: closed.length ? (closed.filter(t => tradePnl(t, mode) > 0).length / closed.length) * 100 : null,
+      closedPnl: closed.reduce((a, t) => a + tradePnl(t, mode), 0),
+      missedWins: cancelled.filter(t => t.hypotheticalResult === 'Win').length,
+      avoidedLosses: cancelled.filter(t => t.hypotheticalResult === 'Loss').length,
+    };
+  }, [state, mode]);
+
+  const mistakePerf = useMemo(() => mistakeCosts(trades, taxonomies.mistake, mode), [trades, taxonomies.mistake, mode]);
+
+  // Only trades logged against a setup checklist are scored
+  const adherenceStats = useMemo(() => {
+    const scored = trades.filter(hasAdherence);
+    if (!scored.length) return null;
+    const summarize = (label: string, group: Trade[]) => {
+      const pnl = group.reduce((a, t) => a + tradePnl(t, mode), 0);
+      return {
+        label,
+        trades: group.length,
+        winRate: group.length ? (group.filter(t => tradePnl(t, mode) > 0).length / group.length) * 100 : 0,
+        pnl,
+        avgPnl: group.length ? pnl / group.length : 0,
+      };
+    };
+    return {
+      avg: scored.reduce((a, t) => a + t.adherence, 0) / scored.length,
+      groups: [
+        summarize('Followed plan', scored.filter(isCompliant)),
+        summarize('Broke rules', scored.filter(t => !isCompliant(t))),
+      ],
+    };
+  }, [trades, mode]);
 
   const dirComparison = useMemo(() => {
     const longs = trades.filter(t => t.direction === 'Long');
@@ -92,31 +195,44 @@ export function Analytics() {
       {
         label: 'Long',
         trades: longs.length,
-        winRate: longs.length ? (longs.filter(t => t.pnl > 0).length / longs.length) * 100 : 0,
-        pnl: longs.reduce((a, t) => a + t.pnl, 0),
+        winRate: longs.length ? (longs.filter(t => tradePnl(t, mode) > 0).length / longs.length) * 100 : 0,
+        pnl: longs.reduce((a, t) => a + tradePnl(t, mode), 0),
       },
       {
         label: 'Short',
         trades: shorts.length,
-        winRate: shorts.length ? (shorts.filter(t => t.pnl > 0).length / shorts.length) * 100 : 0,
-        pnl: shorts.reduce((a, t) => a + t.pnl, 0),
+        winRate: shorts.length ? (shorts.filter(t => tradePnl(t, mode) > 0).length / shorts.length) * 100 : 0,
+        pnl: shorts.reduce((a, t) => a + tradePnl(t, mode), 0),
       },
     ];
-  }, [trades]);
+  }, [trades, mode]);
 
   const profitFactor = useMemo(() => {
-    const grossWin = trades.filter(t => t.pnl > 0).reduce((a, t) => a + t.pnl, 0);
-    const grossLoss = Math.abs(trades.filter(t => t.pnl < 0).reduce((a, t) => a + t.pnl, 0));
+    const grossWin = trades.filter(t => tradePnl(t, mode) > 0).reduce((a, t) => a + tradePnl(t, mode), 0);
+    const grossLoss = Math.abs(trades.filter(t => tradePnl(t, mode) < 0).reduce((a, t) => a + tradePnl(t, mode), 0));
     return grossLoss > 0 ? parseFloat((grossWin / grossLoss).toFixed(2)) : grossWin > 0 ? Infinity : 0;
+  }, [trades, mode]);
+
+  // R stats only cover trades with entry, stop and exit recorded
+  const rStats = useMemo(() => {
+    const rs = trades.map(t => realizedR(t)).filter((r): r is number => r !== null);
+    const total = rs.reduce((a, r) => a + r, 0);
+    return { count: rs.length, total, avg: rs.length ? total / rs.length : 0 };
   }, [trades]);
 
-  const winRate = trades.length ? (trades.filter(t => t.pnl > 0).length / trades.length * 100) : 0;
-  const totalPnL = trades.reduce((a, t) => a + t.pnl, 0);
+  const winRate = trades.length ? (trades.filter(t => tradePnl(t, mode) > 0).length / trades.length * 100) : 0;
+  const totalPnL = trades.reduce((a, t) => a + tradePnl(t, mode), 0);
+  const totalFees = trades.reduce((a, t) => a + tradeFees(t), 0);
 
   return (
     <div className="page-content">
       <header className="page-header">
         <h1 className="page-title">Analytics</h1>
+        <div className="header-stack">
+          <AccountSwitcher />
+          <PnlModeToggle />
+          <button className="text-btn" onClick={onOpenReviews}>Reviews</button>
+        </div>
       </header>
 
       {/* Summary pills */}
@@ -130,11 +246,27 @@ export function Analytics() {
           <div className="metric-value-md">{profitFactor === Infinity ? '∞' : profitFactor}</div>
         </GlassCard>
         <GlassCard padding="14px 18px" className="summary-pill">
-          <div className="metric-label-sm">Total P/L</div>
+          <div className="metric-label-sm">{PNL_MODE_LABEL[mode]} P/L</div>
           <div className={`metric-value-md ${totalPnL >= 0 ? 'text-win' : 'text-loss'}`}>
             {totalPnL >= 0 ? '+' : ''}{currency}{Math.abs(totalPnL).toFixed(2)}
           </div>
         </GlassCard>
+        <GlassCard padding="14px 18px" className="summary-pill">
+          <div className="metric-label-sm">Fees Paid</div>
+          <div className="metric-value-md">{currency}{totalFees.toFixed(2)}</div>
+        </GlassCard>
+        {rStats.count > 0 && (
+          <>
+            <GlassCard padding="14px 18px" className="summary-pill">
+              <div className="metric-label-sm">Avg R</div>
+              <div className={`metric-value-md ${rStats.avg >= 0 ? 'text-win' : 'text-loss'}`}>{formatR(rStats.avg)}</div>
+            </GlassCard>
+            <GlassCard padding="14px 18px" className="summary-pill">
+              <div className="metric-label-sm">Total R</div>
+              <div className={`metric-value-md ${rStats.total >= 0 ? 'text-win' : 'text-loss'}`}>{formatR(rStats.total)}</div>
+            </GlassCard>
+          </>
+        )}
         <GlassCard padding="14px 18px" className="summary-pill">
           <div className="metric-label-sm">Total Trades</div>
           <div className="metric-value-md">{trades.length}</div>
@@ -150,7 +282,7 @@ export function Analytics() {
       {/* Equity Curve */}
       {equityData.length > 0 && (
         <GlassCard>
-          <div className="chart-title">Equity Curve</div>
+          <div className="chart-title">{activeAccount ? `Balance — ${activeAccount.name}` : 'Equity Curve'}</div>
           <ResponsiveContainer width="100%" height={180}>
             <AreaChart data={equityData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
               <defs>
@@ -160,15 +292,33 @@ export function Analytics() {
                 </linearGradient>
               </defs>
               <XAxis dataKey="label" tick={{ fill: 'rgba(200,200,220,0.4)', fontSize: 10 }} axisLine={false} tickLine={false} interval="preserveStartEnd" />
-              <YAxis tick={{ fill: 'rgba(200,200,220,0.4)', fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={v => `${currency}${v}`} width={55} />
-              <Tooltip content={<CustomTooltip currency={currency} />} />
-              <ReferenceLine y={0} stroke="rgba(255,255,255,0.08)" />
-              <Area type="monotone" dataKey="equity" name="P/L" stroke={CHART_COLORS.line} strokeWidth={1.5} fill="url(#eqGrad)" dot={false} />
+              <YAxis tick={{ fill: 'rgba(200,200,220,0.4)', fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={v => `${currency}${v}`} width={55} domain={activeAccount ? ['auto', 'auto'] : undefined} />
+              <Tooltip content={<CustomTooltip currency={currency} money />} />
+              <ReferenceLine y={baseline} stroke="rgba(255,255,255,0.08)" />
+              <Area type="monotone" dataKey="equity" name={activeAccount ? 'Balance' : 'P/L'} stroke={CHART_COLORS.line} strokeWidth={1.5} fill="url(#eqGrad)" dot={false} />
             </AreaChart>
           </ResponsiveContainer>
         </GlassCard>
       )}
 
+      {/* Account Balances */}
+      {accountBalanceData.length > 0 && (
+        <GlassCard>
+          <div className="chart-title">Account Balances</div>
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={accountBalanceData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <XAxis dataKey="label" tick={{ fill: 'rgba(200,200,220,0.4)', fontSize: 10 }} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+              <YAxis tick={{ fill: 'rgba(200,200,220,0.4)', fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={v => `${currency}${v}`} width={55} domain={['auto', 'auto']} />
+              <Tooltip content={<CustomTooltip currency={currency} money />} />
+              <Legend wrapperStyle={{ fontSize: 11, color: 'rgba(200,200,220,0.6)' }} />
+              {accounts.map((a, i) => (
+                <Line key={a.id} type="monotone" dataKey={a.id} name={a.name} stroke={ACCOUNT_COLORS[i % ACCOUNT_COLORS.length]} strokeWidth={1.5} dot={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </GlassCard>
+      )}
+
       {/* Session Performance */}
       {sessionPerf.length > 0 && (
         <GlassCard>
@@ -215,6 +365,114 @@ export function Analytics() {
         </GlassCard>
       )}
 
+      {/* Tag Performance */}
+      {tagPerf.length > 0 && (
+        <GlassCard>
+          <div className="chart-title">Performance by Tag</div>
+          <div className="perf-table">
+            <div className="perf-header">
+              <span>Tag</span>
+              <span>Trades</span>
+              <span>Win %</span>
+              <span>P/L</span>
+            </div>
+            {tagPerf.map(t => (
+              <div key={t.tag} className="perf-row">
+                <span className="perf-name">#{t.tag}</span>
+                <span>{t.trades}</span>
+                <span>{t.winRate.toFixed(0)}%</span>
+                <span className={t.pnl >= 0 ? 'text-win' : 'text-loss'}>{t.pnl >= 0 ? '+' : ''}{currency}{Math.abs(t.pnl).toFixed(0)}</span>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Planned Ideas */}
+      {ideaStats && (
+        <GlassCard>
+          <div className="chart-title">Planned Ideas</div>
+          <div className="dir-comparison-stats" style={{ marginTop: 0, paddingTop: 0, borderTop: 'none' }}>
+            <div className="dir-stat">
+              <div className="dir-stat-label">Ideas</div>
+              <div className="dir-stat-row"><span>Logged</span><strong>{ideaStats.total}</strong></div>
+              <div className="dir-stat-row"><span>Taken</span><strong>{ideaStats.taken} ({((ideaStats.taken / ideaStats.total) * 100).toFixed(0)}%)</strong></div>
+              <div className="dir-stat-row"><span>Cancelled</span><strong>{ideaStats.cancelled}</strong></div>
+              <div className="dir-stat-row"><span>Pending</span><strong>{ideaStats.pending}</strong></div>
+            </div>
+            <div className="dir-stat">
+              <div className="dir-stat-label">Outcome</div>
+              <div className="dir-stat-row">
+                <span>Win rate (taken)</span>
+                <strong>{ideaStats.closedWinRate !== null ? `${ideaStats.closedWinRate.toFixed(0)}%` : '—'}</strong>
+              </div>
+              <div className="dir-stat-row">
+                <span>P/L (taken)</span>
+                <strong className={ideaStats.closedPnl >= 0 ? 'text-win' : 'text-loss'}>
+                  {ideaStats.closedPnl >= 0 ? '+' : '-'}{currency}{Math.abs(ideaStats.closedPnl).toFixed(0)}
+                </strong>
+              </div>
+              <div className="dir-stat-row"><span>Missed winners</span><strong>{ideaStats.missedWins}</strong></div>
+              <div className="dir-stat-row"><span>Avoided losers</span><strong>{ideaStats.avoidedLosses}</strong></div>
+            </div>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Cost of Mistakes */}
+      {mistakePerf.length > 0 && (
+        <GlassCard>
+          <div className="chart-title">Cost of Mistakes</div>
+          <div className="perf-table">
+            <div className="perf-header">
+              <span>Mistake</span>
+              <span>Count</span>
+              <span>% Trades</span>
+              <span>P/L</span>
+            </div>
+            {mistakePerf.map(m => (
+              <div key={m.mistake} className="perf-row">
+                <span className="perf-name">{m.mistake}</span>
+                <span>{m.count}</span>
+                <span>{((m.count / trades.length) * 100).toFixed(0)}%</span>
+                <span className={m.pnl >= 0 ? 'text-win' : 'text-loss'}>{m.pnl >= 0 ? '+' : '-'}{currency}{Math.abs(m.pnl).toFixed(0)}</span>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Plan Adherence */}
+      {adherenceStats && (
+        <GlassCard>
+          <div className="chart-title">Plan Adherence</div>
+          <div className="settings-info-row">
+            <span className="settings-info-label">Average adherence</span>
+            <span className="settings-info-value">{adherenceStats.avg.toFixed(0)}%</span>
+          </div>
+          <div className="discipline-bar-track">
+            <div className="discipline-bar-fill" style={{ width: `${adherenceStats.avg}%` }} />
+          </div>
+          <div className="dir-comparison-stats">
+            {adherenceStats.groups.map(g => (
+              <div key={g.label} className="dir-stat">
+                <div className="dir-stat-label">{g.label}</div>
+                <div className="dir-stat-row"><span>Trades</span><strong>{g.trades}</strong></div>
+                <div className="dir-stat-row"><span>Win Rate</span><strong>{g.winRate.toFixed(0)}%</strong></div>
+                <div className="dir-stat-row">
+                  <span>P/L</span>
+                  <strong className={g.pnl >= 0 ? 'text-win' : 'text-loss'}>{g.pnl >= 0 ? '+' : '-'}{currency}{Math.abs(g.pnl).toFixed(0)}</strong>
+                </div>
+                <div className="dir-stat-row">
+                  <span>Avg / trade</span>
+                  <strong className={g.avgPnl >= 0 ? 'text-win' : 'text-loss'}>{g.avgPnl >= 0 ? '+' : '-'}{currency}{Math.abs(g.avgPnl).toFixed(2)}</strong>
+                </div>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
       {/* Long vs Short */}
       {trades.length > 0 && (
         <GlassCard>
@@ -0,0 +1,322 @@
+import { useState, useRef, useEffect, type FormEvent } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { selectScopedTrades } from '../store/selectors';
+import { GlassCard } from '../components/GlassCard';
+import { GlassInput, GlassTextarea, GlassSelect } from '../components/GlassInput';
+import { StatusBadge, TagBadge } from '../components/StatusBadge';
+import type { AppView, DailyEntry, MarketBias } from '../types/trade';
+import { ChevronLeft, ChevronRight, Upload, X } from 'lucide-react';
+import { storeImage, loadImageUrl } from '../utils/imageStore';
+import { dayKey, shiftDay, parseDayKey, tradesOnDay } from '../utils/daily';
+import { tradePnl } from '../utils/pnl';
+import { STATUS_LABEL, isClosed, tradeStatus } from '../utils/lifecycle';
+
+interface DailyJournalProps {
+  onNavigate: (view: AppView, tradeId?: string) => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+export function DailyJournal({ onNavigate }: DailyJournalProps) {
+  const [day, setDay] = useState(() => dayKey(new Date()));
+  const today = dayKey(new Date());
+
+  return (
+    <div className="page-content">
+      <header className="page-header">
+        <div>
+          <p className="page-eyebrow">{day === today ? 'Today' : parseDayKey(day).toLocaleDateString('en-US', { weekday: 'long' })}</p>
+          <h1 className="page-title">Daily Journal</h1>
+        </div>
+        <div className="header-stack">
+          <div className="day-picker">
+            <button type="button" className="filter-btn" onClick={() => setDay(d => shiftDay(d, -1))} aria-label="Previous day">
+              <ChevronLeft size={15} />
+            </button>
+            <input
+              type="date"
+              className="glass-input day-picker-input"
+              value={day}
+              onChange={e => e.target.value && setDay(e.target.value)}
+            />
+            <button type="button" className="filter-btn" onClick={() => setDay(d => shiftDay(d, 1))} aria-label="Next day">
+              <ChevronRight size={15} />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Keyed by day so switching dates starts from that day's saved entry */}
+      <DailyEntryForm key={day} day={day} onNavigate={onNavigate} />
+    </div>
+  );
+}
+
+interface DailyEntryFormProps {
+  day: string;
+  onNavigate: (view: AppView, tradeId?: string) => void;
+}
+
+function DailyEntryForm({ day, onNavigate }: DailyEntryFormProps) {
+  const { state, dispatch } = useJournal();
+  const existing = state.dailyEntries[day];
+  const currency = state.settings.currency === 'USD' ? '$' : state.settings.currency === 'EUR' ? '€' : state.settings.currency === 'GBP' ? '£' : state.settings.currency;
+  const mode = state.settings.pnlMode;
+
+  const [bias, setBias] = useState<MarketBias | ''>(existing?.bias ?? '');
+  const [keyLevels, setKeyLevels] = useState(existing?.keyLevels ?? '');
+  const [news, setNews] = useState(existing?.news ?? '');
+  const [plan, setPlan] = useState(existing?.plan ?? '');
+  const [review, setReview] = useState(existing?.review ?? '');
+  const [mood, setMood] = useState(existing?.mood);
+  const [sleep, setSleep] = useState(existing?.sleep);
+  const [focus, setFocus] = useState(existing?.focus);
+  const [saving, setSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState(existing?.updatedAt);
+
+  // Same staging approach as AddTrade: new files are only written to IndexedDB on save
+  const [existingImageIds, setExistingImageIds] = useState<string[]>(existing?.imageUrls ?? []);
+  const [existingPreviews, setExistingPreviews] = useState<{ id: string; url: string }[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [pendingPreviews, setPendingPreviews] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const initialImageIds = useRef(existing?.imageUrls ?? []);
+  // Previews move from pending to existing on save, so every object URL is revoked once, on unmount
+  const objectUrls = useRef<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = initialImageIds.current;
+    const urls = objectUrls.current;
+    if (ids.length) {
+      Promise.all(ids.map(id => loadImageUrl(id))).then(results => {
+        if (cancelled) {
+          results.forEach(u => { if (u?.startsWith('blob:')) URL.revokeObjectURL(u); });
+          return;
+        }
+        urls.push(...(results.filter(Boolean) as string[]));
+        setExistingPreviews(ids.map((id, i) => ({ id, url: results[i] ?? '' })).filter(p => p.url));
+      });
+    }
+    return () => {
+      cancelled = true;
+      urls.filter(u => u.startsWith('blob:')).forEach(u => URL.revokeObjectURL(u));
+    };
+  }, []);
+
+  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    if (!files.length) return;
+    const previews = files.map(f => URL.createObjectURL(f));
+    objectUrls.current.push(...previews);
+    setPendingFiles(prev => [...prev, ...files]);
+    setPendingPreviews(prev => [...prev, ...previews]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }
+
+  function removePending(index: number) {
+    setPendingFiles(prev => prev.filter((_, i) => i !== index));
+    setPendingPreviews(prev => prev.filter((_, i) => i !== index));
+  }
+
+  function removeExisting(id: string) {
+    setExistingImageIds(prev => prev.filter(x => x !== id));
+    setExistingPreviews(prev => prev.filter(p => p.id !== id));
+  }
+
+  const dayTrades = tradesOnDay(selectScopedTrades(state), day);
+  const closed = dayTrades.filter(isClosed);
+  const dayPnl = closed.reduce((s, t) => s + tradePnl(t, mode), 0);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const newImageIds = await Promise.all(pendingFiles.map(f => storeImage(f)));
+      const imageUrls = [...existingImageIds, ...newImageIds];
+      const entry: DailyEntry = {
+        date: day,
+        bias: bias || undefined,
+        keyLevels: keyLevels.trim() || undefined,
+        news: news.trim() || undefined,
+        plan: plan.trim() || undefined,
+        review: review.trim() || undefined,
+        mood,
+        sleep,
+        focus,
+        imageUrls: imageUrls.length ? imageUrls : undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      dispatch({ type: 'UPSERT_DAILY_ENTRY', entry });
+      setExistingImageIds(imageUrls);
+      setExistingPreviews(prev => [...prev, ...newImageIds.map((id, i) => ({ id, url: pendingPreviews[i] }))]);
+      setPendingFiles([]);
+      setPendingPreviews([]);
+      setSavedAt(entry.updatedAt);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate>
+      {/* Pre-Market Plan */}
+      <GlassCard className="form-section">
+        <div className="form-section-title">Pre-Market Plan</div>
+        <GlassSelect
+          label="Bias"
+          value={bias}
+          onChange={v => setBias(v as MarketBias | '')}
+          options={[
+            { value: '', label: 'No bias yet' },
+            { value: 'Bullish', label: 'Bullish' },
+            { value: 'Bearish', label: 'Bearish' },
+            { value: 'Neutral', label: 'Neutral' },
+          ]}
+        />
+        <GlassTextarea
+          label="Key levels"
+          placeholder="PDH / PDL, overnight high / low, HTF gaps…"
+          value={keyLevels}
+          onChange={e => setKeyLevels(e.target.value)}
+          rows={3}
+        />
+        <GlassInput
+          label="News"
+          placeholder="e.g. CPI 8:30, FOMC 14:00"
+          value={news}
+          onChange={e => setNews(e.target.value)}
+        />
+        <GlassTextarea
+          label="Game plan"
+          placeholder="What will you trade, and what will you leave alone?"
+          value={plan}
+          onChange={e => setPlan(e.target.value)}
+          rows={4}
+        />
+      </GlassCard>
+
+      {/* Ratings */}
+      <GlassCard className="form-section">
+        <div className="form-section-title">State of Mind</div>
+        <RatingPicker label="Mood" value={mood} onChange={setMood} />
+        <RatingPicker label="Sleep" value={sleep} onChange={setSleep} />
+        <RatingPicker label="Focus" value={focus} onChange={setFocus} />
+      </GlassCard>
+
+      {/* Linked trades */}
+      <GlassCard className="form-section">
+        <div className="form-section-title">Trades</div>
+        {dayTrades.length === 0 && <p className="text-dim">No trades logged on this day.</p>}
+        {dayTrades.map(t => {
+          const pnl = tradePnl(t, mode);
+          return (
+            <button key={t.id} type="button" className="daily-trade-row" onClick={() => onNavigate('journal', t.id)}>
+              <span className="perf-name">{t.symbol}</span>
+              <StatusBadge direction={t.direction} />
+              {isClosed(t)
+                ? <span className={pnl >= 0 ? 'text-win' : 'text-loss'}>{pnl >= 0 ? '+' : '-'}{currency}{Math.abs(pnl).toFixed(2)}</span>
+                : <TagBadge label={STATUS_LABEL[tradeStatus(t)]} />}
+            </button>
+          );
+        })}
+        {closed.length > 0 && (
+          <div className="settings-info-row">
+            <span className="settings-info-label">Day P/L · {closed.length} closed</span>
+            <span className={`settings-info-value ${dayPnl >= 0 ? 'text-win' : 'text-loss'}`}>
+              {dayPnl >= 0 ? '+' : '-'}{currency}{Math.abs(dayPnl).toFixed(2)}
+            </span>
+          </div>
+        )}
+      </GlassCard>
+
+      {/* End-of-Day Review */}
+      <GlassCard className="form-section">
+        <div className="form-section-title">End-of-Day Review</div>
+        <GlassTextarea
+          label="Review"
+          placeholder="Did you follow the plan? What did the market do that you didn't expect?"
+          value={review}
+          onChange={e => setReview(e.target.value)}
+          rows={5}
+        />
+      </GlassCard>
+
+      {/* Screenshots */}
+      <GlassCard className="form-section">
+        <div className="form-section-title">Screenshots</div>
+        {(existingPreviews.length > 0 || pendingPreviews.length > 0) && (
+          <div className="screenshot-thumbs">
+            {existingPreviews.map(p => (
+              <div key={p.id} className="screenshot-thumb">
+                <img src={p.url} alt="screenshot" className="thumb-img" />
+                <button type="button" className="thumb-remove" onClick={() => removeExisting(p.id)}>
+                  <X size={10} />
+                </button>
+              </div>
+            ))}
+            {pendingPreviews.map((url, i) => (
+              <div key={url} className="screenshot-thumb">
+                <img src={url} alt="screenshot" className="thumb-img" />
+                <button type="button" className="thumb-remove" onClick={() => removePending(i)}>
+                  <X size={10} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/png,image/jpeg,image/webp"
+          multiple
+          style={{ display: 'none' }}
+          onChange={handleFileChange}
+        />
+        <button type="button" className="screenshot-zone-btn" onClick={() => fileInputRef.current?.click()}>
+          <Upload size={18} className="icon-muted" />
+          <span className="screenshot-label">Add Screenshots</span>
+          <span className="screenshot-sub">HTF charts, levels, news calendar</span>
+        </button>
+      </GlassCard>
+
+      <div className="form-actions">
+        <button type="submit" className="btn-primary" disabled={saving}>
+          {saving ? 'Saving…' : 'Save Entry'}
+        </button>
+        {savedAt && (
+          <p className="text-dim text-center">
+            Saved {new Date(savedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface RatingPickerProps {
+  label: string;
+  value?: number;
+  onChange: (v: number | undefined) => void;
+}
+
+function RatingPicker({ label, value, onChange }: RatingPickerProps) {
+  return (
+    <div className="settings-info-row">
+      <span className="settings-info-label">{label}</span>
+      <div className="segmented" role="group" aria-label={label}>
+        {RATINGS.map(n => (
+          <button
+            key={n}
+            type="button"
+            className={`segmented-btn${value === n ? ' segmented-btn--active' : ''}`}
+            // Tapping the active rating clears it
+            onClick={() => onChange(value === n ? undefined : n)}
+          >
+            {n}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,19 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useJournal } from '../store/JournalContext';
 import { GlassCard } from '../components/GlassCard';
 import { StatusBadge, TagBadge } from '../components/StatusBadge';
-import type { AppView, Trade } from '../types/trade';
-import { TrendingUp, TrendingDown, Target, Clock } from 'lucide-react';
+import { PnlModeToggle } from '../components/PnlModeToggle';
+import { AccountSwitcher } from '../components/AccountSwitcher';
+import { QuickLogSheet } from '../components/QuickLogSheet';
+import { selectClosedTrades, selectScopedTrades } from '../store/selectors';
+import { badgeStyle } from '../utils/taxonomy';
+import type { AppView, PnlMode, Taxonomies, Trade } from '../types/trade';
+import { TrendingUp, TrendingDown, Target, Clock, Receipt, AlertTriangle, NotebookPen, CalendarCheck, Zap } from 'lucide-react';
+import { mistakeCosts } from '../utils/mistakes';
+import { tradePnl, tradeResult, tradeFees } from '../utils/pnl';
+import { STATUS_LABEL, isClosed, tradeStatus } from '../utils/lifecycle';
+import { dayKey, hasPlan } from '../utils/daily';
+import { periodRange } from '../utils/reviews';
 
 interface DashboardProps {
   onNavigate: (view: AppView, tradeId?: string) => void;
@@ -16,7 +26,18 @@ function formatCurrency(val: number, currency: string) {
 
 export function Dashboard({ onNavigate }: DashboardProps) {
   const { state } = useJournal();
-  const { trades, settings } = state;
+  const { settings } = state;
+  const trades = useMemo(() => selectClosedTrades(state), [state]);
+  // Open trades first, then ideas still waiting for an entry
+  const openPositions = useMemo(() => {
+    const active = selectScopedTrades(state);
+    return [
+      ...active.filter(t => tradeStatus(t) === 'open'),
+      ...active.filter(t => tradeStatus(t) === 'planned'),
+    ];
+  }, [state]);
+  const mode = settings.pnlMode;
+  const [quickLog, setQuickLog] = useState(false);
 
   const stats = useMemo(() => {
     const now = new Date();
@@ -25,16 +46,28 @@ export function Dashboard({ onNavigate }: DashboardProps) {
 
     const todayTrades = trades.filter(t => new Date(t.date).toDateString() === today);
     const weekTrades = trades.filter(t => new Date(t.date) >= weekAgo);
-    const wins = trades.filter(t => t.pnl > 0);
+    const wins = trades.filter(t => tradePnl(t, mode) > 0);
 
-    const todayPL = todayTrades.reduce((s, t) => s + t.pnl, 0);
-    const weekPL = weekTrades.reduce((s, t) => s + t.pnl, 0);
+    const todayPL = todayTrades.reduce((s, t) => s + tradePnl(t, mode), 0);
+    const weekPL = weekTrades.reduce((s, t) => s + tradePnl(t, mode), 0);
     const winRate = trades.length ? (wins.length / trades.length) * 100 : 0;
+    const totalFees = trades.reduce((s, t) => s + tradeFees(t), 0);
 
-    return { todayPL, weekPL, winRate, todayTrades };
-  }, [trades]);
+    // Only a mistake that actually lost money this week is worth surfacing
+    const worstMistake = mistakeCosts(weekTrades, state.taxonomies.mistake, mode).find(m => m.pnl < 0);
 
-  const recentTrades = trades.slice(0, 5);
+    return { todayPL, weekPL, winRate, todayTrades, totalFees, worstMistake };
+  }, [trades, mode, state.taxonomies.mistake]);
+
+  const recentTrades = useMemo(
+    () => [...trades].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 5),
+    [trades],
+  );
+  const planMissing = !hasPlan(state.dailyEntries[dayKey(new Date())]);
+  // From Friday on, nudge until this week's review is finished
+  const weekStart = periodRange('week', new Date()).start;
+  const reviewDue = [0, 5, 6].includes(new Date().getDay())
+    && !state.reviews.some(r => r.period === 'week' && r.start === weekStart && r.completedAt);
 
   return (
     <div className="page-content">
@@ -43,11 +76,42 @@ export function Dashboard({ onNavigate }: DashboardProps) {
           <p className="page-eyebrow">Good morning</p>
           <h1 className="page-title">Dashboard</h1>
         </div>
-        <div className="header-date">
+        <div className="header-date header-stack">
           <span>{new Date().toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}</span>
+          <AccountSwitcher />
+          <PnlModeToggle />
+          <button className="text-btn" onClick={() => setQuickLog(true)}>
+            <Zap size={12} /> Quick log
+          </button>
         </div>
       </header>
 
+      {quickLog && <QuickLogSheet onClose={() => setQuickLog(false)} />}
+
+      {planMissing && (
+        <GlassCard hover padding="16px" onClick={() => onNavigate('daily')}>
+          <div className="trade-row">
+            <div className="metric-icon-row">
+              <NotebookPen size={14} className="icon-muted" />
+              <span className="metric-label-sm">Today's plan hasn't been written yet</span>
+            </div>
+            <span className="text-btn">Write plan</span>
+          </div>
+        </GlassCard>
+      )}
+
+      {reviewDue && (
+        <GlassCard hover padding="16px" onClick={() => onNavigate('review')}>
+          <div className="trade-row">
+            <div className="metric-icon-row">
+              <CalendarCheck size={14} className="icon-muted" />
+              <span className="metric-label-sm">This week's review is waiting</span>
+            </div>
+            <span className="text-btn">Open reviews</span>
+          </div>
+        </GlassCard>
+      )}
+
       {/* Primary metrics row */}
       <div className="metrics-grid">
         <GlassCard className="metric-primary" padding="20px">
@@ -78,7 +142,7 @@ export function Dashboard({ onNavigate }: DashboardProps) {
       </div>
 
       {/* Secondary metrics */}
-      <div className="metrics-grid">
+      <div className="metrics-grid-3">
         <GlassCard padding="16px">
           <div className="metric-icon-row">
             <Target size={14} className="icon-muted" />
@@ -94,8 +158,46 @@ export function Dashboard({ onNavigate }: DashboardProps) {
           </div>
           <div className="metric-value-md">{trades.length}</div>
         </GlassCard>
+
+        <GlassCard padding="16px">
+          <div className="metric-icon-row">
+            <Receipt size={14} className="icon-muted" />
+            <span className="metric-label-sm">Fees Paid</span>
+          </div>
+          <div className="metric-value-md">{formatCurrency(-stats.totalFees, settings.currency)}</div>
+        </GlassCard>
       </div>
 
+      {stats.worstMistake && (
+        <GlassCard padding="16px">
+          <div className="metric-icon-row">
+            <AlertTriangle size={14} className="icon-loss" />
+            <span className="metric-label-sm">Costliest mistake this week</span>
+          </div>
+          <div className="trade-row">
+            <div className="metric-value-md">{stats.worstMistake.mistake}</div>
+            <div className="trade-row-right">
+              <div className="trade-pnl text-loss">{formatCurrency(stats.worstMistake.pnl, settings.currency)}</div>
+              <div className="metric-sub">{stats.worstMistake.count} trade{stats.worstMistake.count !== 1 ? 's' : ''}</div>
+            </div>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Open positions and pending ideas */}
+      {openPositions.length > 0 && (
+        <section>
+          <div className="section-header">
+            <h2 className="section-title">Open Positions</h2>
+          </div>
+          <div className="trade-list">
+            {openPositions.map(trade => (
+              <TradeRow key={trade.id} trade={trade} mode={mode} taxonomies={state.taxonomies} onClick={() => onNavigate('journal', trade.id)} currency={settings.currency} />
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Recent trades */}
       <section>
         <div className="section-header">
@@ -109,7 +211,7 @@ export function Dashboard({ onNavigate }: DashboardProps) {
             </GlassCard>
           )}
           {recentTrades.map(trade => (
-            <TradeRow key={trade.id} trade={trade} onClick={() => onNavigate('journal', trade.id)} currency={settings.currency} />
+            <TradeRow key={trade.id} trade={trade} mode={mode} taxonomies={state.taxonomies} onClick={() => onNavigate('journal', trade.id)} currency={settings.currency} />
           ))}
         </div>
       </section>
@@ -117,8 +219,17 @@ export function Dashboard({ onNavigate }: DashboardProps) {
   );
 }
 
-function TradeRow({ trade, onClick, currency }: { trade: Trade; onClick: () => void; currency: string }) {
+interface TradeRowProps {
+  trade: Trade;
+  mode: PnlMode;
+  taxonomies: Taxonomies;
+  onClick: () => void;
+  currency: string;
+}
+
+function TradeRow({ trade, mode, taxonomies, onClick, currency }: TradeRowProps) {
   const cur = currency === 'USD' ? '$' : currency === 'EUR' ? '€' : currency === 'GBP' ? '£' : currency;
+  const pnl = tradePnl(trade, mode);
   return (
     <GlassCard hover padding="14px 18px" onClick={onClick}>
       <div className="trade-row">
@@ -126,16 +237,23 @@ function TradeRow({ trade, onClick, currency }: { trade: Trade; onClick: () => v
           <div className="trade-symbol">{trade.symbol}</div>
           <div className="trade-meta-row">
             <StatusBadge direction={trade.direction} />
-            <TagBadge label={trade.session} />
-            <TagBadge label={trade.setup} />
+            <TagBadge label={trade.session} style={badgeStyle(taxonomies.session, trade.session)} />
+            <TagBadge label={trade.setup} style={badgeStyle(taxonomies.setup, trade.setup)} />
           </div>
         </div>
-        <div className="trade-row-right">
-          <div className={`trade-pnl ${trade.pnl >= 0 ? 'text-win' : 'text-loss'}`}>
-            {trade.pnl >= 0 ? '+' : ''}{cur}{Math.abs(trade.pnl).toFixed(2)}
+        {isClosed(trade) ? (
+          <div className="trade-row-right">
+            <div className={`trade-pnl ${pnl >= 0 ? 'text-win' : 'text-loss'}`}>
+              {pnl >= 0 ? '+' : ''}{cur}{Math.abs(pnl).toFixed(2)}
+            </div>
+            <StatusBadge result={tradeResult(trade, mode)} size="sm" />
           </div>
-          <StatusBadge result={trade.pnl > 0 ? 'Win' : trade.pnl < 0 ? 'Loss' : 'BE'} size="sm" />
-        </div>
+        ) : (
+          <div className="trade-row-right">
+            <TagBadge label={STATUS_LABEL[tradeStatus(trade)]} />
+            <div className="metric-sub">{new Date(trade.openedAt ?? trade.plannedAt ?? trade.date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</div>
+          </div>
+        )}
       </div>
     </GlassCard>
   );
@@ -2,64 +2,162 @@ import { useState, useMemo, useEffect } from 'react';
 import { useJournal } from '../store/JournalContext';
 import { GlassCard } from '../components/GlassCard';
 import { StatusBadge, TagBadge } from '../components/StatusBadge';
-import type { Trade, Session } from '../types/trade';
+import type { Trade, Instrument, Account, PnlMode, Taxonomies, TradeStatus } from '../types/trade';
 import { Search, SlidersHorizontal, ChevronDown, X } from 'lucide-react';
 import { loadImageUrl } from '../utils/imageStore';
+import { summarizeExecutions, sortExecutions, formatDuration } from '../utils/executions';
+import { findInstrument } from '../utils/instruments';
+import { tradePnl, tradeResult, tradeFees, PNL_MODE_LABEL } from '../utils/pnl';
+import { PnlModeToggle } from '../components/PnlModeToggle';
+import { AccountSwitcher } from '../components/AccountSwitcher';
+import { selectScopedTrades } from '../store/selectors';
+import { toPersisted } from '../store/migrations';
+import { groupingValues, badgeStyle, pickerOptions, TAXONOMY_LABELS } from '../utils/taxonomy';
+import { collectTags, matchesTags, type TagMatch } from '../utils/tags';
+import { plannedRR, realizedR, formatR, formatRR } from '../utils/tradeMath';
+import { STATUS_LABEL, isClosed, tradeStatus, transitionTrade } from '../utils/lifecycle';
+import { BULK_KINDS, setTaxonomyValue, appendNote, type BulkKind } from '../utils/bulk';
+import { tradesToCsv, downloadFile } from '../utils/exportData';
 
 interface JournalProps {
   onEdit: (id: string) => void;
+  onDuplicate: (id: string) => void;
   selectedId?: string;
 }
 
 type SortKey = 'date' | 'pnl';
 type ResultFilter = 'Win' | 'Loss' | 'BE' | '';
 
-export function Journal({ onEdit, selectedId }: JournalProps) {
-  const { state } = useJournal();
-  const { trades, settings } = state;
+export function Journal({ onEdit, onDuplicate, selectedId }: JournalProps) {
+  const { state, dispatch } = useJournal();
+  const { settings, instruments, accounts, taxonomies } = state;
+  const trades = useMemo(() => selectScopedTrades(state), [state]);
+  const mode = settings.pnlMode;
 
   const [search, setSearch] = useState('');
   const [filterResult, setFilterResult] = useState<ResultFilter>('');
-  const [filterSession, setFilterSession] = useState<Session | ''>('');
+  const [filterStatus, setFilterStatus] = useState<TradeStatus | ''>('');
+  const [filterSession, setFilterSession] = useState('');
   const [filterSetup, setFilterSetup] = useState('');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>('any');
   const [sortBy, setSortBy] = useState<SortKey>('date');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
   const [showFilters, setShowFilters] = useState(false);
   const [detailId, setDetailId] = useState<string | null>(selectedId ?? null);
 
-  const setupOptions = useMemo(() => [...new Set(trades.map(t => t.setup))], [trades]);
+  // Selection mode and bulk actions. Bulk changes are single history steps, so the undo toast reverts them.
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [bulkKind, setBulkKind] = useState<BulkKind>('session');
+  const [bulkValue, setBulkValue] = useState('');
+  const [bulkNote, setBulkNote] = useState('');
+
+  const sessionOptions = useMemo(() => groupingValues(taxonomies.session, trades, 'session'), [taxonomies.session, trades]);
+  const setupOptions = useMemo(() => groupingValues(taxonomies.setup, trades, 'setup'), [taxonomies.setup, trades]);
 
   const filtered = useMemo(() => {
     return trades
       .filter(t => {
         if (search && !t.symbol.toLowerCase().includes(search.toLowerCase())) return false;
-        if (filterResult === 'Win' && t.pnl <= 0) return false;
-        if (filterResult === 'Loss' && t.pnl >= 0) return false;
-        if (filterResult === 'BE' && t.pnl !== 0) return false;
+        if (filterStatus && tradeStatus(t) !== filterStatus) return false;
+        if (filterResult && (!isClosed(t) || tradeResult(t, mode) !== filterResult)) return false;
         if (filterSession && t.session !== filterSession) return false;
         if (filterSetup && t.setup !== filterSetup) return false;
+        if (!matchesTags(t, filterTags, tagMatch)) return false;
         return true;
       })
       .sort((a, b) => {
         let v = 0;
         if (sortBy === 'date') v = new Date(a.date).getTime() - new Date(b.date).getTime();
-        else v = a.pnl - b.pnl;
+        else v = tradePnl(a, mode) - tradePnl(b, mode);
         return sortDir === 'desc' ? -v : v;
       });
-  }, [trades, search, filterResult, filterSession, filterSetup, sortBy, sortDir]);
+  }, [trades, mode, search, filterStatus, filterResult, filterSession, filterSetup, filterTags, tagMatch, sortBy, sortDir]);
+
+  const tagOptions = useMemo(() => collectTags(trades), [trades]);
+
+  const selectedTrades = trades.filter(t => selected.has(t.id));
+
+  function toggleSelected(id: string) {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function exitSelection() {
+    setSelecting(false);
+    setSelected(new Set());
+  }
+
+  function bulkSetField() {
+    const value = bulkValue || (bulkKind === 'emotion' ? '' : pickerOptions(taxonomies[bulkKind])[0]?.value ?? '');
+    if (!value && bulkKind !== 'emotion') return;
+    dispatch({ type: 'UPSERT_TRADES', trades: selectedTrades.map(t => setTaxonomyValue(t, bulkKind, value)) });
+  }
+
+  function bulkAppendNote() {
+    const text = bulkNote.trim();
+    if (!text) return;
+    dispatch({ type: 'UPSERT_TRADES', trades: selectedTrades.map(t => appendNote(t, text)) });
+    setBulkNote('');
+  }
+
+  function bulkDelete() {
+    if (!window.confirm(`Delete ${selectedTrades.length} trade(s)?`)) return;
+    dispatch({ type: 'DELETE_TRADES', ids: selectedTrades.map(t => t.id) });
+    setSelected(new Set());
+  }
+
+  function bulkExport(format: 'csv' | 'json') {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(`crtv-selection-${stamp}.csv`, tradesToCsv(selectedTrades, accounts, mode), 'text/csv');
+    } else {
+      downloadFile(`crtv-selection-${stamp}.json`, JSON.stringify(toPersisted({ trades: selectedTrades }), null, 2), 'application/json');
+    }
+  }
+
+  function toggleFilterTag(tag: string) {
+    setFilterTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  }
 
-  const detailTrade = detailId ? trades.find(t => t.id === detailId) : null;
+  // Look up across all accounts so links from elsewhere still open outside the current scope
+  const detailTrade = detailId ? state.trades.find(t => t.id === detailId) : null;
   const currency = settings.currency === 'USD' ? '$' : settings.currency === 'EUR' ? '€' : settings.currency === 'GBP' ? '£' : settings.currency;
 
   if (detailTrade) {
-    return <TradeDetail trade={detailTrade} onBack={() => setDetailId(null)} onEdit={onEdit} currency={currency} />;
+    return (
+      <TradeDetail
+        trade={detailTrade}
+        instrument={findInstrument(instruments, detailTrade.symbol)}
+        account={accounts.find(a => a.id === detailTrade.accountId)}
+        taxonomies={taxonomies}
+        mode={mode}
+        onBack={() => setDetailId(null)}
+        onEdit={onEdit}
+        onDuplicate={onDuplicate}
+        onTransition={status => dispatch({ type: 'UPDATE_TRADE', trade: transitionTrade(detailTrade, status) })}
+        currency={currency}
+      />
+    );
   }
 
   return (
     <div className="page-content">
       <header className="page-header">
         <h1 className="page-title">Journal</h1>
-        <span className="header-count">{filtered.length} trades</span>
+        <div className="header-stack">
+          <AccountSwitcher />
+          <PnlModeToggle />
+          <span className="header-count">{filtered.length} trades</span>
+          <button className="text-btn" onClick={() => selecting ? exitSelection() : setSelecting(true)}>
+            {selecting ? 'Done' : 'Select'}
+          </button>
+        </div>
       </header>
 
       {/* Search & Filter Bar */}
@@ -84,18 +182,19 @@ export function Journal({ onEdit, selectedId }: JournalProps) {
       {showFilters && (
         <GlassCard padding="16px" className="filter-panel">
           <div className="filter-grid">
+            <select className="glass-input glass-select" value={filterStatus} onChange={e => setFilterStatus(e.target.value as TradeStatus | '')}>
+              <option value="">All Statuses</option>
+              {(Object.keys(STATUS_LABEL) as TradeStatus[]).map(s => <option key={s} value={s}>{STATUS_LABEL[s]}</option>)}
+            </select>
             <select className="glass-input glass-select" value={filterResult} onChange={e => setFilterResult(e.target.value as ResultFilter)}>
               <option value="">All Results</option>
               <option value="Win">Win</option>
               <option value="Loss">Loss</option>
               <option value="BE">Break Even</option>
             </select>
-            <select className="glass-input glass-select" value={filterSession} onChange={e => setFilterSession(e.target.value as Session | '')}>
+            <select className="glass-input glass-select" value={filterSession} onChange={e => setFilterSession(e.target.value)}>
               <option value="">All Sessions</option>
-              <option value="London">London</option>
-              <option value="New York">New York</option>
-              <option value="Asian">Asian</option>
-              <option value="Other">Other</option>
+              {sessionOptions.map(s => <option key={s} value={s}>{s}</option>)}
             </select>
             <select className="glass-input glass-select" value={filterSetup} onChange={e => setFilterSetup(e.target.value)}>
               <option value="">All Setups</option>
@@ -112,6 +211,73 @@ export function Journal({ onEdit, selectedId }: JournalProps) {
               <option value="pnl-asc">Worst P/L</option>
             </select>
           </div>
+          {tagOptions.length > 0 && (
+            <div className="filter-tags">
+              <div className="filter-tags-header">
+                <span className="glass-label">Tags</span>
+                <div className="segmented" role="group" aria-label="Tag match">
+                  {(['any', 'all'] as TagMatch[]).map(m => (
+                    <button
+                      key={m}
+                      type="button"
+                      className={`segmented-btn${tagMatch === m ? ' segmented-btn--active' : ''}`}
+                      onClick={() => setTagMatch(m)}
+                    >
+                      {m === 'any' ? 'Any' : 'All'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="mistake-chips">
+                {tagOptions.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    className={`mistake-chip${filterTags.includes(tag) ? ' mistake-chip--selected' : ''}`}
+                    onClick={() => toggleFilterTag(tag)}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </GlassCard>
+      )}
+
+      {selecting && (
+        <GlassCard padding="16px" className="bulk-panel">
+          <div className="bulk-row">
+            <span className="header-count">{selectedTrades.length} selected</span>
+            <button type="button" className="btn-link" onClick={() => setSelected(new Set(filtered.map(t => t.id)))}>
+              Select all {filtered.length}
+            </button>
+            <button type="button" className="btn-link" onClick={() => setSelected(new Set())} disabled={!selectedTrades.length}>Clear</button>
+          </div>
+          <div className="bulk-row">
+            <select className="glass-input glass-select" value={bulkKind} onChange={e => { setBulkKind(e.target.value as BulkKind); setBulkValue(''); }}>
+              {BULK_KINDS.map(k => <option key={k} value={k}>{TAXONOMY_LABELS[k].replace(/s$/, '')}</option>)}
+            </select>
+            <select className="glass-input glass-select" value={bulkValue} onChange={e => setBulkValue(e.target.value)}>
+              {bulkKind === 'emotion' && <option value="">None</option>}
+              {pickerOptions(taxonomies[bulkKind]).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <button type="button" className="btn-secondary" onClick={bulkSetField} disabled={!selectedTrades.length}>Apply</button>
+          </div>
+          <div className="bulk-row">
+            <input
+              className="glass-input"
+              placeholder="Append to notes…"
+              value={bulkNote}
+              onChange={e => setBulkNote(e.target.value)}
+            />
+            <button type="button" className="btn-secondary" onClick={bulkAppendNote} disabled={!selectedTrades.length || !bulkNote.trim()}>Append</button>
+          </div>
+          <div className="bulk-row">
+            <button type="button" className="btn-secondary" onClick={() => bulkExport('csv')} disabled={!selectedTrades.length}>Export CSV</button>
+            <button type="button" className="btn-secondary" onClick={() => bulkExport('json')} disabled={!selectedTrades.length}>Export JSON</button>
+            <button type="button" className="btn-danger" onClick={bulkDelete} disabled={!selectedTrades.length}>Delete</button>
+          </div>
         </GlassCard>
       )}
 
@@ -128,7 +294,10 @@ export function Journal({ onEdit, selectedId }: JournalProps) {
             key={trade.id}
             trade={trade}
             currency={currency}
-            onClick={() => setDetailId(trade.id)}
+            mode={mode}
+            taxonomies={taxonomies}
+            selected={selecting ? selected.has(trade.id) : undefined}
+            onClick={() => selecting ? toggleSelected(trade.id) : setDetailId(trade.id)}
           />
         ))}
       </div>
@@ -136,32 +305,80 @@ export function Journal({ onEdit, selectedId }: JournalProps) {
   );
 }
 
-function JournalCard({ trade, currency, onClick }: { trade: Trade; currency: string; onClick: () => void }) {
+// GlassCard sets its border inline, so the highlight has to be inline too
+const SELECTED_CARD_STYLE = { borderColor: 'rgba(140, 180, 245, 0.55)' };
+
+interface JournalCardProps {
+  trade: Trade;
+  currency: string;
+  mode: PnlMode;
+  taxonomies: Taxonomies;
+  /** Defined only in selection mode */
+  selected?: boolean;
+  onClick: () => void;
+}
+
+function JournalCard({ trade, currency, mode, taxonomies, selected, onClick }: JournalCardProps) {
+  const r = realizedR(trade);
+  const pnl = tradePnl(trade, mode);
   return (
-    <GlassCard hover padding="16px 18px" onClick={onClick}>
+    <GlassCard hover padding="16px 18px" onClick={onClick} style={selected ? SELECTED_CARD_STYLE : undefined}>
       <div className="journal-card-top">
         <div className="journal-card-left">
-          <div className="trade-symbol">{trade.symbol}</div>
+          <div className="trade-symbol">
+            {selected !== undefined && <input type="checkbox" className="journal-card-check" checked={selected} readOnly tabIndex={-1} />}
+            {trade.symbol}
+          </div>
           <div className="trade-date">{new Date(trade.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</div>
         </div>
-        <div className="journal-card-right">
-          <div className={`trade-pnl ${trade.pnl >= 0 ? 'text-win' : 'text-loss'}`}>
-            {trade.pnl >= 0 ? '+' : ''}{currency}{Math.abs(trade.pnl).toFixed(2)}
+        {isClosed(trade) ? (
+          <div className="journal-card-right">
+            <div className={`trade-pnl ${pnl >= 0 ? 'text-win' : 'text-loss'}`}>
+              {pnl >= 0 ? '+' : ''}{currency}{Math.abs(pnl).toFixed(2)}
+            </div>
+            {r !== null && <div className="trade-r">{formatR(r)}</div>}
+            <StatusBadge result={tradeResult(trade, mode)} size="sm" />
           </div>
-          <StatusBadge result={trade.pnl > 0 ? 'Win' : trade.pnl < 0 ? 'Loss' : 'BE'} size="sm" />
-        </div>
+        ) : (
+          <div className="journal-card-right">
+            <TagBadge label={STATUS_LABEL[tradeStatus(trade)]} />
+          </div>
+        )}
       </div>
       <div className="journal-card-bottom">
         <StatusBadge direction={trade.direction} />
-        <TagBadge label={trade.session} />
-        <TagBadge label={trade.setup} />
+        <TagBadge label={trade.session} style={badgeStyle(taxonomies.session, trade.session)} />
+        <TagBadge label={trade.setup} style={badgeStyle(taxonomies.setup, trade.setup)} />
         <span className="trade-tf">{trade.timeframe}</span>
+        {trade.tags?.map(tag => <TagBadge key={tag} label={`#${tag}`} />)}
       </div>
     </GlassCard>
   );
 }
 
-function TradeDetail({ trade, onBack, onEdit, currency }: { trade: Trade; onBack: () => void; onEdit: (id: string) => void; currency: string }) {
+interface TradeDetailProps {
+  trade: Trade;
+  instrument?: Instrument;
+  account?: Account;
+  taxonomies: Taxonomies;
+  mode: PnlMode;
+  onBack: () => void;
+  onEdit: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onTransition: (status: TradeStatus) => void;
+  currency: string;
+}
+
+function TradeDetail({ trade, instrument, account, taxonomies, mode, onBack, onEdit, onDuplicate, onTransition, currency }: TradeDetailProps) {
+  const status = tradeStatus(trade);
+  const pnl = tradePnl(trade, mode);
+  const fees = tradeFees(trade);
+  const rr = plannedRR(trade);
+  const r = realizedR(trade);
+  const fills = trade.executions?.length ? sortExecutions(trade.executions) : null;
+  const fillSummary = fills ? summarizeExecutions(fills, trade.direction, instrument) : null;
+  const hasLevels = [trade.entryPrice, trade.stopLoss, trade.takeProfit, trade.exitPrice, trade.positionSize].some(v => v !== undefined);
+
   return (
     <div className="page-content">
       <header className="page-header">
@@ -169,34 +386,132 @@ function TradeDetail({ trade, onBack, onEdit, currency }: { trade: Trade; onBack
           <ChevronDown size={18} style={{ transform: 'rotate(90deg)' }} />
           <span>Back</span>
         </button>
-        <button className="text-btn" onClick={() => onEdit(trade.id)}>Edit</button>
+        <div className="header-actions">
+          <button className="text-btn" onClick={() => onDuplicate(trade.id)}>Duplicate</button>
+          <button className="text-btn" onClick={() => onEdit(trade.id)}>Edit</button>
+        </div>
       </header>
 
       <div className="detail-hero">
         <div className="detail-symbol">{trade.symbol}</div>
-        <div className={`detail-pnl ${trade.pnl >= 0 ? 'text-win' : 'text-loss'}`}>
-          {trade.pnl >= 0 ? '+' : ''}{currency}{Math.abs(trade.pnl).toFixed(2)}
-        </div>
+        {status === 'closed' ? (
+          <>
+            <div className={`detail-pnl ${pnl >= 0 ? 'text-win' : 'text-loss'}`}>
+              {pnl >= 0 ? '+' : ''}{currency}{Math.abs(pnl).toFixed(2)}
+            </div>
+            {fees > 0 && <div className="detail-date">{PNL_MODE_LABEL[mode]} P&L</div>}
+          </>
+        ) : (
+          <div className="detail-pnl">{STATUS_LABEL[status]}</div>
+        )}
         <div className="detail-badges">
           <StatusBadge direction={trade.direction} size="md" />
-          <StatusBadge result={trade.pnl > 0 ? 'Win' : trade.pnl < 0 ? 'Loss' : 'BE'} size="md" />
-          <TagBadge label={trade.session} />
-          <TagBadge label={trade.timeframe} />
+          {status === 'closed' && <StatusBadge result={tradeResult(trade, mode)} size="md" />}
+          <TagBadge label={trade.session} style={badgeStyle(taxonomies.session, trade.session)} />
+          <TagBadge label={trade.timeframe} style={badgeStyle(taxonomies.timeframe, trade.timeframe)} />
+          {trade.tags?.map(tag => <TagBadge key={tag} label={`#${tag}`} />)}
         </div>
         <div className="detail-date">{new Date(trade.date).toLocaleString('en-US', { dateStyle: 'full', timeStyle: 'short' })}</div>
+        {(status === 'planned' || status === 'open') && (
+          <div className="detail-actions">
+            {status === 'planned' && (
+              <button type="button" className="btn-secondary" onClick={() => onTransition('open')}>Mark Open</button>
+            )}
+            <button type="button" className="btn-secondary" onClick={() => onEdit(trade.id)}>Close Trade</button>
+            <button type="button" className="btn-secondary" onClick={() => onTransition('cancelled')}>
+              {status === 'planned' ? 'Skip Idea' : 'Cancel'}
+            </button>
+          </div>
+        )}
       </div>
 
       <GlassCard>
         <div className="detail-section-title">Trade Details</div>
         <div className="detail-grid">
+          {account && <DetailRow label="Account" value={`${account.name} · ${account.type}`} />}
           <DetailRow label="Setup" value={trade.setup} />
           <DetailRow label="Strategy" value={trade.strategyType} />
           <DetailRow label="Timeframe" value={trade.timeframe} />
           <DetailRow label="Session" value={trade.session} />
           {trade.emotion && <DetailRow label="Emotion" value={trade.emotion} />}
+          {trade.plannedAt && <DetailRow label="Planned" value={formatStamp(trade.plannedAt)} />}
+          {trade.openedAt && <DetailRow label="Opened" value={formatStamp(trade.openedAt)} />}
+          {trade.closedAt && <DetailRow label="Closed" value={formatStamp(trade.closedAt)} />}
+          {trade.hypotheticalResult && <DetailRow label="Would have been" value={trade.hypotheticalResult} />}
+          {status === 'closed' && fees > 0 && (
+            <>
+              <DetailRow label="Gross P&L" value={`${trade.pnl >= 0 ? '+' : '-'}${currency}${Math.abs(trade.pnl).toFixed(2)}`} highlight={trade.pnl >= 0 ? 'win' : 'loss'} />
+              {trade.commission !== undefined && <DetailRow label="Commission" value={`${currency}${trade.commission.toFixed(2)}`} />}
+              {trade.fees !== undefined && <DetailRow label="Fees" value={`${currency}${trade.fees.toFixed(2)}`} />}
+              <DetailRow label="Total Costs" value={`${currency}${fees.toFixed(2)}`} />
+            </>
+          )}
         </div>
+        {trade.mistakes && trade.mistakes.length > 0 && (
+          <div className="detail-mistakes">
+            <span className="detail-row-label">Mistakes</span>
+            <div className="mistakes-list">
+              {trade.mistakes.map(m => (
+                <span key={m} className="badge badge-loss" style={badgeStyle(taxonomies.mistake, m)}>{m}</span>
+              ))}
+            </div>
+          </div>
+        )}
       </GlassCard>
 
+      {trade.checklist && trade.checklist.length > 0 && (
+        <GlassCard>
+          <div className="detail-section-title">Checklist · {trade.adherence ?? 0}% adherence</div>
+          <div className="discipline-bar-track">
+            <div className="discipline-bar-fill" style={{ width: `${trade.adherence ?? 0}%` }} />
+          </div>
+          <div className="detail-grid" style={{ marginTop: 10 }}>
+            {trade.checklist.map(c => (
+              <DetailRow key={c.rule} label={c.rule} value={c.met ? '✓' : '✗'} highlight={c.met ? 'win' : 'loss'} />
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
+      {hasLevels && (
+        <GlassCard>
+          <div className="detail-section-title">Price Levels</div>
+          <div className="detail-grid">
+            {trade.entryPrice !== undefined && <DetailRow label="Entry" value={String(trade.entryPrice)} />}
+            {trade.stopLoss !== undefined && <DetailRow label="Stop Loss" value={String(trade.stopLoss)} />}
+            {trade.takeProfit !== undefined && <DetailRow label="Take Profit" value={String(trade.takeProfit)} />}
+            {trade.exitPrice !== undefined && <DetailRow label="Exit" value={String(trade.exitPrice)} />}
+            {trade.positionSize !== undefined && <DetailRow label="Position Size" value={String(trade.positionSize)} />}
+            {rr !== null && <DetailRow label="Planned R:R" value={formatRR(rr)} />}
+            {r !== null && <DetailRow label="Realized R" value={formatR(r)} highlight={r >= 0 ? 'win' : 'loss'} />}
+          </div>
+        </GlassCard>
+      )}
+
+      {fills && fillSummary && (
+        <GlassCard>
+          <div className="detail-section-title">Executions</div>
+          <div className="fill-timeline">
+            {fills.map(f => (
+              <div key={f.id} className="fill-timeline-item">
+                <span className="fill-timeline-time">
+                  {new Date(f.time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <StatusBadge direction={f.side === 'Buy' ? 'Long' : 'Short'} label={f.side} />
+                <span style={{ flex: 1 }}>{f.quantity} @ {f.price}</span>
+                {f.fee !== undefined && <span className="text-dim">fee {currency}{f.fee.toFixed(2)}</span>}
+              </div>
+            ))}
+          </div>
+          <div className="detail-grid" style={{ marginTop: 10 }}>
+            {fillSummary.avgEntry !== null && <DetailRow label="Avg Entry" value={String(parseFloat(fillSummary.avgEntry.toFixed(6)))} />}
+            {fillSummary.avgExit !== null && <DetailRow label="Avg Exit" value={String(parseFloat(fillSummary.avgExit.toFixed(6)))} />}
+            {fillSummary.openQty > 0 && <DetailRow label="Still Open" value={String(fillSummary.openQty)} />}
+            <DetailRow label="Hold Time" value={formatDuration(fillSummary.holdMs)} />
+          </div>
+        </GlassCard>
+      )}
+
       {trade.notes && (
         <GlassCard>
           <div className="detail-section-title">Notes</div>
@@ -253,6 +568,10 @@ function AsyncImage({ idbKey }: { idbKey: string }) {
   );
 }
 
+function formatStamp(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
 function DetailRow({ label, value, highlight }: { label: string; value: string; highlight?: 'win' | 'loss' }) {
   return (
     <div className="detail-row">
@@ -0,0 +1,280 @@
+import { useState, useMemo } from 'react';
+import { useJournal } from '../store/JournalContext';
+import { selectClosedTrades } from '../store/selectors';
+import { GlassCard } from '../components/GlassCard';
+import { GlassTextarea } from '../components/GlassInput';
+import { StatusBadge, TagBadge } from '../components/StatusBadge';
+import type { AppView, Review, ReviewAnswer, ReviewPeriod, Trade } from '../types/trade';
+import { ChevronDown, ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+import { generateId } from '../utils/id';
+import { tradePnl } from '../utils/pnl';
+import {
+  REVIEW_PROMPTS,
+  PERIOD_LABEL,
+  periodRange,
+  shiftPeriod,
+  periodTitle,
+  tradesInRange,
+  reviewStats,
+} from '../utils/reviews';
+
+interface ReviewsProps {
+  onBack: () => void;
+  onNavigate: (view: AppView, tradeId?: string) => void;
+}
+
+interface PeriodRef {
+  period: ReviewPeriod;
+  start: string;
+  end: string;
+}
+
+export function Reviews({ onBack, onNavigate }: ReviewsProps) {
+  const { state, dispatch } = useJournal();
+  const [active, setActive] = useState<PeriodRef | null>(null);
+  const trades = useMemo(() => selectClosedTrades(state), [state]);
+  const mode = state.settings.pnlMode;
+  const currency = state.settings.currency === 'USD' ? '$' : state.settings.currency === 'EUR' ? '€' : state.settings.currency === 'GBP' ? '£' : state.settings.currency;
+
+  const history = [...state.reviews].sort((a, b) => b.start.localeCompare(a.start) || a.period.localeCompare(b.period));
+
+  function start(period: ReviewPeriod) {
+    setActive({ period, ...periodRange(period, new Date()) });
+  }
+
+  function handleDelete(r: Review) {
+    if (!window.confirm(`Delete the ${PERIOD_LABEL[r.period].toLowerCase()} review for ${periodTitle(r.period, r.start, r.end)}?`)) return;
+    dispatch({ type: 'DELETE_REVIEW', id: r.id });
+  }
+
+  if (active) {
+    return (
+      <ReviewEditor
+        key={`${active.period}-${active.start}`}
+        {...active}
+        trades={trades}
+        currency={currency}
+        onShift={delta => setActive({ period: active.period, ...shiftPeriod(active.period, active.start, delta) })}
+        onClose={() => setActive(null)}
+        onNavigate={onNavigate}
+      />
+    );
+  }
+
+  return (
+    <div className="page-content">
+      <header className="page-header">
+        <button className="back-btn" onClick={onBack}>
+          <ChevronDown size={18} style={{ transform: 'rotate(90deg)' }} />
+          <span>Analytics</span>
+        </button>
+        <h1 className="page-title-sm">Reviews</h1>
+        <div style={{ width: 60 }} />
+      </header>
+
+      <GlassCard className="form-section">
+        <div className="form-section-title">Start a Review</div>
+        <p className="text-dim">Stats are collected from the period's closed trades; you write the rest.</p>
+        <div className="form-grid-2">
+          <button type="button" className="btn-secondary" onClick={() => start('week')}>This Week</button>
+          <button type="button" className="btn-secondary" onClick={() => start('month')}>This Month</button>
+        </div>
+      </GlassCard>
+
+      <section>
+        <div className="section-header">
+          <h2 className="section-title">History</h2>
+        </div>
+        <div className="trade-list">
+          {history.length === 0 && (
+            <GlassCard padding="32px">
+              <p className="text-muted text-center">No reviews yet.</p>
+            </GlassCard>
+          )}
+          {history.map(r => {
+            const pnl = tradesInRange(trades, r.start, r.end).reduce((a, t) => a + tradePnl(t, mode), 0);
+            return (
+              <GlassCard key={r.id} hover padding="14px 18px" onClick={() => setActive({ period: r.period, start: r.start, end: r.end })}>
+                <div className="trade-row">
+                  <div className="trade-row-left">
+                    <div className="trade-symbol">{periodTitle(r.period, r.start, r.end)}</div>
+                    <div className="trade-meta-row">
+                      <TagBadge label={PERIOD_LABEL[r.period]} />
+                      <TagBadge label={r.completedAt ? 'Completed' : 'Draft'} />
+                    </div>
+                  </div>
+                  <div className="trade-row-right">
+                    <div className={`trade-pnl ${pnl >= 0 ? 'text-win' : 'text-loss'}`}>
+                      {pnl >= 0 ? '+' : '-'}{currency}{Math.abs(pnl).toFixed(2)}
+                    </div>
+                    <button
+                      type="button"
+                      className="icon-btn"
+                      onClick={e => { e.stopPropagation(); handleDelete(r); }}
+                      aria-label="Delete review"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </GlassCard>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+interface ReviewEditorProps extends PeriodRef {
+  trades: Trade[];
+  currency: string;
+  onShift: (delta: -1 | 1) => void;
+  onClose: () => void;
+  onNavigate: (view: AppView, tradeId?: string) => void;
+}
+
+function ReviewEditor({ period, start, end, trades, currency, onShift, onClose, onNavigate }: ReviewEditorProps) {
+  const { state, dispatch } = useJournal();
+  const mode = state.settings.pnlMode;
+  const existing = state.reviews.find(r => r.period === period && r.start === start);
+
+  // Current prompts first, then any answers written against prompts that have since changed
+  const [answers, setAnswers] = useState<ReviewAnswer[]>(() => {
+    const saved = existing?.answers ?? [];
+    const current = REVIEW_PROMPTS[period].map(prompt => ({ prompt, answer: saved.find(a => a.prompt === prompt)?.answer ?? '' }));
+    return [...current, ...saved.filter(a => !REVIEW_PROMPTS[period].includes(a.prompt))];
+  });
+  const [savedAt, setSavedAt] = useState(existing?.updatedAt);
+
+  const periodTrades = useMemo(() => tradesInRange(trades, start, end), [trades, start, end]);
+  const stats = useMemo(() => reviewStats(periodTrades, mode), [periodTrades, mode]);
+
+  function setAnswer(prompt: string, answer: string) {
+    setAnswers(prev => prev.map(a => a.prompt === prompt ? { ...a, answer } : a));
+  }
+
+  function save(complete: boolean) {
+    const review: Review = {
+      id: existing?.id ?? generateId(),
+      period,
+      start,
+      end,
+      answers: answers.filter(a => a.answer.trim()).map(a => ({ prompt: a.prompt, answer: a.answer.trim() })),
+      completedAt: complete ? existing?.completedAt ?? new Date().toISOString() : existing?.completedAt,
+      updatedAt: new Date().toISOString(),
+    };
+    dispatch({ type: 'UPSERT_REVIEW', review });
+    setSavedAt(review.updatedAt);
+    if (complete) onClose();
+  }
+
+  const money = (v: number) => `${v >= 0 ? '+' : '-'}${currency}${Math.abs(v).toFixed(2)}`;
+
+  return (
+    <div className="page-content">
+      <header className="page-header">
+        <button className="back-btn" onClick={onClose}>
+          <ChevronDown size={18} style={{ transform: 'rotate(90deg)' }} />
+          <span>Reviews</span>
+        </button>
+        <div className="day-picker">
+          <button type="button" className="filter-btn" onClick={() => onShift(-1)} aria-label="Previous period">
+            <ChevronLeft size={15} />
+          </button>
+          <span className="header-count">{periodTitle(period, start, end)}</span>
+          <button type="button" className="filter-btn" onClick={() => onShift(1)} aria-label="Next period">
+            <ChevronRight size={15} />
+          </button>
+        </div>
+      </header>
+
+      {/* Stats */}
+      <GlassCard>
+        <div className="chart-title">{PERIOD_LABEL[period]} Stats</div>
+        {stats.trades === 0 ? (
+          <p className="text-dim">No closed trades in this period.</p>
+        ) : (
+          <>
+            <div className="settings-info-row">
+              <span className="settings-info-label">P/L</span>
+              <span className={`settings-info-value ${stats.pnl >= 0 ? 'text-win' : 'text-loss'}`}>{money(stats.pnl)}</span>
+            </div>
+            <div className="settings-info-row">
+              <span className="settings-info-label">Trades</span>
+              <span className="settings-info-value">{stats.trades}</span>
+            </div>
+            <div className="settings-info-row">
+              <span className="settings-info-label">Win rate</span>
+              <span className="settings-info-value">{stats.winRate.toFixed(0)}%</span>
+            </div>
+            {stats.best && <ReviewTradeRow label="Best trade" trade={stats.best} value={money(tradePnl(stats.best, mode))} onOpen={id => onNavigate('journal', id)} />}
+            {stats.worst && <ReviewTradeRow label="Worst trade" trade={stats.worst} value={money(tradePnl(stats.worst, mode))} onOpen={id => onNavigate('journal', id)} />}
+          </>
+        )}
+      </GlassCard>
+
+      {stats.emotions.length > 0 && (
+        <GlassCard>
+          <div className="chart-title">Emotions</div>
+          <div className="perf-table">
+            <div className="perf-header">
+              <span>Emotion</span><span>Trades</span><span>Share</span><span>P/L</span>
+            </div>
+            {stats.emotions.map(e => (
+              <div key={e.emotion} className="perf-row">
+                <span className="perf-name">{e.emotion}</span>
+                <span>{e.trades}</span>
+                <span>{((e.trades / stats.trades) * 100).toFixed(0)}%</span>
+                <span className={e.pnl >= 0 ? 'text-win' : 'text-loss'}>{e.pnl >= 0 ? '+' : ''}{currency}{Math.abs(e.pnl).toFixed(0)}</span>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Guided prompts */}
+      <GlassCard className="form-section">
+        <div className="form-section-title">Reflection</div>
+        {answers.map(a => (
+          <GlassTextarea
+            key={a.prompt}
+            label={a.prompt}
+            value={a.answer}
+            onChange={e => setAnswer(a.prompt, e.target.value)}
+            rows={3}
+          />
+        ))}
+      </GlassCard>
+
+      <div className="form-actions">
+        <button type="button" className="btn-primary" onClick={() => save(true)}>
+          {existing?.completedAt ? 'Save Review' : 'Finish Review'}
+        </button>
+        <button type="button" className="btn-ghost" onClick={() => save(false)}>Save Draft</button>
+        {savedAt && (
+          <p className="text-dim text-center">
+            Saved {new Date(savedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ReviewTradeRowProps {
+  label: string;
+  trade: Trade;
+  value: string;
+  onOpen: (id: string) => void;
+}
+
+function ReviewTradeRow({ label, trade, value, onOpen }: ReviewTradeRowProps) {
+  return (
+    <button type="button" className="daily-trade-row" onClick={() => onOpen(trade.id)}>
+      <span className="settings-info-label">{label} · <span className="perf-name">{trade.symbol}</span></span>
+      <StatusBadge direction={trade.direction} />
+      <span className={value.startsWith('+') ? 'text-win' : 'text-loss'}>{value}</span>
+    </button>
+  );
+}
@@ -1,25 +1,42 @@
 import { useRef, useState } from 'react';
 import { useJournal } from '../store/JournalContext';
+import { useSync } from '../store/SyncContext';
 import { GlassCard } from '../components/GlassCard';
 import { GlassInput, GlassSelect } from '../components/GlassInput';
+import { InstrumentCatalog } from '../components/InstrumentCatalog';
+import { AccountManager } from '../components/AccountManager';
+import { TaxonomyManager } from '../components/TaxonomyManager';
+import { SetupRulesEditor } from '../components/SetupRulesEditor';
+import { TemplateManager } from '../components/TemplateManager';
+import { PnlModeToggle } from '../components/PnlModeToggle';
+import { RepairReport } from '../components/RepairReport';
+import { BrokerImport } from '../components/BrokerImport';
+import { SyncPassphrase } from '../components/SyncPassphrase';
+import { SyncProviderForm } from '../components/SyncProviderForm';
+import { SyncSnapshots } from '../components/SyncSnapshots';
+import { MergeImport } from '../components/MergeImport';
+import { tradesToCsv, downloadFile } from '../utils/exportData';
+import { createBackup, isBackupArchive, verifyBackup, restoreImages, rewriteImageKeys, type BackupArchive } from '../utils/backup';
+import { deleteImages } from '../utils/imageStore';
 import type { AppSettings, JournalState } from '../types/trade';
-import { clearAllImages } from '../utils/imageStore';
-import { defaultSettings } from '../store/seed';
+import { validateJournal, type ValidationReport } from '../store/validation';
+import { migrate, toPersisted, NewerSchemaError, SCHEMA_VERSION } from '../store/migrations';
 import {
   loadSyncConfig,
   saveSyncConfig,
   pushToCloud,
   pullFromCloud,
-  generateSyncKey,
-  isValidSupabaseUrl,
   timeAgo,
   loadSyncMeta,
-  type SyncConfig,
+  saveSyncBase,
 } from '../utils/cloudSync';
+import { blankSyncConfig, describeSyncTarget, isSyncConfigured, syncEndpoint, SYNC_PROVIDERS, type SyncConfig } from '../utils/syncProviders';
+import { requestFolderAccess } from '../utils/syncFolder';
 
 export function Settings() {
-  const { state, dispatch, suppressNextPush } = useJournal();
-  const { settings, trades } = state;
+  const { state, dispatch, newerSchema } = useJournal();
+  const sync = useSync();
+  const { settings, trades, instruments, accounts, taxonomies, dailyEntries, reviews, templates } = state;
 
   // ── Appearance ──────────────────────────────────────────────────────────────
   function update(patch: Partial<AppSettings>) {
@@ -28,26 +45,12 @@ export function Settings() {
 
   // ── Data management ─────────────────────────────────────────────────────────
   function exportJSON() {
-    const blob = new Blob([JSON.stringify({ trades, settings }, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `crtv-journal-${new Date().toISOString().slice(0, 10)}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    const json = JSON.stringify(toPersisted({ trades, settings, instruments, accounts, taxonomies, dailyEntries, reviews, templates }), null, 2);
+    downloadFile(`crtv-journal-${new Date().toISOString().slice(0, 10)}.json`, json, 'application/json');
   }
 
   function exportCSV() {
-    const headers = ['id', 'date', 'symbol', 'direction', 'timeframe', 'session', 'setup', 'strategyType', 'pnl', 'emotion', 'notes'];
-    const rows = trades.map(t => headers.map(h => (t as unknown as Record<string, unknown>)[h] ?? '').join(','));
-    const csv = [headers.join(','), ...rows].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `crtv-journal-${new Date().toISOString().slice(0, 10)}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(`crtv-journal-${new Date().toISOString().slice(0, 10)}.csv`, tradesToCsv(trades, accounts, settings.pnlMode), 'text/csv');
   }
 
   const importFileRef = useRef<HTMLInputElement>(null);
@@ -62,16 +65,14 @@ export function Settings() {
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const parsed = JSON.parse(reader.result as string) as Partial<JournalState>;
-        if (!Array.isArray(parsed.trades)) throw new Error('missing trades array');
-        const toLoad: JournalState = {
-          trades: parsed.trades,
-          settings: parsed.settings ?? defaultSettings,
-        };
-        if (!window.confirm(`Import ${toLoad.trades.length} trade(s)? This will replace your current data.`)) return;
-        dispatch({ type: 'LOAD_STATE', state: toLoad });
-      } catch {
-        alert('Could not import: invalid JSON file.');
+        const raw: unknown = JSON.parse(reader.result as string);
+        if (isBackupArchive(raw)) {
+          restoreBackup(raw);
+        } else {
+          importJournal(migrate(raw));
+        }
+      } catch (err) {
+        alert(err instanceof NewerSchemaError ? `Could not import: ${err.message}` : 'Could not import: invalid JSON file.');
       }
     };
     reader.readAsText(file);
@@ -79,45 +80,102 @@ export function Settings() {
     e.target.value = '';
   }
 
-  async function resetJournal() {
-    if (window.confirm('Reset all trades and settings? This cannot be undone.')) {
-      await clearAllImages().catch(() => {});
+  /** Validates migrated import data, then hands it to the merge / replace dialog. */
+  function importJournal(parsed: Partial<JournalState>) {
+    if (!Array.isArray(parsed.trades)) throw new Error('missing trades array');
+    const report = validateJournal({
+      trades: parsed.trades,
+      settings: parsed.settings,
+      instruments: parsed.instruments,
+      accounts: parsed.accounts,
+      taxonomies: parsed.taxonomies,
+      dailyEntries: parsed.dailyEntries,
+      reviews: parsed.reviews,
+      templates: parsed.templates,
+    });
+    if (report.issues.length) return setPendingLoad({ report, source: 'import' });
+    setPendingImport(report.repaired);
+  }
+
+  // ── Full backup (journal + screenshots) ─────────────────────────────────────
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  // Screenshots written by a restore that hasn't been applied yet; dropped if it's abandoned
+  const restoredImages = useRef<string[]>([]);
+
+  async function exportBackup() {
+    try {
+      const { archive, missing } = await createBackup(state, (done, total) => setProgress({ label: 'Packing screenshots', done, total }));
+      downloadFile(`crtv-backup-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(archive), 'application/json');
+      if (missing.length) alert(`Backup saved. ${missing.length} screenshot(s) were missing on this device and aren't included.`);
+    } catch (err) {
+      alert(`Could not create backup: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  async function restoreBackup(archive: BackupArchive) {
+    try {
+      const journal = migrate(archive.journal);
+      const { journalOk, badImages } = await verifyBackup(archive, (done, total) => setProgress({ label: 'Checking backup', done, total }));
+      if (!journalOk) {
+        alert('Could not restore: the backup failed its integrity check. The file is damaged or was edited.');
+        return;
+      }
+      if (badImages.length && !window.confirm(`${badImages.length} screenshot(s) in this backup are damaged. Restore without them?`)) return;
+      const keyMap = await restoreImages(archive, badImages, (done, total) => setProgress({ label: 'Restoring screenshots', done, total }));
+      restoredImages.current = Object.values(keyMap);
+      importJournal(rewriteImageKeys(journal, keyMap));
+    } catch (err) {
+      discardRestoredImages();
+      alert(err instanceof NewerSchemaError ? `Could not restore: ${err.message}` : `Could not restore: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  function discardRestoredImages() {
+    deleteImages(restoredImages.current).catch(() => { /* ignore */ });
+    restoredImages.current = [];
+  }
+
+  function resetJournal() {
+    // Screenshots stay in IndexedDB so an undo brings the journal back intact; the next load deletes those nothing uses
+    if (window.confirm('Reset all trades and settings? You can undo this until the page is reloaded.')) {
       dispatch({ type: 'RESET_JOURNAL' });
     }
   }
 
   // ── Cloud Sync ───────────────────────────────────────────────────────────────
-  const [syncCfg, setSyncCfg] = useState<SyncConfig>(() => loadSyncConfig() ?? { supabaseUrl: '', anonKey: '', syncKey: '' });
+  const [syncCfg, setSyncCfg] = useState<SyncConfig>(() => loadSyncConfig() ?? blankSyncConfig('supabase'));
   const [syncStatus, setSyncStatus] = useState<'idle' | 'pushing' | 'pulling' | 'ok' | 'error'>('idle');
   const [syncMsg, setSyncMsg] = useState('');
   const [syncMeta, setSyncMeta] = useState(loadSyncMeta);
 
   // Show the credential input form only when no valid config is saved yet (or user clicks Edit)
-  const [showSetupForm, setShowSetupForm] = useState(() => {
-    const cfg = loadSyncConfig();
-    return !(cfg?.supabaseUrl && cfg?.anonKey && cfg?.syncKey && isValidSupabaseUrl(cfg.supabaseUrl));
-  });
+  const [showSetupForm, setShowSetupForm] = useState(() => !isSyncConfigured(loadSyncConfig()));
 
-  function updateSyncCfg(patch: Partial<SyncConfig>) {
-    const next = { ...syncCfg, ...patch };
+  function updateSyncCfg(next: SyncConfig) {
     setSyncCfg(next);
-    // Only persist when all three fields are present; don't wipe a saved config
-    // while the user is mid-edit — they can use Disconnect to fully remove it.
-    if (next.supabaseUrl && next.anonKey && next.syncKey) {
+    // Only persist a complete config; don't wipe a saved one while the user is
+    // mid-edit — they can use Disconnect to fully remove it.
+    if (isSyncConfigured(next)) {
       saveSyncConfig(next);
     }
   }
 
-  function handleGenKey() {
-    updateSyncCfg({ syncKey: generateSyncKey() });
-  }
-
   async function handlePush() {
-    if (!syncCfg.supabaseUrl || !syncCfg.anonKey || !syncCfg.syncKey) return;
+    if (!isSyncConfigured(syncCfg)) return;
+    if (newerSchema !== undefined) {
+      setSyncStatus('error');
+      setSyncMsg(new NewerSchemaError(newerSchema).message);
+      return;
+    }
     setSyncStatus('pushing');
     setSyncMsg('');
     try {
-      await pushToCloud(syncCfg, state);
+      await pushToCloud(syncCfg, toPersisted(state));
+      saveSyncBase(syncCfg, toPersisted(state));
       setSyncMeta(loadSyncMeta());
       setSyncStatus('ok');
       setSyncMsg('Pushed successfully.');
@@ -129,7 +187,7 @@ export function Settings() {
   }
 
   async function handlePull() {
-    if (!syncCfg.supabaseUrl || !syncCfg.anonKey || !syncCfg.syncKey) return;
+    if (!isSyncConfigured(syncCfg)) return;
     setSyncStatus('pulling');
     setSyncMsg('');
     try {
@@ -139,33 +197,90 @@ export function Settings() {
         setSyncMsg('No cloud data found for this sync key.');
         return;
       }
+      setSyncMeta(loadSyncMeta());
+      const report = validateJournal(migrate(remote.state));
+      if (report.issues.length) {
+        setSyncStatus('idle');
+        setPendingLoad({ report, source: 'cloud', updatedAt: remote.updatedAt });
+        return;
+      }
       if (!window.confirm('Replace your local data with the cloud copy?')) {
         setSyncStatus('idle');
         return;
       }
-      suppressNextPush();
-      dispatch({ type: 'LOAD_STATE', state: remote.state as JournalState });
-      setSyncStatus('ok');
-      setSyncMsg(`Pulled successfully (cloud snapshot from ${timeAgo(remote.updatedAt)}).`);
+      loadPulled(report.repaired, remote.updatedAt);
     } catch (err) {
+      setSyncMeta(loadSyncMeta());
       setSyncStatus('error');
       setSyncMsg(String(err instanceof Error ? err.message : err));
     }
   }
 
+  function loadPulled(data: Partial<JournalState>, updatedAt: number) {
+    dispatch({ type: 'LOAD_STATE', state: data, source: 'cloud' });
+    // The pulled copy is now what both sides agree on
+    saveSyncBase(syncCfg, data);
+    setSyncStatus('ok');
+    setSyncMsg(`Pulled successfully (cloud snapshot from ${timeAgo(updatedAt)}).`);
+  }
+
+  /** Puts a snapshot back on this device and in the cloud, so the next sync doesn't merge it away. */
+  async function restoreSnapshot(data: Partial<JournalState>, updatedAt: number) {
+    dispatch({ type: 'LOAD_STATE', state: data, source: 'cloud' });
+    setSyncStatus('pushing');
+    setSyncMsg('');
+    try {
+      await pushToCloud(syncCfg, toPersisted(data));
+      saveSyncBase(syncCfg, toPersisted(data));
+      setSyncMeta(loadSyncMeta());
+      setSyncStatus('ok');
+      setSyncMsg(`Restored the snapshot from ${timeAgo(updatedAt)}.`);
+    } catch (err) {
+      setSyncStatus('error');
+      setSyncMsg(`Restored on this device, but the cloud copy wasn't replaced: ${String(err instanceof Error ? err.message : err)}`);
+    }
+  }
+
+  function handleSnapshot(snapshot: { state: unknown; updatedAt: number }) {
+    const report = validateJournal(migrate(snapshot.state));
+    if (report.issues.length) setPendingLoad({ report, source: 'snapshot', updatedAt: snapshot.updatedAt });
+    else restoreSnapshot(report.repaired, snapshot.updatedAt);
+  }
+
+  // ── Validation report for imported / pulled data with invalid records ──────
+  const [pendingLoad, setPendingLoad] = useState<{ report: ValidationReport; source: 'import' | 'cloud' | 'snapshot'; updatedAt?: number } | null>(null);
+
+  function resolvePendingLoad(data: Partial<JournalState>) {
+    if (!pendingLoad) return;
+    if (pendingLoad.source === 'cloud') {
+      loadPulled(data, pendingLoad.updatedAt ?? Date.now());
+    } else if (pendingLoad.source === 'snapshot') {
+      restoreSnapshot(data, pendingLoad.updatedAt ?? Date.now());
+    } else {
+      setPendingImport(data);
+    }
+    setPendingLoad(null);
+  }
+
+  // Validated import data waiting for the merge / replace choice
+  const [pendingImport, setPendingImport] = useState<Partial<JournalState> | null>(null);
+
   function handleDisconnect() {
     if (!window.confirm('Remove cloud sync credentials from this device?')) return;
     saveSyncConfig(null);
-    setSyncCfg({ supabaseUrl: '', anonKey: '', syncKey: '' });
+    setSyncCfg(blankSyncConfig(syncCfg.provider));
     setSyncStatus('idle');
     setSyncMsg('');
     setShowSetupForm(true);
   }
 
-  const syncReady = syncCfg.supabaseUrl.trim() !== '' && syncCfg.anonKey.trim() !== '' && syncCfg.syncKey.trim() !== '' && isValidSupabaseUrl(syncCfg.supabaseUrl);
-  const supabaseUrlError = syncCfg.supabaseUrl && !isValidSupabaseUrl(syncCfg.supabaseUrl)
-    ? 'Enter a valid Supabase project URL, e.g. https://xyzcompany.supabase.co'
-    : '';
+  const lastSynced = Math.max(syncMeta.lastPushedAt, sync.lastSyncedAt);
+  const syncReady = isSyncConfigured(syncCfg);
+  const providerLabel = SYNC_PROVIDERS.find(p => p.value === syncCfg.provider)?.label ?? syncCfg.provider;
+
+  async function allowFolderAccess() {
+    if (syncCfg.provider === 'folder' && await requestFolderAccess(syncCfg.folderId)) sync.syncNow();
+  }
 
   return (
     <div className="page-content">
@@ -214,6 +329,19 @@ export function Settings() {
         </div>
       </GlassCard>
 
+      {/* Accounts */}
+      <AccountManager />
+
+      {/* Categories */}
+      <TaxonomyManager />
+      <SetupRulesEditor />
+
+      {/* Templates */}
+      <TemplateManager />
+
+      {/* Instruments */}
+      <InstrumentCatalog />
+
       {/* Data */}
       <GlassCard className="form-section">
         <div className="form-section-title">Data Management</div>
@@ -221,11 +349,27 @@ export function Settings() {
           <span className="settings-info-label">Trades logged</span>
           <span className="settings-info-value">{trades.length}</span>
         </div>
+        <div className="settings-info-row">
+          <span className="settings-info-label">CSV P&L basis</span>
+          <PnlModeToggle />
+        </div>
         <div className="settings-actions">
           <button className="btn-secondary" onClick={exportJSON}>Export JSON</button>
           <button className="btn-secondary" onClick={exportCSV}>Export CSV</button>
           <button className="btn-secondary" onClick={importJSON}>Import JSON</button>
+          <button className="btn-secondary" onClick={exportBackup} disabled={!!progress}>Full Backup</button>
         </div>
+        <p className="text-dim">
+          Full Backup includes your screenshots. Restore it with Import JSON on any device.
+        </p>
+        {progress && (
+          <div>
+            <span className="text-dim">{progress.label}… {progress.done}/{progress.total}</span>
+            <div className="discipline-bar-track">
+              <div className="discipline-bar-fill" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+            </div>
+          </div>
+        )}
         {/* Hidden file input for JSON import */}
         <input
           ref={importFileRef}
@@ -237,6 +381,8 @@ export function Settings() {
         <button className="btn-danger" onClick={resetJournal}>Reset Journal</button>
       </GlassCard>
 
+      <BrokerImport />
+
       {/* Cloud Sync */}
       <GlassCard className="form-section">
         <div className="form-section-title">Cloud Sync</div>
@@ -245,27 +391,34 @@ export function Settings() {
           /* ── Status / Connected view ── */
           <>
             <div className="sync-connected-indicator">
-              <span className={`sync-dot${syncStatus === 'pushing' || syncStatus === 'pulling' ? ' sync-dot--syncing' : ' sync-dot--active'}`} />
+              <span className={`sync-dot${syncStatus === 'pushing' || syncStatus === 'pulling' || sync.status === 'syncing' ? ' sync-dot--syncing' : ' sync-dot--active'}`} />
               <span>
-                {syncStatus === 'pushing' ? 'Syncing…' : syncStatus === 'pulling' ? 'Pulling…' : 'Sync Active'}
+                {syncStatus === 'pushing' ? 'Pushing…' : syncStatus === 'pulling' ? 'Pulling…' : sync.status === 'syncing' ? 'Syncing…' : 'Sync Active'}
               </span>
             </div>
 
             <div className="settings-info-row">
-              <span className="settings-info-label">Endpoint</span>
+              <span className="settings-info-label">{providerLabel}</span>
               <span className="settings-info-value" style={{ fontSize: 12 }}>
-                {syncCfg.supabaseUrl.replace(/^https:\/\//, '').replace(/\.supabase\.co\/?$/, '…supabase.co')}
+                {describeSyncTarget(syncCfg)}
               </span>
             </div>
 
-            {syncMeta.lastPushedAt > 0 && (
+            {lastSynced > 0 && (
               <div className="settings-info-row">
                 <span className="settings-info-label">Last synced</span>
-                <span className="settings-info-value">{timeAgo(syncMeta.lastPushedAt)}</span>
+                <span className="settings-info-value">{timeAgo(lastSynced)}</span>
               </div>
             )}
 
             <div className="settings-actions">
+              <button
+                className="btn-primary"
+                onClick={sync.syncNow}
+                disabled={sync.status === 'syncing'}
+              >
+                {sync.status === 'conflict' ? 'Resolve Conflicts' : 'Sync Now'}
+              </button>
               <button
                 className="btn-secondary"
                 onClick={handlePush}
@@ -282,17 +435,68 @@ export function Settings() {
               </button>
             </div>
 
+            {sync.status === 'conflict' && (
+              <p className="sync-status sync-status--error">
+                Sync is paused: some trades were changed on this device and another one. Resolve the conflicts to continue.
+              </p>
+            )}
+            {sync.status === 'error' && sync.error && (
+              <p className="sync-status sync-status--error">{sync.error}</p>
+            )}
+            {sync.status === 'error' && syncCfg.provider === 'folder' && (
+              <div className="settings-actions">
+                <button className="btn-secondary" onClick={allowFolderAccess}>Allow Folder Access</button>
+              </div>
+            )}
+
             {syncStatus !== 'idle' && syncMsg && (
               <p className={`sync-status sync-status--${syncStatus === 'error' ? 'error' : 'ok'}`}>
                 {syncMsg}
               </p>
             )}
 
+            {(syncMeta.remoteSchemaVersion ?? 0) > SCHEMA_VERSION && (
+              <p className="sync-status sync-status--error">
+                The cloud copy was saved by a newer version of CRTV. Update the app on this device — sync is paused so it isn't overwritten.
+              </p>
+            )}
+
             <p className="text-dim" style={{ marginTop: 4 }}>
-              Changes auto-push within 2 s. The app auto-pulls when it regains focus
-              and the cloud copy is newer than your local data.
+              Changes sync within 2 s and whenever the app regains focus. Edits from
+              different devices are merged trade by trade; if both changed the same trade,
+              you choose which copy to keep. Push and Pull replace the whole journal on one side.
             </p>
 
+            <SyncPassphrase key={`${syncEndpoint(syncCfg)}|${syncCfg.syncKey}`} config={syncCfg} />
+
+            <SyncSnapshots key={`snapshots|${syncEndpoint(syncCfg)}|${syncCfg.syncKey}`} config={syncCfg} onRestore={handleSnapshot} />
+
+            <div className="settings-info-row">
+              <span className="settings-info-label">Screenshots</span>
+              <span className="settings-info-value">
+                {settings.imageSyncLimitMb === 0
+                  ? 'Kept on each device'
+                  : `${(sync.images.usedBytes / 1024 / 1024).toFixed(1)} of ${settings.imageSyncLimitMb} MB used`
+                    + (sync.images.pending > 0 ? ` · ${sync.images.pending} waiting to upload` : '')}
+              </span>
+            </div>
+            <GlassInput
+              label="Screenshot storage limit (MB, 0 to keep them on each device)"
+              type="number"
+              min="0"
+              step="50"
+              value={String(settings.imageSyncLimitMb)}
+              onChange={e => update({ imageSyncLimitMb: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            {sync.images.limitReached && (
+              <p className="sync-status sync-status--error">
+                The storage limit is reached, so new screenshots stay on this device. Raise the limit to upload them.
+              </p>
+            )}
+            {sync.images.error && (
+              <p className="sync-status sync-status--error">Screenshot upload failed: {sync.images.error}</p>
+            )}
+
             <div className="sync-manage-row">
               <button className="btn-link" onClick={() => setShowSetupForm(true)}>Edit configuration</button>
               <button className="btn-link btn-link--danger" onClick={handleDisconnect}>Disconnect</button>
@@ -301,53 +505,7 @@ export function Settings() {
         ) : (
           /* ── Setup / Input form view ── */
           <>
-            <p className="text-dim" style={{ lineHeight: 1.6 }}>
-              Sync your journal across devices via{' '}
-              <a
-                href="https://supabase.com"
-                target="_blank"
-                rel="noreferrer"
-                className="sync-link"
-              >
-                Supabase
-              </a>
-              . Create a free project, run the setup SQL to create the{' '}
-              <code>journals</code> table, then paste your Project URL, anon key,
-              and a sync key below.
-            </p>
-
-            <GlassInput
-              label="Supabase Project URL"
-              placeholder="https://xyzcompany.supabase.co"
-              value={syncCfg.supabaseUrl}
-              onChange={e => updateSyncCfg({ supabaseUrl: e.target.value.trim() })}
-            />
-            {supabaseUrlError && <p className="glass-error">{supabaseUrlError}</p>}
-
-            <GlassInput
-              label="Anon Public Key"
-              placeholder="Paste your anon public key here"
-              value={syncCfg.anonKey}
-              onChange={e => updateSyncCfg({ anonKey: e.target.value.trim() })}
-            />
-
-            <div className="sync-key-row">
-              <div style={{ flex: 1 }}>
-                <GlassInput
-                  label="Sync Key  (shared secret — use the same key on every device)"
-                  placeholder="XXXX-XXXX-XXXX"
-                  value={syncCfg.syncKey}
-                  onChange={e => updateSyncCfg({ syncKey: e.target.value.trim() })}
-                />
-              </div>
-              <button
-                className="btn-secondary sync-gen-btn"
-                onClick={handleGenKey}
-                title="Generate a new random sync key"
-              >
-                Generate
-              </button>
-            </div>
+            <SyncProviderForm config={syncCfg} onChange={updateSyncCfg} />
 
             {syncMeta.lastPushedAt > 0 && (
               <div className="settings-info-row">
@@ -379,7 +537,7 @@ export function Settings() {
               </p>
             )}
 
-            {syncCfg.supabaseUrl && syncCfg.anonKey && syncCfg.syncKey && (
+            {syncReady && (
               <button className="btn-link" onClick={() => setShowSetupForm(false)}>← Back to sync status</button>
             )}
           </>
@@ -389,6 +547,29 @@ export function Settings() {
       <div className="settings-footer">
         <p className="text-dim">CRTV Trading Journal</p>
       </div>
+
+      {pendingImport && (
+        <MergeImport
+          incoming={pendingImport}
+          onClose={applied => {
+            if (applied) restoredImages.current = [];
+            else discardRestoredImages();
+            setPendingImport(null);
+          }}
+        />
+      )}
+      {pendingLoad && (
+        <RepairReport
+          report={pendingLoad.report}
+          action={pendingLoad.source === 'cloud' ? 'Pull from Cloud' : pendingLoad.source === 'snapshot' ? 'Restore Snapshot' : 'Import'}
+          note={pendingLoad.source === 'import' ? 'You can merge or replace on the next step.' : 'Continuing replaces your current data.'}
+          onLoad={resolvePendingLoad}
+          onAbort={() => {
+            if (pendingLoad.source === 'import') discardRestoredImages();
+            setPendingLoad(null);
+          }}
+        />
+      )}
     </div>
   );
 }
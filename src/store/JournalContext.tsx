@@ -1,7 +1,12 @@
-import { createContext, useContext, useReducer, useEffect, useRef, useCallback, type ReactNode } from 'react';
-import type { Trade, AppSettings, JournalState } from '../types/trade';
-import { defaultSettings } from './seed';
-import { loadSyncConfig, pushToCloud } from '../utils/cloudSync';
+import { createContext, useContext, useReducer, useState, useEffect, useCallback, type ReactNode } from 'react';
+import type { Trade, AppSettings, Instrument, Account, JournalState, TaxonomyKind, TaxonomyItem, DailyEntry, Review, TradeTemplate } from '../types/trade';
+import { emptyState, withDefaults } from './seed';
+import { renameInTemplate, renameInTrade } from '../utils/taxonomy';
+import { migrate, toPersisted, NewerSchemaError } from './migrations';
+import { validateJournal } from './validation';
+import { referencedImages } from '../utils/backup';
+import { pruneDrafts } from '../utils/drafts';
+import { deleteImages, listImages } from '../utils/imageStore';
 
 const STORAGE_KEY = 'crtv_journal';
 
@@ -9,101 +14,443 @@ type Action =
   | { type: 'ADD_TRADE'; trade: Trade }
   | { type: 'UPDATE_TRADE'; trade: Trade }
   | { type: 'DELETE_TRADE'; id: string }
+  | { type: 'UPSERT_TRADES'; trades: Trade[] }
+  | { type: 'DELETE_TRADES'; ids: string[] }
   | { type: 'UPDATE_SETTINGS'; settings: Partial<AppSettings> }
+  | { type: 'UPSERT_INSTRUMENT'; instrument: Instrument }
+  | { type: 'DELETE_INSTRUMENT'; id: string }
+  | { type: 'UPSERT_ACCOUNT'; account: Account }
+  | { type: 'DELETE_ACCOUNT'; id: string }
+  | { type: 'UPSERT_TAXONOMY_ITEM'; kind: TaxonomyKind; item: TaxonomyItem }
+  | { type: 'MOVE_TAXONOMY_ITEM'; kind: TaxonomyKind; id: string; delta: -1 | 1 }
+  | { type: 'UPSERT_DAILY_ENTRY'; entry: DailyEntry }
+  | { type: 'DELETE_DAILY_ENTRY'; date: string }
+  | { type: 'UPSERT_REVIEW'; review: Review }
+  | { type: 'DELETE_REVIEW'; id: string }
+  | { type: 'UPSERT_TEMPLATE'; template: TradeTemplate }
+  | { type: 'DELETE_TEMPLATE'; id: string }
   | { type: 'RESET_JOURNAL' }
-  | { type: 'LOAD_STATE'; state: JournalState };
+  | { type: 'REKEY_IMAGES'; keyMap: Record<string, string> }
+  | { type: 'LOAD_STATE'; state: Partial<JournalState>; source?: 'import' | 'cloud' | 'merge' | 'sync' };
 
-function loadState(): JournalState {
+/** Undo steps kept in memory. History is not persisted across reloads. */
+const HISTORY_LIMIT = 50;
+
+interface History {
+  past: JournalState[];
+  present: JournalState;
+  future: JournalState[];
+  /** The last recorded change; `seq` increments so repeated labels still register as new */
+  last?: JournalChange;
+}
+
+export interface JournalChange {
+  label: string;
+  /** Deletes, bulk edits and wholesale replacements — these get an Undo toast */
+  destructive: boolean;
+  seq: number;
+}
+
+type HistoryAction = Action | { type: 'UNDO' } | { type: 'REDO' };
+
+interface StoredJournal {
+  state: JournalState;
+  /** Schema version of saved data this app is too old to migrate */
+  newerSchema?: number;
+  /** Set when saved data was read and migrated, so it can say which screenshots and drafts are still in use */
+  complete?: boolean;
+}
+
+/** Saved data is repaired without asking — there is nothing to go back to — but the report is logged. */
+function repairStored(data: Partial<JournalState>): Partial<JournalState> {
+  const report = validateJournal(data);
+  if (report.issues.length) console.warn('[CRTV] Repaired saved journal data:', report.issues);
+  return report.repaired;
+}
+
+function loadState(): StoredJournal {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (raw) {
-      return JSON.parse(raw) as JournalState;
+      const parsed: unknown = JSON.parse(raw);
+      try {
+        return { state: withDefaults(repairStored(migrate(parsed))), complete: true };
+      } catch (err) {
+        if (!(err instanceof NewerSchemaError)) throw err;
+        // Show what we can, but the provider won't write it back
+        return { state: withDefaults(repairStored(parsed as Partial<JournalState>)), newerSchema: err.version };
+      }
     }
   } catch {
     // localStorage unavailable or invalid JSON — start fresh
   }
-  return { trades: [], settings: defaultSettings };
+  return { state: emptyState() };
+}
+
+/**
+ * Undo history lives in memory, so screenshots and edit drafts kept for an undo
+ * (a reset, a deleted trade) have no owner after a reload. Deletes blobs nothing
+ * references and edit drafts whose trade is gone.
+ */
+async function removeOrphans(state: JournalState): Promise<void> {
+  const stored = await listImages();
+  const drafts = pruneDrafts(new Set(state.trades.map(t => t.id)));
+  const used = new Set([
+    ...referencedImages(state),
+    ...drafts.flatMap(d => [...d.fields.imageIds, ...d.stagedImageIds]),
+  ]);
+  await deleteImages(stored.filter(id => !used.has(id)));
 }
 
 function saveState(state: JournalState): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toPersisted(state)));
   } catch {
     // localStorage unavailable — ignore
   }
 }
 
+/** Stamps a changed trade so sync can tell which device edited it last. */
+const touch = (t: Trade, now: string): Trade => ({ ...t, updatedAt: now });
+
+/** Tombstones for `ids`, or without them when those trades come back. */
+function withTombstones(deleted: Record<string, string>, ids: string[], now?: string): Record<string, string> {
+  const next = { ...deleted };
+  for (const id of ids) {
+    if (now) next[id] = now;
+    else delete next[id];
+  }
+  return next;
+}
+
 function reducer(state: JournalState, action: Action): JournalState {
+  const now = new Date().toISOString();
   switch (action.type) {
     case 'ADD_TRADE':
-      return { ...state, trades: [action.trade, ...state.trades] };
+      return {
+        ...state,
+        trades: [touch(action.trade, now), ...state.trades],
+        deletedTrades: withTombstones(state.deletedTrades, [action.trade.id]),
+      };
     case 'UPDATE_TRADE':
       return {
         ...state,
-        trades: state.trades.map(t => t.id === action.trade.id ? action.trade : t),
+        trades: state.trades.map(t => t.id === action.trade.id ? touch(action.trade, now) : t),
       };
     case 'DELETE_TRADE':
-      return { ...state, trades: state.trades.filter(t => t.id !== action.id) };
+      return {
+        ...state,
+        trades: state.trades.filter(t => t.id !== action.id),
+        deletedTrades: withTombstones(state.deletedTrades, [action.id], now),
+      };
+    case 'UPSERT_TRADES': {
+      // Bulk edits, and restoring trades a bulk delete removed
+      const byId = new Map(action.trades.map(t => [t.id, touch(t, now)]));
+      const updated = state.trades.map(t => byId.get(t.id) ?? t);
+      const known = new Set(state.trades.map(t => t.id));
+      const added = [...byId.values()].filter(t => !known.has(t.id));
+      return { ...state, trades: [...added, ...updated], deletedTrades: withTombstones(state.deletedTrades, [...byId.keys()]) };
+    }
+    case 'DELETE_TRADES': {
+      const ids = new Set(action.ids);
+      return {
+        ...state,
+        trades: state.trades.filter(t => !ids.has(t.id)),
+        deletedTrades: withTombstones(state.deletedTrades, action.ids, now),
+      };
+    }
     case 'UPDATE_SETTINGS':
       return { ...state, settings: { ...state.settings, ...action.settings } };
-    case 'RESET_JOURNAL': {
-      try { localStorage.removeItem(STORAGE_KEY); } catch { /* ignore */ }
-      return { trades: [], settings: defaultSettings };
+    case 'UPSERT_INSTRUMENT': {
+      const exists = state.instruments.some(i => i.id === action.instrument.id);
+      return {
+        ...state,
+        instruments: exists
+          ? state.instruments.map(i => i.id === action.instrument.id ? action.instrument : i)
+          : [...state.instruments, action.instrument],
+      };
+    }
+    case 'DELETE_INSTRUMENT':
+      return { ...state, instruments: state.instruments.filter(i => i.id !== action.id) };
+    case 'UPSERT_ACCOUNT': {
+      const exists = state.accounts.some(a => a.id === action.account.id);
+      return {
+        ...state,
+        accounts: exists
+          ? state.accounts.map(a => a.id === action.account.id ? action.account : a)
+          : [...state.accounts, action.account],
+      };
     }
+    case 'DELETE_ACCOUNT':
+      // Trades stay in the journal but become unassigned
+      return {
+        ...state,
+        accounts: state.accounts.filter(a => a.id !== action.id),
+        trades: state.trades.map(t => t.accountId === action.id ? touch({ ...t, accountId: undefined }, now) : t),
+        settings: state.settings.activeAccountId === action.id
+          ? { ...state.settings, activeAccountId: undefined }
+          : state.settings,
+      };
+    case 'UPSERT_TAXONOMY_ITEM': {
+      const list = state.taxonomies[action.kind];
+      const prev = list.find(i => i.id === action.item.id);
+      // A rename carries over to every trade and template that used the old label
+      const renamed = prev && prev.label !== action.item.label;
+      const trades = renamed
+        ? state.trades.map(t => {
+          const next = renameInTrade(t, action.kind, prev.label, action.item.label);
+          return next === t ? t : touch(next, now);
+        })
+        : state.trades;
+      const templates = renamed
+        ? state.templates.map(t => renameInTemplate(t, action.kind, prev.label, action.item.label))
+        : state.templates;
+      return {
+        ...state,
+        trades,
+        templates,
+        taxonomies: {
+          ...state.taxonomies,
+          [action.kind]: prev
+            ? list.map(i => i.id === action.item.id ? action.item : i)
+            : [...list, action.item],
+        },
+      };
+    }
+    case 'MOVE_TAXONOMY_ITEM': {
+      const list = [...state.taxonomies[action.kind]];
+      const from = list.findIndex(i => i.id === action.id);
+      const to = from + action.delta;
+      if (from < 0 || to < 0 || to >= list.length) return state;
+      [list[from], list[to]] = [list[to], list[from]];
+      return { ...state, taxonomies: { ...state.taxonomies, [action.kind]: list } };
+    }
+    case 'UPSERT_DAILY_ENTRY':
+      return { ...state, dailyEntries: { ...state.dailyEntries, [action.entry.date]: action.entry } };
+    case 'DELETE_DAILY_ENTRY': {
+      const dailyEntries = { ...state.dailyEntries };
+      delete dailyEntries[action.date];
+      return { ...state, dailyEntries };
+    }
+    case 'UPSERT_REVIEW': {
+      const exists = state.reviews.some(r => r.id === action.review.id);
+      return {
+        ...state,
+        reviews: exists
+          ? state.reviews.map(r => r.id === action.review.id ? action.review : r)
+          : [...state.reviews, action.review],
+      };
+    }
+    case 'DELETE_REVIEW':
+      return { ...state, reviews: state.reviews.filter(r => r.id !== action.id) };
+    case 'UPSERT_TEMPLATE': {
+      const exists = state.templates.some(t => t.id === action.template.id);
+      return {
+        ...state,
+        templates: exists
+          ? state.templates.map(t => t.id === action.template.id ? action.template : t)
+          : [...state.templates, action.template],
+      };
+    }
+    case 'DELETE_TEMPLATE':
+      return { ...state, templates: state.templates.filter(t => t.id !== action.id) };
+    case 'RESET_JOURNAL':
+      // Tombstones survive the reset so other devices drop these trades too
+      return { ...emptyState(), deletedTrades: withTombstones(state.deletedTrades, state.trades.map(t => t.id), now) };
     case 'LOAD_STATE':
-      return action.state;
+      return withDefaults(action.state);
+    case 'REKEY_IMAGES': {
+      const moved = (urls?: string[]) => !!urls?.some(u => action.keyMap[u] !== undefined);
+      const rekey = (urls: string[]) => urls.map(u => action.keyMap[u] ?? u);
+      return {
+        ...state,
+        trades: state.trades.map(t => t.imageUrls && moved(t.imageUrls) ? touch({ ...t, imageUrls: rekey(t.imageUrls) }, now) : t),
+        dailyEntries: Object.fromEntries(Object.entries(state.dailyEntries).map(([date, e]) => [
+          date,
+          e.imageUrls && moved(e.imageUrls) ? { ...e, imageUrls: rekey(e.imageUrls), updatedAt: now } : e,
+        ])),
+      };
+    }
     default:
       return state;
   }
 }
 
+function describe(action: Action): { label: string; destructive: boolean } {
+  switch (action.type) {
+    case 'DELETE_TRADE': return { label: 'Trade deleted', destructive: true };
+    case 'DELETE_TRADES': return { label: `${action.ids.length} trade(s) deleted`, destructive: true };
+    case 'UPSERT_TRADES': return { label: `${action.trades.length} trade(s) updated`, destructive: true };
+    case 'DELETE_ACCOUNT': return { label: 'Account deleted', destructive: true };
+    case 'DELETE_INSTRUMENT': return { label: 'Instrument deleted', destructive: true };
+    case 'DELETE_DAILY_ENTRY': return { label: 'Daily entry deleted', destructive: true };
+    case 'DELETE_REVIEW': return { label: 'Review deleted', destructive: true };
+    case 'DELETE_TEMPLATE': return { label: 'Template deleted', destructive: true };
+    case 'RESET_JOURNAL': return { label: 'Journal reset', destructive: true };
+    case 'LOAD_STATE':
+      if (action.source === 'merge') return { label: 'Import merged', destructive: true };
+      return { label: action.source === 'cloud' ? 'Journal replaced from cloud' : 'Journal replaced by import', destructive: true };
+    case 'ADD_TRADE': return { label: 'Trade added', destructive: false };
+    case 'UPDATE_TRADE': return { label: 'Trade updated', destructive: false };
+    default: return { label: 'Change', destructive: false };
+  }
+}
+
+/** Replays one change onto a snapshot of the journal, or a part of one */
+type Patch = (value: unknown) => unknown;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRecordList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * The change from `before` to `after` as a patch that makes the same change to
+ * another snapshot. Lists of records are patched by id and objects by key, so
+ * whatever the change didn't touch keeps the snapshot's value. Null when nothing
+ * changed.
+ */
+function diffValue(before: unknown, after: unknown): Patch | null {
+  if (before === after) return null;
+  if (isRecordList(before) && isRecordList(after)) {
+    const previous = new Map(before.map(r => [r.id, r]));
+    const kept = new Set(after.map(r => r.id));
+    const removed = new Set(before.filter(r => !kept.has(r.id)).map(r => r.id));
+    const changed = new Map(after.filter(r => !sameValue(previous.get(r.id), r)).map(r => [r.id, r]));
+    if (!removed.size && !changed.size) return null;
+    return value => {
+      if (!isRecordList(value)) return after;
+      const next = value.filter(r => !removed.has(r.id)).map(r => changed.get(r.id) ?? r);
+      const present = new Set(next.map(r => r.id));
+      return [...next, ...[...changed.values()].filter(r => !present.has(r.id))];
+    };
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const removed = Object.keys(before).filter(key => !(key in after));
+    const changed = Object.keys(after).flatMap(key => {
+      const patch = diffValue(before[key], after[key]);
+      return patch ? [[key, patch] as const] : [];
+    });
+    if (!removed.length && !changed.length) return null;
+    return value => {
+      if (!isPlainObject(value)) return after;
+      const next = { ...value };
+      for (const key of removed) delete next[key];
+      for (const [key, patch] of changed) next[key] = patch(value[key]);
+      return next;
+    };
+  }
+  return sameValue(before, after) ? null : () => after;
+}
+
+/** Applies an edit made on this device as a new undo step. */
+function recordChange(history: History, action: Action): History {
+  const { past, present } = history;
+  const next = reducer(present, action);
+  if (next === present) return history;
+  return {
+    past: [...past, present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    last: { ...describe(action), seq: (history.last?.seq ?? 0) + 1 },
+  };
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function historyReducer(history: History, action: HistoryAction): History {
+  const { past, present, future } = history;
+  switch (action.type) {
+    case 'UNDO':
+      if (!past.length) return history;
+      return { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] };
+    case 'REDO':
+      if (!future.length) return history;
+      return { past: [...past, present], present: future[0], future: future.slice(1) };
+    case 'UPDATE_SETTINGS': {
+      // Preferences aren't undo steps; apply them across history so undo doesn't flip them back
+      const next = reducer(present, action);
+      const withSettings = (s: JournalState) => ({ ...s, settings: next.settings });
+      return { ...history, past: past.map(withSettings), present: next, future: future.map(withSettings) };
+    }
+    case 'REKEY_IMAGES': {
+      // Storage bookkeeping rather than an edit: every snapshot moves so undo never points at the old keys
+      const rekey = (s: JournalState) => reducer(s, action);
+      return { ...history, past: past.map(rekey), present: rekey(present), future: future.map(rekey) };
+    }
+    case 'LOAD_STATE': {
+      if (action.source !== 'sync') return recordChange(history, action);
+      // Another device's edits rather than one made here: rebase every snapshot onto
+      // them, so undo and redo step through local edits without dropping the synced ones
+      const next = reducer(present, action);
+      const patch = diffValue(present, next);
+      if (!patch) return history;
+      const rebase = (s: JournalState) => patch(s) as JournalState;
+      return { ...history, past: past.map(rebase), present: next, future: future.map(rebase) };
+    }
+    default:
+      return recordChange(history, action);
+  }
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function initHistory(present: JournalState): History {
+  return { past: [], present, future: [] };
+}
+
 interface JournalContextValue {
   state: JournalState;
   dispatch: React.Dispatch<Action>;
-  /** Call this before dispatching LOAD_STATE from a cloud pull to suppress the
-   *  resulting auto-push (prevents echoing the pulled data straight back). */
-  suppressNextPush: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Most recent recorded change, for the undo toast */
+  lastChange?: JournalChange;
+  /** Set when the saved journal was written by a newer app version. Nothing is
+   *  saved or synced while it is, so that data is never overwritten. */
+  newerSchema?: number;
 }
 
 const JournalContext = createContext<JournalContextValue | null>(null);
 
 export function JournalProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(reducer, undefined, loadState);
+  const [stored] = useState(loadState);
+  const { newerSchema } = stored;
+  const [history, dispatchHistory] = useReducer(historyReducer, stored.state, initHistory);
+  const state = history.present;
+  const dispatch = dispatchHistory as React.Dispatch<Action>;
+  const undo = useCallback(() => dispatchHistory({ type: 'UNDO' }), []);
+  const redo = useCallback(() => dispatchHistory({ type: 'REDO' }), []);
 
-  // Persist to localStorage on every state change
   useEffect(() => {
-    saveState(state);
-  }, [state]);
-
-  // Auto-push to cloud when state changes (debounced 2 s).
-  // skipNextPush guards against pushing state that was just pulled from the cloud.
-  // hasMounted guards against pushing the initial loaded state on first render,
-  // which could overwrite newer cloud data before the auto-pull completes.
-  const skipNextPush = useRef(false);
-  const hasMounted = useRef(false);
-  const suppressNextPush = useCallback(() => { skipNextPush.current = true; }, []);
+    if (stored.complete) removeOrphans(stored.state).catch(() => { /* IndexedDB unavailable — try again next load */ });
+  }, [stored]);
 
+  // Persist to localStorage on every state change
   useEffect(() => {
-    if (!hasMounted.current) {
-      hasMounted.current = true;
-      return;
-    }
-    if (skipNextPush.current) {
-      skipNextPush.current = false;
-      return;
-    }
-    const config = loadSyncConfig();
-    if (!config?.supabaseUrl || !config?.anonKey || !config?.syncKey) return;
-    const timer = setTimeout(() => {
-      pushToCloud(config, state).catch(err => {
-        console.warn('[CRTV] Auto-push failed:', err);
-      });
-    }, 2000);
-    return () => clearTimeout(timer);
-  }, [state]);
+    if (newerSchema === undefined) saveState(state);
+  }, [state, newerSchema]);
 
   return (
-    <JournalContext.Provider value={{ state, dispatch, suppressNextPush }}>
+    <JournalContext.Provider
+      value={{
+        state,
+        dispatch,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+        lastChange: history.last,
+        newerSchema,
+      }}
+    >
       {children}
     </JournalContext.Provider>
   );
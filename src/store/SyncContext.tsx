@@ -0,0 +1,206 @@
+import { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, type ReactNode } from 'react';
+import { useJournal } from './JournalContext';
+import { commitMerge, syncJournal, type PendingMerge, type SyncTarget } from './syncJournal';
+import { loadSyncConfig, loadSyncMeta } from '../utils/cloudSync';
+import { isSyncConfigured, type SyncConfig } from '../utils/syncProviders';
+import { PassphraseError } from '../utils/syncCrypto';
+import { referencedImages } from '../utils/backup';
+import { setRemoteImageSource } from '../utils/imageStore';
+import {
+  downloadImage,
+  enqueueImages,
+  queuedImages,
+  rekeyLegacyImages,
+  uploadQueuedImages,
+  type ImageSyncStatus,
+} from '../utils/imageSync';
+import { resolveSyncConflicts, type ConflictChoice, type SyncConflict } from '../utils/syncMerge';
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'conflict' | 'error';
+
+interface SyncContextValue {
+  status: SyncStatus;
+  /** Why the last sync failed, while status is 'error' */
+  error: string;
+  /** The last sync failed because this device has no passphrase for the encrypted cloud copy, or the wrong one */
+  passphraseNeeded: boolean;
+  lastSyncedAt: number;
+  /** Screenshot uploads after the last sync */
+  images: ImageSyncStatus;
+  /** Trades changed on both sides, while the conflict sheet is open */
+  conflicts: SyncConflict[];
+  /** Runs a sync now, including one paused on conflicts */
+  syncNow: () => void;
+  resolveConflicts: (choices: Record<string, ConflictChoice>) => void;
+  /** Closes the conflict sheet. Auto-sync stays paused until the next manual sync. */
+  postponeConflicts: () => void;
+}
+
+const SyncContext = createContext<SyncContextValue | null>(null);
+
+const NO_IMAGES: ImageSyncStatus = { pending: 0, usedBytes: 0, limitReached: false };
+
+/**
+ * Keeps the journal in step with the cloud copy: syncs on mount, when the
+ * window regains focus, and 2 s after each change — see store/syncJournal.ts
+ * for the sync itself. Screenshots upload after the journal, and download when
+ * first viewed.
+ */
+export function SyncProvider({ children }: { children: ReactNode }) {
+  const { state, dispatch, newerSchema } = useJournal();
+  const [status, setStatus] = useState<SyncStatus>(() => isSyncConfigured(loadSyncConfig()) ? 'idle' : 'off');
+  const [error, setError] = useState('');
+  const [passphraseNeeded, setPassphraseNeeded] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState(() => loadSyncMeta().lastSyncedAt ?? 0);
+  const [pending, setPending] = useState<PendingMerge | null>(null);
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [images, setImages] = useState<ImageSyncStatus>(() => {
+    const config = loadSyncConfig();
+    return isSyncConfigured(config) ? queuedImages(config) : NO_IMAGES;
+  });
+
+  const stateRef = useRef(state);
+  const running = useRef(false);
+  const paused = useRef(false);
+  useEffect(() => { stateRef.current = state; }, [state]);
+
+  // Screenshots missing on this device come from the bucket of whichever journal is configured now
+  useEffect(() => {
+    setRemoteImageSource(id => {
+      const config = loadSyncConfig();
+      return isSyncConfigured(config) ? downloadImage(config, id) : Promise.resolve(null);
+    });
+    return () => setRemoteImageSource(null);
+  }, []);
+
+  const target = useMemo<SyncTarget>(() => ({
+    current: () => stateRef.current,
+    apply: merged => dispatch({ type: 'LOAD_STATE', state: merged, source: 'sync' }),
+  }), [dispatch]);
+
+  const fail = useCallback((err: unknown) => {
+    setStatus('error');
+    setError(err instanceof Error ? err.message : String(err));
+    setPassphraseNeeded(err instanceof PassphraseError);
+  }, []);
+
+  const succeed = useCallback(() => {
+    setStatus('idle');
+    setError('');
+    setPassphraseNeeded(false);
+  }, []);
+
+  /** Re-keys legacy screenshots, then uploads what the bucket is missing, up to the storage limit. */
+  const syncImages = useCallback(async (config: SyncConfig) => {
+    const keys = referencedImages(stateRef.current);
+    const keyMap = await rekeyLegacyImages(keys);
+    // The re-keyed trades go up with the next sync
+    if (Object.keys(keyMap).length) dispatch({ type: 'REKEY_IMAGES', keyMap });
+    enqueueImages(config, keys.map(k => keyMap[k] ?? k));
+    const limitMb = stateRef.current.settings.imageSyncLimitMb;
+    setImages(limitMb > 0 ? await uploadQueuedImages(config, limitMb * 1024 * 1024) : queuedImages(config));
+  }, [dispatch]);
+
+  const runSync = useCallback(async (manual: boolean) => {
+    const config = loadSyncConfig();
+    if (!isSyncConfigured(config)) {
+      setStatus('off');
+      return;
+    }
+    // Data from a newer app version is never merged into or written back
+    if (newerSchema !== undefined || running.current || (paused.current && !manual)) return;
+    running.current = true;
+    paused.current = false;
+    setStatus('syncing');
+    try {
+      const outcome = await syncJournal(config, target);
+      if (outcome.kind === 'conflict') {
+        paused.current = true;
+        setPending(outcome.pending);
+        setSheetOpen(true);
+        setStatus('conflict');
+        return;
+      }
+      setLastSyncedAt(outcome.syncedAt);
+      succeed();
+      await syncImages(config);
+    } catch (err) {
+      fail(err);
+    } finally {
+      running.current = false;
+    }
+  }, [newerSchema, target, fail, succeed, syncImages]);
+
+  const resolveConflicts = useCallback(async (choices: Record<string, ConflictChoice>) => {
+    if (!pending || running.current) return;
+    setSheetOpen(false);
+    setPending(null);
+    running.current = true;
+    setStatus('syncing');
+    let done = false;
+    try {
+      const { config, merge, local, remoteUpdatedAt } = pending;
+      const syncedAt = await commitMerge(config, target, local, resolveSyncConflicts(merge, choices), { local: true, remote: true }, remoteUpdatedAt);
+      done = syncedAt !== null;
+      if (syncedAt !== null) {
+        setLastSyncedAt(syncedAt);
+        paused.current = false;
+        succeed();
+      }
+    } catch (err) {
+      fail(err);
+      done = true;
+    } finally {
+      running.current = false;
+    }
+    // Something changed while the sheet was open — merge again
+    if (!done) runSync(true);
+  }, [pending, target, fail, succeed, runSync]);
+
+  const postponeConflicts = useCallback(() => setSheetOpen(false), []);
+  const syncNow = useCallback(() => { runSync(true); }, [runSync]);
+
+  // Once on mount, then whenever the window regains focus
+  useEffect(() => {
+    runSync(false);
+    function onFocus() { runSync(false); }
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [runSync]);
+
+  // After local changes (debounced 2 s). The mount effect above covers the initial state.
+  const hasMounted = useRef(false);
+  useEffect(() => {
+    if (!hasMounted.current) {
+      hasMounted.current = true;
+      return;
+    }
+    const timer = setTimeout(() => runSync(false), 2000);
+    return () => clearTimeout(timer);
+  }, [state, runSync]);
+
+  return (
+    <SyncContext.Provider
+      value={{
+        status,
+        error,
+        passphraseNeeded,
+        lastSyncedAt,
+        images,
+        conflicts: sheetOpen && pending ? pending.merge.conflicts : [],
+        syncNow,
+        resolveConflicts,
+        postponeConflicts,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function useSync(): SyncContextValue {
+  const ctx = useContext(SyncContext);
+  if (!ctx) throw new Error('useSync must be used within SyncProvider');
+  return ctx;
+}
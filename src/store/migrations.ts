@@ -0,0 +1,57 @@
+import type { JournalState } from '../types/trade';
+
+/**
+ * Version of the persisted journal format. Bump it and add a step to MIGRATIONS
+ * whenever a change to JournalState needs existing data rewritten — additive
+ * optional fields don't, since withDefaults fills those in.
+ */
+export const SCHEMA_VERSION = 1;
+
+type RawJournal = Record<string, unknown>;
+
+/** MIGRATIONS[n] upgrades a version n-1 payload to version n. */
+const MIGRATIONS: Record<number, (raw: RawJournal) => RawJournal> = {
+  // 0 → 1: unversioned payloads. Every trade logged before lifecycle states existed was a closed trade.
+  1: raw => ({
+    ...raw,
+    trades: Array.isArray(raw.trades)
+      ? raw.trades.map(t => (t && typeof t === 'object' && !('status' in t) ? { ...t, status: 'closed' } : t))
+      : raw.trades,
+  }),
+};
+
+/** Thrown when data was written by a newer app version than this one understands. */
+export class NewerSchemaError extends Error {
+  readonly version: number;
+
+  constructor(version: number) {
+    super(`Data was saved by a newer version of CRTV (schema v${version}; this app reads up to v${SCHEMA_VERSION}). Update the app to open it.`);
+    this.name = 'NewerSchemaError';
+    this.version = version;
+  }
+}
+
+export function schemaVersionOf(raw: unknown): number {
+  const v = raw && typeof raw === 'object' ? (raw as RawJournal).schemaVersion : undefined;
+  return typeof v === 'number' ? v : 0;
+}
+
+/**
+ * Upgrades a parsed localStorage, import or cloud payload to the current schema, one step at a time.
+ * Throws NewerSchemaError for payloads from a newer app, and a plain Error for non-objects.
+ */
+export function migrate(raw: unknown): Partial<JournalState> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Not a CRTV journal');
+  const from = schemaVersionOf(raw);
+  if (from > SCHEMA_VERSION) throw new NewerSchemaError(from);
+  let data = raw as RawJournal;
+  for (let v = from + 1; v <= SCHEMA_VERSION; v++) data = MIGRATIONS[v](data);
+  const state = { ...data };
+  delete state.schemaVersion;
+  return state as Partial<JournalState>;
+}
+
+/** The journal as written to localStorage, exports and the cloud. */
+export function toPersisted<T extends object>(state: T): T & { schemaVersion: number } {
+  return { schemaVersion: SCHEMA_VERSION, ...state };
+}
@@ -1,7 +1,61 @@
-import type { AppSettings } from '../types/trade';
+import type { AppSettings, Instrument, JournalState, TaxonomyItem, Taxonomies } from '../types/trade';
 
 export const defaultSettings: AppSettings = {
   currency: 'USD',
+  pnlMode: 'net',
   blurIntensity: 24,
   theme: 'default',
+  imageSyncLimitMb: 500,
 };
+
+export const defaultInstruments: Instrument[] = [
+  { id: 'nq', symbol: 'NQ', assetClass: 'Futures', tickSize: 0.25, tickValue: 5, quoteCurrency: 'USD' },
+  { id: 'mnq', symbol: 'MNQ', assetClass: 'Futures', tickSize: 0.25, tickValue: 0.5, quoteCurrency: 'USD' },
+  { id: 'es', symbol: 'ES', assetClass: 'Futures', tickSize: 0.25, tickValue: 12.5, quoteCurrency: 'USD' },
+  { id: 'mes', symbol: 'MES', assetClass: 'Futures', tickSize: 0.25, tickValue: 1.25, quoteCurrency: 'USD' },
+  { id: 'cl', symbol: 'CL', assetClass: 'Futures', tickSize: 0.01, tickValue: 10, quoteCurrency: 'USD' },
+  { id: 'gc', symbol: 'GC', assetClass: 'Futures', tickSize: 0.1, tickValue: 10, quoteCurrency: 'USD' },
+  { id: 'eurusd', symbol: 'EURUSD', assetClass: 'Forex', tickSize: 0.00001, tickValue: 1, quoteCurrency: 'USD' },
+  { id: 'gbpusd', symbol: 'GBPUSD', assetClass: 'Forex', tickSize: 0.00001, tickValue: 1, quoteCurrency: 'USD' },
+  { id: 'aapl', symbol: 'AAPL', assetClass: 'Stocks', tickSize: 0.01, tickValue: 0.01, quoteCurrency: 'USD' },
+];
+
+function items(prefix: string, labels: string[]): TaxonomyItem[] {
+  return labels.map((label, i) => ({ id: `${prefix}-${i}`, label }));
+}
+
+export const defaultTaxonomies: Taxonomies = {
+  session: items('session', ['London', 'New York', 'Asian', 'Other']),
+  setup: items('setup', ['A++ Setup', 'A+ Setup', 'A Setup']),
+  strategy: items('strategy', [
+    'IFVG', 'FVG', 'Order Block', 'Breaker Block', 'Mitigation Block',
+    'Liquidity Sweep', 'Turtle Soup', 'Judas Swing', 'Market Structure Shift (MSS)',
+    'Displacement', 'OTE', 'Premium/Discount', 'Session High/Low Raid', 'Killzone Model',
+  ]),
+  emotion: items('emotion', ['Calm', 'Confident', 'Anxious', 'FOMO', 'Neutral', 'Focused']),
+  timeframe: items('timeframe', ['1m', '5m', '15m', '30m', '1H', '4H', 'D', 'W']),
+  mistake: items('mistake', [
+    'Early entry', 'Late entry', 'Moved stop', 'Oversized', 'Revenge trade',
+    'Missed exit', 'Cut winner early', 'No setup', 'Overtrading',
+  ]),
+};
+
+export function emptyState(): JournalState {
+  return { trades: [], settings: defaultSettings, instruments: defaultInstruments, accounts: [], taxonomies: defaultTaxonomies, dailyEntries: {}, reviews: [], templates: [], deletedTrades: {} };
+}
+
+/** Fills in fields that older saved/imported/pulled payloads don't have yet. */
+export function withDefaults(state: Partial<JournalState>): JournalState {
+  const empty = emptyState();
+  return {
+    trades: state.trades ?? empty.trades,
+    settings: { ...empty.settings, ...state.settings },
+    instruments: state.instruments ?? empty.instruments,
+    accounts: state.accounts ?? empty.accounts,
+    taxonomies: { ...empty.taxonomies, ...state.taxonomies },
+    dailyEntries: state.dailyEntries ?? empty.dailyEntries,
+    reviews: state.reviews ?? empty.reviews,
+    templates: state.templates ?? empty.templates,
+    deletedTrades: state.deletedTrades ?? empty.deletedTrades,
+  };
+}
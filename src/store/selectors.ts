@@ -0,0 +1,19 @@
+import type { Account, JournalState, Trade } from '../types/trade';
+import { isClosed } from '../utils/lifecycle';
+
+/** The account currently scoping the views, or undefined for "All accounts". */
+export function selectActiveAccount(state: JournalState): Account | undefined {
+  const id = state.settings.activeAccountId;
+  return id ? state.accounts.find(a => a.id === id) : undefined;
+}
+
+/** Trades visible under the global account switcher. */
+export function selectScopedTrades(state: JournalState): Trade[] {
+  const account = selectActiveAccount(state);
+  return account ? state.trades.filter(t => t.accountId === account.id) : state.trades;
+}
+
+/** Scoped trades with a final result — the basis for every performance stat. */
+export function selectClosedTrades(state: JournalState): Trade[] {
+  return selectScopedTrades(state).filter(isClosed);
+}
@@ -0,0 +1,99 @@
+/**
+ * One journal sync, without the React state around it (store/SyncContext.tsx):
+ * pull, merge record by record against the last synced base, and push the
+ * result only if the cloud copy hasn't moved on meanwhile.
+ */
+import type { JournalState } from '../types/trade';
+import { migrate, toPersisted } from './migrations';
+import { validateJournal } from './validation';
+import {
+  loadSyncBase,
+  saveSyncBase,
+  loadSyncMeta,
+  saveSyncMeta,
+  pullFromCloud,
+  pushToCloud,
+} from '../utils/cloudSync';
+import { RemoteChangedError, type SyncConfig } from '../utils/syncProviders';
+import { ensureImageKey } from '../utils/imageSync';
+import { mergeForSync, type SyncMerge } from '../utils/syncMerge';
+
+/** Attempts per sync when another device keeps pushing in between our pull and push */
+const MAX_ATTEMPTS = 3;
+
+/** The journal on this device, as the sync sees it */
+export interface SyncTarget {
+  current(): JournalState;
+  /** Replaces the journal with a merged one */
+  apply(merged: JournalState): void;
+}
+
+/** A merge waiting on the user's conflict choices */
+export interface PendingMerge {
+  config: SyncConfig;
+  merge: SyncMerge;
+  /** The local journal the merge was made from */
+  local: JournalState;
+  /** updated_at of the cloud copy it was merged with */
+  remoteUpdatedAt: number;
+}
+
+export type SyncOutcome =
+  | { kind: 'synced'; syncedAt: number }
+  | { kind: 'conflict'; pending: PendingMerge };
+
+/**
+ * Applies a merged journal locally and in the cloud. Returns when it synced, or
+ * null when either side moved on and the merge must be redone.
+ */
+export async function commitMerge(
+  config: SyncConfig,
+  target: SyncTarget,
+  local: JournalState,
+  merged: JournalState,
+  changes: { local: boolean; remote: boolean },
+  /** null when the cloud had no copy yet */
+  remoteUpdatedAt: number | null,
+): Promise<number | null> {
+  if (target.current() !== local) return null;
+  if (changes.local) target.apply(merged);
+  try {
+    if (changes.remote) await pushToCloud(config, toPersisted(merged), remoteUpdatedAt);
+  } catch (err) {
+    if (err instanceof RemoteChangedError) return null;
+    throw err;
+  }
+  saveSyncBase(config, toPersisted(merged));
+  const now = Date.now();
+  saveSyncMeta({ ...loadSyncMeta(), lastSyncedAt: now });
+  return now;
+}
+
+/** Syncs until the merge goes through or stops on conflicts. Throws RemoteChangedError after MAX_ATTEMPTS races. */
+export async function syncJournal(config: SyncConfig, target: SyncTarget): Promise<SyncOutcome> {
+  let newImageKey = false;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const local = target.current();
+    const remote = await pullFromCloud(config);
+    if (!remote) {
+      // First push for this key
+      const syncedAt = await commitMerge(config, target, local, local, { local: false, remote: true }, null);
+      if (syncedAt !== null) return { kind: 'synced', syncedAt };
+      continue;
+    }
+    const report = validateJournal(migrate(remote.state));
+    if (report.issues.length) {
+      throw new Error('The cloud copy has invalid records. Pull it from Settings → Cloud Sync to review them.');
+    }
+    const merge = mergeForSync(loadSyncBase(config), local, report.repaired);
+    // A new image key has to reach the cloud copy before any image is encrypted with it
+    newImageKey = ensureImageKey(config) || newImageKey;
+    if (merge.conflicts.length) {
+      return { kind: 'conflict', pending: { config, merge, local, remoteUpdatedAt: remote.updatedAt } };
+    }
+    const changes = { local: merge.changedLocal, remote: merge.changedRemote || newImageKey };
+    const syncedAt = await commitMerge(config, target, local, merge.state, changes, remote.updatedAt);
+    if (syncedAt !== null) return { kind: 'synced', syncedAt };
+  }
+  throw new RemoteChangedError();
+}
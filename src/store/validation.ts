@@ -0,0 +1,440 @@
+import type {
+  Account, AppSettings, DailyEntry, Execution, Instrument, JournalState, Review, TaxonomyItem, TaxonomyKind, Trade, TradeTemplate,
+} from '../types/trade';
+import { defaultSettings } from './seed';
+import { generateId } from '../utils/id';
+
+/** Problems found in one record, e.g. "Trade 3 (NQ)": ["pnl is not a number"]. */
+export interface RecordIssue {
+  record: string;
+  problems: string[];
+}
+
+export interface ValidationReport {
+  issues: RecordIssue[];
+  totalTrades: number;
+  /** Trades with at least one problem */
+  invalidTrades: number;
+  /** Invalid trades left out; invalid settings fields reset to their defaults */
+  skipped: Partial<JournalState>;
+  /** Every invalid field coerced or filled with a default */
+  repaired: Partial<JournalState>;
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => !!v && typeof v === 'object' && !Array.isArray(v);
+const isDate = (v: unknown): v is string => typeof v === 'string' && !isNaN(new Date(v).getTime());
+
+/** Finite number, or a numeric string such as "120.50". */
+function toNumber(v: unknown): number | undefined {
+  if (typeof v === 'number') return isFinite(v) ? v : undefined;
+  if (typeof v === 'string' && v.trim()) {
+    const n = Number(v.replace(/[,$\s]/g, ''));
+    return isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+/** Coerces each optional numeric field, deleting those that aren't numbers at all. */
+function coerceNumbers(r: Raw, keys: readonly string[], problems: string[]): void {
+  for (const key of keys) {
+    if (r[key] === undefined || (typeof r[key] === 'number' && isFinite(r[key]))) continue;
+    problems.push(`${key} is not a number`);
+    const n = toNumber(r[key]);
+    if (n === undefined) delete r[key];
+    else r[key] = n;
+  }
+}
+
+function dropNonText(r: Raw, keys: readonly string[], problems: string[]): void {
+  for (const key of keys) {
+    if (r[key] === undefined || typeof r[key] === 'string') continue;
+    problems.push(`${key} is not text`);
+    delete r[key];
+  }
+}
+
+function checkStringList(r: Raw, key: string, problems: string[]): void {
+  const list = r[key];
+  if (list === undefined || (Array.isArray(list) && list.every(v => typeof v === 'string'))) return;
+  problems.push(`${key} is not a list of text`);
+  if (Array.isArray(list)) r[key] = list.filter(v => typeof v === 'string');
+  else delete r[key];
+}
+
+const OPTIONAL_NUMBERS = ['commission', 'fees', 'entryPrice', 'stopLoss', 'takeProfit', 'exitPrice', 'positionSize', 'adherence'] as const;
+const OPTIONAL_STRINGS = ['accountId', 'plannedAt', 'openedAt', 'closedAt', 'emotion', 'notes'] as const;
+const LABEL_FIELDS = ['timeframe', 'session', 'setup', 'strategyType'] as const;
+const STRING_LISTS = ['tags', 'mistakes', 'imageUrls'] as const;
+const STATUSES = ['planned', 'open', 'closed', 'cancelled'];
+const RESULTS = ['Win', 'Loss', 'BE'];
+
+/** Returns the trade with every field coerced to its type, and what had to change. */
+function checkTrade(raw: Raw): { trade: Trade; problems: string[] } {
+  const problems: string[] = [];
+  const t: Raw = { ...raw };
+
+  if (typeof t.id !== 'string' || !t.id) {
+    problems.push('missing id');
+    t.id = generateId();
+  }
+
+  if (typeof t.symbol !== 'string' || !t.symbol.trim()) {
+    problems.push('missing symbol');
+    t.symbol = typeof t.symbol === 'number' ? String(t.symbol) : 'UNKNOWN';
+  }
+
+  if (t.direction !== 'Long' && t.direction !== 'Short') {
+    problems.push(`direction "${String(t.direction ?? '')}" is not Long or Short`);
+    t.direction = /^(short|sell)$/i.test(String(t.direction ?? '').trim()) ? 'Short' : 'Long';
+  }
+
+  if (!isDate(t.date)) {
+    problems.push(t.date === undefined ? 'missing date' : 'date is not a valid date');
+    const parsed = typeof t.date === 'number' ? new Date(t.date) : null;
+    t.date = parsed && !isNaN(parsed.getTime()) ? parsed.toISOString() : isDate(t.createdAt) ? t.createdAt : new Date().toISOString();
+  }
+  if (!isDate(t.createdAt)) {
+    problems.push('missing created date');
+    t.createdAt = t.date;
+  }
+  if (t.updatedAt !== undefined && !isDate(t.updatedAt)) {
+    problems.push('modified date is not a valid date');
+    delete t.updatedAt;
+  }
+
+  if (typeof t.pnl !== 'number' || !isFinite(t.pnl)) {
+    problems.push(t.pnl === undefined ? 'missing pnl' : 'pnl is not a number');
+    t.pnl = toNumber(t.pnl) ?? 0;
+  }
+
+  for (const key of LABEL_FIELDS) {
+    if (typeof t[key] !== 'string') {
+      if (t[key] !== undefined) problems.push(`${key} is not text`);
+      t[key] = t[key] === undefined || t[key] === null ? '' : String(t[key]);
+    }
+  }
+
+  if (t.status !== undefined && !STATUSES.includes(t.status as string)) {
+    problems.push(`unknown status "${String(t.status)}"`);
+    delete t.status;
+  }
+  if (t.hypotheticalResult !== undefined && !RESULTS.includes(t.hypotheticalResult as string)) {
+    problems.push('unknown hypothetical result');
+    delete t.hypotheticalResult;
+  }
+
+  coerceNumbers(t, OPTIONAL_NUMBERS, problems);
+  dropNonText(t, OPTIONAL_STRINGS, problems);
+  for (const key of STRING_LISTS) checkStringList(t, key, problems);
+
+  if (t.executions !== undefined) {
+    const fills = Array.isArray(t.executions) ? t.executions : [];
+    const valid = fills.filter((e): e is Execution =>
+      isObject(e) && (e.side === 'Buy' || e.side === 'Sell') && typeof e.quantity === 'number' && typeof e.price === 'number'
+      && typeof e.time === 'string' && typeof e.id === 'string');
+    if (!Array.isArray(t.executions) || valid.length !== fills.length) {
+      problems.push(Array.isArray(t.executions) ? `${fills.length - valid.length} invalid fill(s)` : 'fills are not a list');
+      t.executions = valid.length ? valid : undefined;
+    }
+    // A text fee would concatenate in fee sums and turn every net figure into NaN
+    if (valid.some(e => e.fee !== undefined && (typeof e.fee !== 'number' || !isFinite(e.fee)))) {
+      problems.push('fill fee is not a number');
+      t.executions = valid.map(e => {
+        if (e.fee === undefined || (typeof e.fee === 'number' && isFinite(e.fee))) return e;
+        const { fee, ...rest } = e;
+        const n = toNumber(fee);
+        return n === undefined ? rest : { ...rest, fee: n };
+      });
+    }
+  }
+
+  if (t.checklist !== undefined) {
+    const entries = Array.isArray(t.checklist) ? t.checklist : [];
+    const valid = entries.filter(c => isObject(c) && typeof c.rule === 'string' && typeof c.met === 'boolean');
+    if (!Array.isArray(t.checklist) || valid.length !== entries.length) {
+      problems.push('invalid checklist');
+      t.checklist = valid.length ? valid : undefined;
+    }
+  }
+
+  return { trade: t as unknown as Trade, problems };
+}
+
+/** Returns settings with invalid fields reset to their defaults, and what had to change. */
+function checkSettings(raw: unknown): { settings: AppSettings; problems: string[] } {
+  if (raw === undefined) return { settings: defaultSettings, problems: [] };
+  if (!isObject(raw)) return { settings: defaultSettings, problems: ['not a settings object'] };
+  const problems: string[] = [];
+  const s: Raw = { ...defaultSettings, ...raw };
+  if (typeof s.currency !== 'string' || !s.currency) {
+    problems.push('currency is not text');
+    s.currency = defaultSettings.currency;
+  }
+  if (s.pnlMode !== 'gross' && s.pnlMode !== 'net') {
+    problems.push(`unknown P&L mode "${String(s.pnlMode)}"`);
+    s.pnlMode = defaultSettings.pnlMode;
+  }
+  if (typeof s.blurIntensity !== 'number' || !isFinite(s.blurIntensity)) {
+    problems.push('blur intensity is not a number');
+    s.blurIntensity = toNumber(s.blurIntensity) ?? defaultSettings.blurIntensity;
+  }
+  if (!['default', 'warm', 'cool'].includes(s.theme as string)) {
+    problems.push(`unknown theme "${String(s.theme)}"`);
+    s.theme = defaultSettings.theme;
+  }
+  if (typeof s.imageSyncLimitMb !== 'number' || !isFinite(s.imageSyncLimitMb) || s.imageSyncLimitMb < 0) {
+    problems.push('screenshot storage limit is not a size');
+    s.imageSyncLimitMb = defaultSettings.imageSyncLimitMb;
+  }
+  if (s.activeAccountId !== undefined && typeof s.activeAccountId !== 'string') {
+    problems.push('active account is not an id');
+    delete s.activeAccountId;
+  }
+  return { settings: s as unknown as AppSettings, problems };
+}
+
+/** Sync bookkeeping: malformed tombstones are dropped without a report entry. */
+function checkTombstones(raw: unknown): Record<string, string> | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) return {};
+  return Object.fromEntries(Object.entries(raw).filter((e): e is [string, string] => isDate(e[1])));
+}
+
+/**
+ * Checks each record of a list with `check`, which repairs the record in place
+ * and returns false when it can't be used. Anything but a list gives undefined,
+ * so the defaults apply.
+ */
+function checkList<T>(
+  raw: unknown,
+  names: { list: string; item: string; label: string },
+  issues: RecordIssue[],
+  check: (r: Raw, problems: string[]) => boolean,
+): T[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    issues.push({ record: names.list, problems: ['not a list — defaults used'] });
+    return undefined;
+  }
+  const valid: T[] = [];
+  raw.forEach((item, i) => {
+    const problems: string[] = [];
+    const r: Raw = isObject(item) ? { ...item } : {};
+    const usable = isObject(item) ? check(r, problems) : (problems.push('not a record'), false);
+    if (usable) valid.push(r as T);
+    else problems.push('dropped');
+    if (problems.length) {
+      const label = isObject(item) && typeof item[names.label] === 'string' && item[names.label] ? ` (${String(item[names.label])})` : '';
+      issues.push({ record: `${names.item} ${i + 1}${label}`, problems });
+    }
+  });
+  return valid;
+}
+
+/** Required text: the caller drops the record when it is missing. */
+function hasText(r: Raw, key: string, problems: string[]): boolean {
+  if (typeof r[key] === 'string' && r[key]) return true;
+  problems.push(`missing ${key}`);
+  return false;
+}
+
+function checkEnum(r: Raw, key: string, allowed: readonly string[], fallback: string | undefined, problems: string[]): void {
+  if (r[key] === undefined && fallback === undefined) return;
+  if (allowed.includes(r[key] as string)) return;
+  problems.push(`unknown ${key} "${String(r[key] ?? '')}"`);
+  if (fallback === undefined) delete r[key];
+  else r[key] = fallback;
+}
+
+function checkInstrument(r: Raw, problems: string[]): boolean {
+  if (!hasText(r, 'id', problems) || !hasText(r, 'symbol', problems)) return false;
+  checkEnum(r, 'assetClass', ['Futures', 'Forex', 'Stocks', 'Crypto', 'Other'], 'Other', problems);
+  for (const key of ['tickSize', 'tickValue']) {
+    if (typeof r[key] === 'number' && r[key] > 0 && isFinite(r[key])) continue;
+    const n = toNumber(r[key]);
+    if (n === undefined || n <= 0) {
+      problems.push(`${key} is not a positive number`);
+      return false;
+    }
+    problems.push(`${key} is not a number`);
+    r[key] = n;
+  }
+  if (typeof r.quoteCurrency !== 'string' || !r.quoteCurrency) {
+    problems.push('quoteCurrency is not text');
+    r.quoteCurrency = 'USD';
+  }
+  coerceNumbers(r, ['commissionPerUnit', 'feePerUnit'], problems);
+  return true;
+}
+
+function checkAccount(r: Raw, problems: string[]): boolean {
+  if (!hasText(r, 'id', problems) || !hasText(r, 'name', problems)) return false;
+  checkEnum(r, 'type', ['Live', 'Funded', 'Demo'], 'Live', problems);
+  if (typeof r.baseCurrency !== 'string' || !r.baseCurrency) {
+    problems.push('baseCurrency is not text');
+    r.baseCurrency = 'USD';
+  }
+  if (typeof r.startingBalance !== 'number' || !isFinite(r.startingBalance)) {
+    problems.push('startingBalance is not a number');
+    r.startingBalance = toNumber(r.startingBalance) ?? 0;
+  }
+  dropNonText(r, ['broker'], problems);
+  return true;
+}
+
+function checkTaxonomyItem(r: Raw, problems: string[]): boolean {
+  if (!hasText(r, 'id', problems) || !hasText(r, 'label', problems)) return false;
+  dropNonText(r, ['color'], problems);
+  if (r.archived !== undefined && typeof r.archived !== 'boolean') {
+    problems.push('archived is not true or false');
+    r.archived = !!r.archived;
+  }
+  checkStringList(r, 'rules', problems);
+  return true;
+}
+
+const TAXONOMY_KINDS: TaxonomyKind[] = ['session', 'setup', 'strategy', 'emotion', 'timeframe', 'mistake'];
+
+/** Checks each known kind's list; a kind that isn't a list is left out so its defaults apply. */
+function checkTaxonomies(raw: unknown, issues: RecordIssue[]): Partial<Record<TaxonomyKind, TaxonomyItem[]>> | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    issues.push({ record: 'Taxonomies', problems: ['not a set of lists — defaults used'] });
+    return undefined;
+  }
+  const result: Partial<Record<TaxonomyKind, TaxonomyItem[]>> = {};
+  for (const kind of TAXONOMY_KINDS) {
+    const names = { list: `Taxonomy ${kind}`, item: `Taxonomy ${kind}`, label: 'label' };
+    const items = checkList<TaxonomyItem>(raw[kind], names, issues, checkTaxonomyItem);
+    if (items) result[kind] = items;
+  }
+  return result;
+}
+
+/** A missing edit time falls back to the period the record covers, so a synced copy with a real one wins. */
+function checkUpdatedAt(r: Raw, fallback: unknown, problems: string[]): void {
+  if (isDate(r.updatedAt)) return;
+  problems.push('modified date is not a valid date');
+  r.updatedAt = isDate(fallback) ? new Date(fallback).toISOString() : new Date(0).toISOString();
+}
+
+function checkDailyEntries(raw: unknown, issues: RecordIssue[]): Record<string, DailyEntry> | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    issues.push({ record: 'Daily entries', problems: ['not a set of days — defaults used'] });
+    return undefined;
+  }
+  const entries: Record<string, DailyEntry> = {};
+  for (const [date, entry] of Object.entries(raw)) {
+    if (!isObject(entry)) {
+      issues.push({ record: `Daily entry ${date}`, problems: ['not a record', 'dropped'] });
+      continue;
+    }
+    const problems: string[] = [];
+    const e: Raw = { ...entry };
+    if (e.date !== date) {
+      problems.push('date does not match its day');
+      e.date = date;
+    }
+    checkEnum(e, 'bias', ['Bullish', 'Bearish', 'Neutral'], undefined, problems);
+    dropNonText(e, ['keyLevels', 'news', 'plan', 'review'], problems);
+    coerceNumbers(e, ['mood', 'sleep', 'focus'], problems);
+    checkStringList(e, 'imageUrls', problems);
+    checkUpdatedAt(e, date, problems);
+    entries[date] = e as unknown as DailyEntry;
+    if (problems.length) issues.push({ record: `Daily entry ${date}`, problems });
+  }
+  return entries;
+}
+
+function checkReview(r: Raw, problems: string[]): boolean {
+  if (!hasText(r, 'id', problems) || !hasText(r, 'start', problems) || !hasText(r, 'end', problems)) return false;
+  if (r.period !== 'week' && r.period !== 'month') {
+    problems.push(`unknown period "${String(r.period ?? '')}"`);
+    return false;
+  }
+  const answers = Array.isArray(r.answers) ? r.answers : [];
+  const valid = answers.filter(a => isObject(a) && typeof a.prompt === 'string' && typeof a.answer === 'string');
+  if (!Array.isArray(r.answers) || valid.length !== answers.length) {
+    problems.push(Array.isArray(r.answers) ? `${answers.length - valid.length} invalid answer(s)` : 'answers are not a list');
+    r.answers = valid;
+  }
+  dropNonText(r, ['completedAt'], problems);
+  checkUpdatedAt(r, r.completedAt ?? r.end, problems);
+  return true;
+}
+
+const TEMPLATE_STRINGS = ['accountId', 'symbol', 'timeframe', 'session', 'setup', 'strategyType', 'emotion'] as const;
+
+function checkTemplate(r: Raw, problems: string[]): boolean {
+  if (!hasText(r, 'id', problems) || !hasText(r, 'name', problems)) return false;
+  if (!isObject(r.fields)) {
+    problems.push('fields are not a record');
+    r.fields = {};
+    return true;
+  }
+  const fields: Raw = { ...r.fields };
+  dropNonText(fields, TEMPLATE_STRINGS, problems);
+  checkEnum(fields, 'direction', ['Long', 'Short'], undefined, problems);
+  coerceNumbers(fields, ['positionSize'], problems);
+  checkStringList(fields, 'tags', problems);
+  r.fields = fields;
+  return true;
+}
+
+/**
+ * Checks every trade and the settings of a migrated payload before it replaces the journal.
+ * The other collections are the same in `skipped` and `repaired`: fields coerced, records
+ * that can't be used dropped, and a collection of the wrong shape left out so its defaults apply.
+ * Callers load `skipped` or `repaired` — never the raw data — once the user has picked.
+ */
+export function validateJournal(data: Partial<JournalState>): ValidationReport {
+  const issues: RecordIssue[] = [];
+  const skippedTrades: Trade[] = [];
+  const repairedTrades: Trade[] = [];
+  let invalidTrades = 0;
+
+  const rawTrades: unknown[] = Array.isArray(data.trades) ? data.trades : [];
+  if (data.trades !== undefined && !Array.isArray(data.trades)) {
+    issues.push({ record: 'Trades', problems: ['not a list — no trades can be loaded'] });
+  }
+  rawTrades.forEach((raw, i) => {
+    if (!isObject(raw)) {
+      invalidTrades++;
+      issues.push({ record: `Trade ${i + 1}`, problems: ['not a trade record — dropped'] });
+      return;
+    }
+    const { trade, problems } = checkTrade(raw);
+    repairedTrades.push(trade);
+    if (problems.length) {
+      invalidTrades++;
+      const symbol = typeof raw.symbol === 'string' && raw.symbol ? ` (${raw.symbol})` : '';
+      issues.push({ record: `Trade ${i + 1}${symbol}`, problems });
+    } else {
+      skippedTrades.push(trade);
+    }
+  });
+
+  const { settings, problems } = checkSettings(data.settings);
+  if (problems.length) issues.push({ record: 'Settings', problems });
+  const deletedTrades = checkTombstones(data.deletedTrades);
+
+  const rest: Partial<JournalState> = {
+    instruments: checkList<Instrument>(data.instruments, { list: 'Instruments', item: 'Instrument', label: 'symbol' }, issues, checkInstrument),
+    accounts: checkList<Account>(data.accounts, { list: 'Accounts', item: 'Account', label: 'name' }, issues, checkAccount),
+    taxonomies: checkTaxonomies(data.taxonomies, issues) as JournalState['taxonomies'] | undefined,
+    dailyEntries: checkDailyEntries(data.dailyEntries, issues),
+    reviews: checkList<Review>(data.reviews, { list: 'Reviews', item: 'Review', label: 'start' }, issues, checkReview),
+    templates: checkList<TradeTemplate>(data.templates, { list: 'Templates', item: 'Template', label: 'name' }, issues, checkTemplate),
+  };
+
+  return {
+    issues,
+    totalTrades: rawTrades.length,
+    invalidTrades,
+    skipped: { ...data, ...rest, trades: skippedTrades, settings, deletedTrades },
+    repaired: { ...data, ...rest, trades: repairedTrades, settings, deletedTrades },
+  };
+}
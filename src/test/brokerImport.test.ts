@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { BROKER_PRESETS, buildTrades, matchPreset } from '../utils/brokerImport';
+import { parseCsv, uniqueHeaders } from '../utils/csv';
+import type { Instrument } from '../types/trade';
+import { defaultInstruments } from '../store/seed';
+import mt4History from '../../public/samples/mt4-history.csv?raw';
+import mt5Positions from '../../public/samples/mt5-positions.csv?raw';
+import ninjaTraderExecutions from '../../public/samples/ninjatrader-executions.csv?raw';
+import tradingViewPaper from '../../public/samples/tradingview-paper.csv?raw';
+import tradovateOrders from '../../public/samples/tradovate-orders.csv?raw';
+
+/** Reads a sample the way the import sheet does: header row, preset match, then trades. */
+function importSample(text: string, instruments: Instrument[] = defaultInstruments) {
+  const [header, ...rows] = parseCsv(text);
+  const headers = uniqueHeaders(header);
+  const preset = matchPreset(headers, BROKER_PRESETS);
+  if (!preset) throw new Error('No preset matched');
+  return { preset, ...buildTrades(headers, rows, preset.mapping, { instruments }) };
+}
+
+describe('broker presets', () => {
+  it('names its sample for every preset', () => {
+    expect(BROKER_PRESETS.map(p => p.sample).sort()).toEqual([
+      'mt4-history.csv',
+      'mt5-positions.csv',
+      'ninjatrader-executions.csv',
+      'tradingview-paper.csv',
+      'tradovate-orders.csv',
+    ]);
+  });
+
+  it('imports the Tradovate orders sample', () => {
+    const { preset, trades, errors, skipped } = importSample(tradovateOrders);
+    expect(preset.id).toBe('tradovate');
+    expect(errors).toEqual([]);
+    // The cancelled order
+    expect(skipped).toBe(1);
+    expect(trades.map(t => [t.symbol, t.direction, t.status, t.pnl])).toEqual([
+      ['NQ', 'Long', 'closed', 640],
+      ['ES', 'Short', 'closed', -675],
+      ['MNQ', 'Long', 'closed', 254],
+    ]);
+    // Scaled out in two fills
+    expect(trades[0].executions?.map(e => [e.side, e.quantity, e.price])).toEqual([
+      ['Buy', 2, 20112.25],
+      ['Sell', 1, 20131.5],
+      ['Sell', 1, 20125],
+    ]);
+    expect(trades[0]).toMatchObject({ entryPrice: 20112.25, exitPrice: 20128.25, positionSize: 2 });
+  });
+
+  it('imports the NinjaTrader executions sample, splitting the reversing fill', () => {
+    const { preset, trades, errors, skipped } = importSample(ninjaTraderExecutions);
+    expect(preset.id).toBe('ninjatrader');
+    expect(errors).toEqual([]);
+    expect(skipped).toBe(0);
+    expect(trades.map(t => [t.symbol, t.direction, t.status, t.pnl])).toEqual([
+      ['MNQ', 'Long', 'closed', 78],
+      ['MES', 'Short', 'closed', 23.75],
+      ['MES', 'Long', 'closed', 17.5],
+    ]);
+    expect(trades[0].executions?.map(e => e.fee)).toEqual([1.86, 1.24, 0.62]);
+    // Buy 2 closes the short and opens a long, its fee shared between them
+    expect(trades[1].executions?.map(e => [e.side, e.quantity, e.fee])).toEqual([['Sell', 1, 0.62], ['Buy', 1, 0.62]]);
+    expect(trades[2].executions?.map(e => [e.side, e.quantity, e.fee])).toEqual([['Buy', 1, 0.62], ['Sell', 1, 0.62]]);
+  });
+
+  it('imports the TradingView paper trading sample, keeping the unclosed position open', () => {
+    const { preset, trades, errors, skipped } = importSample(tradingViewPaper);
+    expect(preset.id).toBe('tradingview');
+    expect(errors).toEqual([]);
+    // The cancelled stop
+    expect(skipped).toBe(1);
+    expect(trades.map(t => [t.symbol, t.direction, t.status, t.pnl])).toEqual([
+      ['NQ', 'Long', 'closed', 595],
+      ['AAPL', 'Long', 'closed', -27],
+      ['GC', 'Short', 'open', 0],
+    ]);
+    expect(trades[2]).toMatchObject({ entryPrice: 2668.4, positionSize: 2, exitPrice: undefined, closedAt: undefined });
+  });
+
+  it('reports rows it cannot use by line', () => {
+    const broken = tradovateOrders.replace('2146510,DEMO123456,2146510, Sell', '2146510,DEMO123456,2146510, Hold');
+    const { trades, errors } = importSample(broken);
+    expect(errors).toEqual([{ line: 6, message: 'Unrecognised side "Hold"' }]);
+    // Without its opening fill, the ES stop-out opens a position instead, listed after the closed trades
+    expect(trades.map(t => [t.symbol, t.direction, t.status])).toEqual([
+      ['NQ', 'Long', 'closed'],
+      ['MNQ', 'Long', 'closed'],
+      ['ES', 'Long', 'open'],
+    ]);
+  });
+
+  it('imports the MetaTrader 4 history sample, leaving out the balance row and the pending order', () => {
+    const { preset, trades, errors, skipped } = importSample(mt4History);
+    expect(preset.id).toBe('mt4');
+    expect(errors).toEqual([]);
+    expect(skipped).toBe(2);
+    expect(trades.map(t => [t.symbol, t.direction, t.positionSize, t.entryPrice, t.exitPrice, t.pnl, t.commission])).toEqual([
+      ['EURUSD', 'Long', 0.5, 1.1052, 1.10785, 132.5, 3.5],
+      ['GBPUSD', 'Short', 0.3, 1.3371, 1.33802, -27.6, 2.1],
+      ['EURUSD', 'Short', 1, 1.10402, 1.10111, 291, 7],
+    ]);
+    // Statement times are local to the device importing them
+    expect(trades[0]).toMatchObject({
+      openedAt: new Date(2024, 9, 1, 8, 15).toISOString(),
+      closedAt: new Date(2024, 9, 1, 11, 42, 10).toISOString(),
+    });
+  });
+
+  it('closes a position built from fractional fills', () => {
+    const [header] = tradingViewPaper.split('\n');
+    const fills = [
+      'BITSTAMP:BTCUSD,Buy,Market,0.1,,,62000,Filled,0,,,2024-10-04 14:30:05,2024-10-04 14:30:05,1',
+      'BITSTAMP:BTCUSD,Buy,Market,0.2,,,62100,Filled,0,,,2024-10-04 14:31:05,2024-10-04 14:31:05,2',
+      'BITSTAMP:BTCUSD,Sell,Market,0.3,,,62500,Filled,0,,,2024-10-04 15:02:00,2024-10-04 15:02:00,3',
+      'BITSTAMP:BTCUSD,Buy,Market,0.5,,,62400,Filled,0,,,2024-10-04 15:10:00,2024-10-04 15:10:00,4',
+    ];
+    const btc: Instrument = { id: 'btcusd', symbol: 'BTCUSD', assetClass: 'Crypto', tickSize: 0.01, tickValue: 0.01, quoteCurrency: 'USD' };
+
+    const { trades, errors } = importSample([header, ...fills].join('\n'), [...defaultInstruments, btc]);
+    expect(errors).toEqual([]);
+    // 0.1 + 0.2 isn't exactly 0.3; the round trip still closes, and the next buy starts its own trade
+    expect(trades.map(t => [t.symbol, t.status, t.executions?.length])).toEqual([
+      ['BTCUSD', 'closed', 3],
+      ['BTCUSD', 'open', 1],
+    ]);
+    expect(trades[0].pnl).toBeCloseTo(130, 6);
+    expect(trades[1].positionSize).toBe(0.5);
+  });
+
+  it('imports the MetaTrader 5 positions sample', () => {
+    const { preset, trades, errors, skipped } = importSample(mt5Positions);
+    expect(preset.id).toBe('mt5');
+    expect(errors).toEqual([]);
+    expect(skipped).toBe(0);
+    expect(trades.map(t => [t.symbol, t.direction, t.positionSize, t.entryPrice, t.exitPrice, t.pnl, t.commission])).toEqual([
+      ['GBPUSD', 'Short', 0.3, 1.3125, 1.31021, 68.7, 2.1],
+      ['EURUSD', 'Long', 0.5, 1.09844, 1.0979, -27, 3.5],
+      ['XAUUSD', 'Long', 0.1, 2651.2, 2659.85, 86.5, 0.7],
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { pullCloudSnapshot, pushToCloud, reencryptSnapshots, saveSyncSecret } from '../utils/cloudSync';
+import { setSyncTransport, type SyncConfig } from '../utils/syncProviders';
+import { deriveSecret, isEncryptedPayload, type SyncSecret } from '../utils/syncCrypto';
+import { createMemorySupabase, type MemorySupabase } from './memorySupabase';
+
+const config: SyncConfig = { provider: 'supabase', supabaseUrl: 'https://test.supabase.co', anonKey: 'anon', syncKey: 'TEST-KEY0-0001' };
+
+const HOUR = 60 * 60 * 1000;
+
+describe('snapshots when the passphrase changes', () => {
+  let backend: MemorySupabase;
+  let clock = Date.UTC(2024, 9, 1);
+
+  /** Pushes `state` an hour after the last push, so each push also keeps a snapshot. */
+  async function pushLater(state: unknown, secret: SyncSecret | null): Promise<void> {
+    clock += HOUR;
+    vi.setSystemTime(clock);
+    await pushToCloud(config, state, undefined, secret);
+  }
+
+  function snapshotPayloads(): unknown[] {
+    return backend.snapshots.map(r => JSON.parse(r.payload) as unknown);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    backend = createMemorySupabase();
+    setSyncTransport(backend.fetch);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('encrypts the snapshots kept from before encryption was turned on', async () => {
+    await pushLater({ schemaVersion: 1, trades: [{ id: 'first' }] }, null);
+    await pushLater({ schemaVersion: 1, trades: [{ id: 'second' }] }, null);
+    const secret = await deriveSecret('correct horse battery');
+    await pushLater({ schemaVersion: 1, trades: [{ id: 'third' }] }, secret);
+    expect(snapshotPayloads().filter(isEncryptedPayload)).toHaveLength(1);
+
+    expect(await reencryptSnapshots(config, null, secret)).toBe(0);
+
+    expect(snapshotPayloads().every(isEncryptedPayload)).toBe(true);
+    saveSyncSecret(config, secret);
+    const restored = await Promise.all(backend.snapshots.map(r => pullCloudSnapshot(config, String(r.updated_at))));
+    expect(restored.map(s => (s?.state as { trades: { id: string }[] }).trades[0].id).sort()).toEqual(['first', 'second', 'third']);
+  });
+
+  it('moves snapshots to the new passphrase and deletes any the old one cannot open', async () => {
+    const stranger = await deriveSecret('from another journal');
+    const previous = await deriveSecret('correct horse battery');
+    await pushLater({ schemaVersion: 1, trades: [{ id: 'unreadable' }] }, stranger);
+    await pushLater({ schemaVersion: 1, trades: [{ id: 'old' }] }, previous);
+    const next = await deriveSecret('staple tiger lantern');
+    await pushLater({ schemaVersion: 1, trades: [{ id: 'new' }] }, next);
+
+    expect(await reencryptSnapshots(config, previous, next)).toBe(1);
+
+    saveSyncSecret(config, next);
+    const restored = await Promise.all(backend.snapshots.map(r => pullCloudSnapshot(config, String(r.updated_at))));
+    expect(restored.map(s => (s?.state as { trades: { id: string }[] }).trades[0].id).sort()).toEqual(['new', 'old']);
+  });
+});
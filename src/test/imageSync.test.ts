@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { contentHashOf, storeImage } from '../utils/imageStore';
+import { downloadImage, enqueueImages, queuedImages, uploadQueuedImages } from '../utils/imageSync';
+import { setSyncTransport, syncKeyId, type SyncConfig } from '../utils/syncProviders';
+import { createMemorySupabase, type MemorySupabase } from './memorySupabase';
+
+const config: SyncConfig = { provider: 'supabase', supabaseUrl: 'https://test.supabase.co', anonKey: 'anon', syncKey: 'TEST-KEY0-0001' };
+
+/** A PNG-signed blob of `size` bytes; `seed` makes its content, and so its hash, distinct. */
+function screenshot(seed: number, size = 64): Blob {
+  const bytes = new Uint8Array(size).fill(seed);
+  bytes.set([0x89, 0x50, 0x4e, 0x47]);
+  return new Blob([bytes], { type: 'image/png' });
+}
+
+describe('screenshot sync', () => {
+  let backend: MemorySupabase;
+  let folder: string;
+
+  beforeEach(async () => {
+    backend = createMemorySupabase();
+    setSyncTransport(backend.fetch);
+    folder = await syncKeyId(config.syncKey);
+  });
+
+  it('keeps the upload queue across a reload', async () => {
+    const key = await storeImage(screenshot(1));
+    enqueueImages(config, [key]);
+    // The upload fails partway through the sync
+    setSyncTransport(() => Promise.reject(new TypeError('Failed to fetch')));
+    expect(await uploadQueuedImages(config, Infinity)).toMatchObject({ pending: 1, error: 'Failed to fetch' });
+
+    vi.resetModules();
+    const reloaded = await import('../utils/imageSync');
+    const providers = await import('../utils/syncProviders');
+    providers.setSyncTransport(backend.fetch);
+    expect(reloaded.queuedImages(config).pending).toBe(1);
+
+    expect(await reloaded.uploadQueuedImages(config, Infinity)).toMatchObject({ pending: 0, limitReached: false });
+    expect([...backend.objects.keys()]).toEqual([`${folder}/${contentHashOf(key)}`]);
+  });
+
+  it('stops uploading at the storage limit and leaves the rest queued', async () => {
+    const keys = [await storeImage(screenshot(1, 600)), await storeImage(screenshot(2, 600))];
+    enqueueImages(config, keys);
+
+    expect(await uploadQueuedImages(config, 1000)).toEqual({ pending: 1, usedBytes: 600, limitReached: true });
+    expect(backend.objects.size).toBe(1);
+    expect(queuedImages(config).pending).toBe(1);
+
+    // A higher limit lets the rest through
+    expect(await uploadQueuedImages(config, 2000)).toEqual({ pending: 0, usedBytes: 1200, limitReached: false });
+    expect(backend.objects.size).toBe(2);
+  });
+
+  it('uploads an image once however many keys share its content', async () => {
+    const first = await storeImage(screenshot(3));
+    const second = await storeImage(screenshot(3));
+    expect(contentHashOf(first)).toBe(contentHashOf(second));
+    enqueueImages(config, [first, second]);
+
+    await uploadQueuedImages(config, Infinity);
+    expect(backend.objects.size).toBe(1);
+    // Once uploaded, the hash isn't queued again
+    enqueueImages(config, [first, second]);
+    expect(queuedImages(config).pending).toBe(0);
+  });
+
+  it('skips an image another device already uploaded', async () => {
+    const key = await storeImage(screenshot(4));
+    const path = `${folder}/${contentHashOf(key)}`;
+    const theirs = screenshot(4);
+    backend.objects.set(path, theirs);
+    enqueueImages(config, [key]);
+
+    expect(await uploadQueuedImages(config, Infinity)).toMatchObject({ pending: 0, usedBytes: theirs.size });
+    expect(backend.objects.get(path)).toBe(theirs);
+  });
+
+  it('returns a downloaded image only if it matches the hash in its key', async () => {
+    const key = await storeImage(screenshot(5));
+    const path = `${folder}/${contentHashOf(key)}`;
+
+    backend.objects.set(path, screenshot(6));
+    expect(await downloadImage(config, key)).toBeNull();
+
+    backend.objects.set(path, screenshot(5));
+    const blob = await downloadImage(config, key);
+    expect(blob?.type).toBe('image/png');
+    expect(new Uint8Array(await blob!.arrayBuffer())).toEqual(new Uint8Array(await screenshot(5).arrayBuffer()));
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * In-memory stand-in for a REST sync server (see the protocol in
+ * syncProviders.ts): files by path with ETags and conditional PUTs, DELETE,
+ * and directory listings. `etags: false` mimics a server that sends no ETag
+ * header — or one whose CORS setup doesn't expose it.
+ *
+ *   const server = createMemoryRest('https://sync.example.com');
+ *   setSyncTransport(server.fetch);
+ */
+
+export interface MemoryRest {
+  fetch: typeof fetch;
+  /** Stored files, keyed by path below the server URL */
+  files: Map<string, { body: Blob; etag: string }>;
+}
+
+export function createMemoryRest(root: string, { etags = true } = {}): MemoryRest {
+  const files = new Map<string, { body: Blob; etag: string }>();
+  let version = 0;
+
+  async function handle(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!url.startsWith(`${root}/`)) return new Response(null, { status: 404 });
+    const path = decodeURIComponent(url.slice(root.length + 1));
+    const headers = new Headers(init?.headers);
+    const file = files.get(path);
+
+    switch (init?.method ?? 'GET') {
+      case 'GET': {
+        if (path.endsWith('/')) {
+          const listed = [...files]
+            .filter(([name]) => name.startsWith(path) && !name.slice(path.length).includes('/'))
+            .map(([name, f]) => ({ name: name.slice(path.length), size: f.body.size }));
+          return new Response(JSON.stringify(listed), { status: 200 });
+        }
+        if (!file) return new Response(null, { status: 404 });
+        return new Response(file.body, { status: 200, headers: etags ? { ETag: file.etag } : {} });
+      }
+      case 'PUT': {
+        const ifMatch = headers.get('If-Match');
+        if (headers.get('If-None-Match') === '*' && file) return new Response(null, { status: 412 });
+        if (ifMatch !== null && ifMatch !== file?.etag) return new Response(null, { status: 412 });
+        const body = init?.body instanceof Blob ? init.body : new Blob([String(init?.body ?? '')]);
+        files.set(path, { body, etag: `"${++version}"` });
+        return new Response(null, { status: file ? 204 : 201 });
+      }
+      case 'DELETE':
+        files.delete(path);
+        return new Response(null, { status: file ? 204 : 404 });
+      default:
+        return new Response(null, { status: 405 });
+    }
+  }
+
+  return { fetch: handle, files };
+}
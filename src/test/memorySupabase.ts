@@ -0,0 +1,149 @@
+/**
+ * In-memory stand-in for the Supabase REST endpoint — just the slice of
+ * PostgREST that the Supabase sync provider uses on the journals and
+ * journal_snapshots tables, plus upload, download and list on the screenshots
+ * Storage bucket. Install it with setSyncTransport() to exercise sync,
+ * including two devices racing, without a network or a Supabase project:
+ *
+ *   const backend = createMemorySupabase();
+ *   setSyncTransport(backend.fetch);
+ */
+
+interface Row {
+  sync_key: string;
+  payload: string;
+  updated_at: number;
+}
+
+export interface MemorySupabase {
+  fetch: typeof fetch;
+  /** Current rows, keyed by sync_key */
+  rows: Map<string, Row>;
+  /** journal_snapshots rows */
+  snapshots: Row[];
+  /** Screenshots bucket contents, keyed by object path */
+  objects: Map<string, Blob>;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/** "eq.value" filter from the query string */
+function eq(url: URL, column: string): string | null {
+  const filter = url.searchParams.get(column);
+  return filter?.startsWith('eq.') ? filter.slice(3) : null;
+}
+
+const STORAGE = '/storage/v1/object/';
+const BUCKET = 'screenshots';
+
+export function createMemorySupabase(): MemorySupabase {
+  const rows = new Map<string, Row>();
+  let snapshots: Row[] = [];
+  const objects = new Map<string, Blob>();
+
+  /** journal_snapshots: insert or upsert, newest-first reads with limit / offset, and delete one or older than */
+  function snapshotTable(url: URL, method: string, init?: RequestInit): Response {
+    const key = eq(url, 'sync_key');
+    const mine = snapshots.filter(r => r.sync_key === key);
+    switch (method) {
+      case 'GET': {
+        const at = eq(url, 'updated_at');
+        const offset = Number(url.searchParams.get('offset') ?? 0);
+        const limit = Number(url.searchParams.get('limit') ?? Infinity);
+        return json(mine
+          .filter(r => at === null || String(r.updated_at) === at)
+          .sort((a, b) => b.updated_at - a.updated_at)
+          .slice(offset, offset + limit));
+      }
+      case 'POST': {
+        const row = JSON.parse(String(init?.body ?? '{}')) as Row;
+        const existing = (r: Row) => r.sync_key === row.sync_key && r.updated_at === row.updated_at;
+        if (!snapshots.some(existing)) snapshots.push(row);
+        else if (new Headers(init?.headers).get('Prefer')?.includes('resolution=merge-duplicates')) {
+          snapshots = snapshots.map(r => existing(r) ? row : r);
+        }
+        return new Response(null, { status: 201 });
+      }
+      case 'DELETE': {
+        // "lt.<updated_at>" or "eq.<updated_at>"
+        const [op, value] = (url.searchParams.get('updated_at') ?? '').split('.');
+        snapshots = snapshots.filter(r => r.sync_key !== key || (op === 'lt' ? r.updated_at >= Number(value) : String(r.updated_at) !== value));
+        return new Response(null, { status: 204 });
+      }
+      default:
+        return json({ message: `Method ${method} not allowed` }, 405);
+    }
+  }
+
+  async function storage(path: string, method: string, init?: RequestInit): Promise<Response> {
+    if (method === 'POST' && path === `list/${BUCKET}`) {
+      const { prefix = '', limit = 100, offset = 0 } = JSON.parse(String(init?.body ?? '{}')) as { prefix?: string; limit?: number; offset?: number };
+      const folder = prefix ? `${prefix.replace(/\/$/, '')}/` : '';
+      const listed = [...objects]
+        .filter(([name]) => name.startsWith(folder) && !name.slice(folder.length).includes('/'))
+        .map(([name, blob]) => ({ name: name.slice(folder.length), metadata: { size: blob.size } }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return json(listed.slice(offset, offset + limit));
+    }
+    if (method === 'GET' && path.startsWith(`authenticated/${BUCKET}/`)) {
+      const blob = objects.get(path.slice(`authenticated/${BUCKET}/`.length));
+      return blob ? new Response(blob, { status: 200 }) : json({ statusCode: '404', error: 'not_found', message: 'Object not found' }, 400);
+    }
+    if (method === 'POST' && path.startsWith(`${BUCKET}/`)) {
+      const name = path.slice(BUCKET.length + 1);
+      if (objects.has(name)) return json({ statusCode: '409', error: 'Duplicate', message: 'The resource already exists' }, 409);
+      objects.set(name, init?.body instanceof Blob ? init.body : new Blob([String(init?.body ?? '')]));
+      return json({ Key: `${BUCKET}/${name}` });
+    }
+    return json({ message: 'Not found' }, 404);
+  }
+
+  async function handle(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const headers = new Headers(init?.headers);
+    if (!headers.get('apikey')) return json({ message: 'No API key found in request' }, 401);
+    const storageAt = url.pathname.indexOf(STORAGE);
+    if (storageAt >= 0) return storage(decodeURIComponent(url.pathname.slice(storageAt + STORAGE.length)), init?.method ?? 'GET', init);
+    const method = init?.method ?? 'GET';
+    if (url.pathname.endsWith('/rest/v1/journal_snapshots')) return snapshotTable(url, method, init);
+    if (!url.pathname.endsWith('/rest/v1/journals')) return json({ message: 'Not found' }, 404);
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) as Partial<Row> : {};
+    const key = eq(url, 'sync_key');
+
+    switch (method) {
+      case 'GET': {
+        const row = key !== null ? rows.get(key) : undefined;
+        return json(row ? [{ payload: row.payload, updated_at: row.updated_at }] : []);
+      }
+      case 'POST': {
+        if (!body.sync_key || typeof body.payload !== 'string' || typeof body.updated_at !== 'number') {
+          return json({ message: 'null value violates not-null constraint' }, 400);
+        }
+        const upsert = headers.get('Prefer')?.includes('resolution=merge-duplicates');
+        if (rows.has(body.sync_key) && !upsert) {
+          return json({ code: '23505', message: 'duplicate key value violates unique constraint "journals_pkey"' }, 409);
+        }
+        rows.set(body.sync_key, { sync_key: body.sync_key, payload: body.payload, updated_at: body.updated_at });
+        return new Response(null, { status: 201 });
+      }
+      case 'PATCH': {
+        const row = key !== null ? rows.get(key) : undefined;
+        const expected = eq(url, 'updated_at');
+        if (!row || (expected !== null && String(row.updated_at) !== expected)) return json([]);
+        const next = { ...row, ...body, sync_key: row.sync_key };
+        rows.set(row.sync_key, next);
+        return json([next]);
+      }
+      default:
+        return json({ message: `Method ${method} not allowed` }, 405);
+    }
+  }
+
+  return {
+    fetch: handle,
+    rows,
+    get snapshots() { return snapshots; },
+    objects,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Trade } from '../types/trade';
+import { emptyState } from '../store/seed';
+import { diffTrades, mergeJournal } from '../utils/merge';
+
+function trade(id: string, fields: Partial<Trade> = {}): Trade {
+  return {
+    id,
+    createdAt: '2024-09-02T14:00:00.000Z',
+    date: '2024-09-02T14:00:00.000Z',
+    symbol: 'ES',
+    direction: 'Long',
+    timeframe: '5m',
+    session: 'New York',
+    setup: 'Breakout',
+    strategyType: 'Momentum',
+    pnl: 250,
+    ...fields,
+  };
+}
+
+describe('merge-import', () => {
+  it('matches by id before fingerprint, so a trade is never claimed twice', () => {
+    const local = [trade('a')];
+    // Same fingerprint as "a" but its own id, listed before the incoming copy of "a" itself
+    const lookalike = trade('x', { notes: 'Logged again on the laptop' });
+    const sameId = trade('a', { notes: 'Edited on the laptop' });
+
+    const matches = diffTrades(local, [lookalike, sameId]);
+
+    expect(matches.map(m => [m.kind, m.by, m.incoming.id])).toEqual([
+      ['new', undefined, 'x'],
+      ['changed', 'id', 'a'],
+    ]);
+  });
+
+  it('gives a new trade a fresh id when its id is already taken', () => {
+    const local = [trade('a')];
+    const incoming = [trade('a', { notes: 'First copy' }), trade('a', { symbol: 'NQ', pnl: -80 })];
+
+    const matches = diffTrades(local, incoming);
+    expect(matches.map(m => m.kind)).toEqual(['changed', 'new']);
+    expect(matches[1].incoming.id).not.toBe('a');
+
+    const merged = mergeJournal({ ...emptyState(), trades: local }, { trades: incoming }, matches, new Set());
+    const ids = merged.trades.map(t => t.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(merged.trades).toHaveLength(2);
+  });
+
+  it('still finds a trade logged separately on both sides by fingerprint', () => {
+    const matches = diffTrades([trade('a')], [trade('b', { notes: 'Filled in later' })]);
+    expect(matches).toMatchObject([{ kind: 'changed', by: 'fingerprint', local: { id: 'a' }, fields: ['notes'] }]);
+  });
+});
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createSyncBackend, RemoteChangedError, setSyncTransport, type SyncConfig } from '../utils/syncProviders';
+import { createMemoryRest } from './memoryRest';
+
+const config: SyncConfig = { provider: 'rest', url: 'https://sync.example.com', token: 'token', syncKey: 'TEST-KEY0-0001' };
+
+const journal = (updatedAt: number) => ({ payload: JSON.stringify({ updatedAt }), updatedAt });
+
+describe('REST sync provider', () => {
+  beforeEach(() => {
+    setSyncTransport(createMemoryRest(config.url).fetch);
+  });
+
+  it('replaces the journal only if it is the version the push expects', async () => {
+    const backend = createSyncBackend(config);
+    await backend.push(journal(1), null);
+    await expect(backend.push(journal(2), null)).rejects.toBeInstanceOf(RemoteChangedError);
+
+    await backend.push(journal(2), 1);
+    await expect(backend.push(journal(3), 1)).rejects.toBeInstanceOf(RemoteChangedError);
+    expect((await backend.pull())?.updatedAt).toBe(2);
+  });
+
+  it("refuses a conditional push when the server doesn't send ETags", async () => {
+    setSyncTransport(createMemoryRest(config.url, { etags: false }).fetch);
+    const backend = createSyncBackend(config);
+    await backend.push(journal(1), null);
+
+    await expect(backend.push(journal(2), 1)).rejects.toThrow(/ETag/);
+    expect((await backend.pull())?.updatedAt).toBe(1);
+  });
+});
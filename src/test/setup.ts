@@ -0,0 +1,10 @@
+/** Browser storage the app expects, fresh for every test. */
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach } from 'vitest';
+import { MemoryStorage } from './memoryStorage';
+
+beforeEach(() => {
+  globalThis.localStorage = new MemoryStorage();
+  globalThis.indexedDB = new IDBFactory();
+});
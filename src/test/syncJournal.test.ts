@@ -0,0 +1,243 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { JournalState, Trade } from '../types/trade';
+import { historyReducer, initHistory } from '../store/JournalContext';
+import { emptyState } from '../store/seed';
+import { commitMerge, syncJournal, type SyncOutcome, type SyncTarget } from '../store/syncJournal';
+import { pullFromCloud, pushToCloud } from '../utils/cloudSync';
+import { RemoteChangedError, setSyncTransport, type SyncConfig } from '../utils/syncProviders';
+import { resolveSyncConflicts, type ConflictChoice } from '../utils/syncMerge';
+import { createMemorySupabase, type MemorySupabase } from './memorySupabase';
+import { MemoryStorage } from './memoryStorage';
+
+const config: SyncConfig = { provider: 'supabase', supabaseUrl: 'https://test.supabase.co', anonKey: 'anon', syncKey: 'TEST-KEY0-0001' };
+
+type History = ReturnType<typeof initHistory>;
+type HistoryAction = Parameters<typeof historyReducer>[1];
+
+/** One device: its own localStorage and its journal with undo history, as JournalProvider keeps it. */
+interface Device {
+  storage: MemoryStorage;
+  history: History;
+}
+
+function createDevice(state: JournalState = emptyState()): Device {
+  return { storage: new MemoryStorage(), history: initHistory(state) };
+}
+
+/** Runs `fn` with `device`'s localStorage in place, putting back whichever device's was there. */
+async function on<T>(device: Device, fn: () => Promise<T>): Promise<T> {
+  const previous = globalThis.localStorage;
+  globalThis.localStorage = device.storage;
+  try {
+    return await fn();
+  } finally {
+    globalThis.localStorage = previous;
+  }
+}
+
+function edit(device: Device, action: HistoryAction): void {
+  device.history = historyReducer(device.history, action);
+}
+
+function targetOf(device: Device): SyncTarget {
+  return {
+    current: () => device.history.present,
+    apply: merged => edit(device, { type: 'LOAD_STATE', state: merged, source: 'sync' }),
+  };
+}
+
+function sync(device: Device): Promise<SyncOutcome> {
+  return on(device, () => syncJournal(config, targetOf(device)));
+}
+
+async function resolve(device: Device, outcome: SyncOutcome, choices: Record<string, ConflictChoice>): Promise<number | null> {
+  if (outcome.kind !== 'conflict') throw new Error('Expected a conflict');
+  const { merge, local, remoteUpdatedAt } = outcome.pending;
+  return on(device, () => commitMerge(config, targetOf(device), local, resolveSyncConflicts(merge, choices), { local: true, remote: true }, remoteUpdatedAt));
+}
+
+function tradesOf(device: Device): Trade[] {
+  return device.history.present.trades;
+}
+
+async function cloudTrades(device: Device): Promise<Trade[]> {
+  const remote = await on(device, () => pullFromCloud(config));
+  return (remote?.state as JournalState | undefined)?.trades ?? [];
+}
+
+function trade(id: string, fields: Partial<Trade> = {}): Trade {
+  return {
+    id,
+    createdAt: '2024-09-02T14:00:00.000Z',
+    date: '2024-09-02T14:00:00.000Z',
+    symbol: 'ES',
+    direction: 'Long',
+    timeframe: '5m',
+    session: 'New York',
+    setup: 'Breakout',
+    strategyType: 'Momentum',
+    pnl: 250,
+    ...fields,
+  };
+}
+
+describe('syncing two devices', () => {
+  let backend: MemorySupabase;
+  let a: Device;
+  let b: Device;
+
+  /** Both devices hold trade t1 and have synced it. */
+  async function pair(): Promise<void> {
+    edit(a, { type: 'ADD_TRADE', trade: trade('t1') });
+    expect((await sync(a)).kind).toBe('synced');
+    expect((await sync(b)).kind).toBe('synced');
+  }
+
+  beforeEach(() => {
+    backend = createMemorySupabase();
+    setSyncTransport(backend.fetch);
+    a = createDevice();
+    b = createDevice();
+  });
+
+  it('carries an edit made on one device to the other', async () => {
+    await pair();
+    expect(tradesOf(b).map(t => t.id)).toEqual(['t1']);
+
+    edit(a, { type: 'UPDATE_TRADE', trade: { ...tradesOf(a)[0], pnl: -125, notes: 'Stopped out' } });
+    await sync(a);
+    expect(await sync(b)).toMatchObject({ kind: 'synced' });
+
+    expect(tradesOf(b)[0]).toMatchObject({ pnl: -125, notes: 'Stopped out' });
+    // The edit arrived as a sync, not as an undo step on b
+    expect(b.history.past).toHaveLength(0);
+  });
+
+  it('stops on a trade both devices changed and applies the chosen side', async () => {
+    await pair();
+    edit(a, { type: 'UPDATE_TRADE', trade: { ...tradesOf(a)[0], notes: 'From a' } });
+    edit(b, { type: 'UPDATE_TRADE', trade: { ...tradesOf(b)[0], notes: 'From b' } });
+    await sync(a);
+
+    const outcome = await sync(b);
+    expect(outcome.kind).toBe('conflict');
+    if (outcome.kind !== 'conflict') return;
+    expect(outcome.pending.merge.conflicts).toMatchObject([{ id: 't1', fields: ['notes'] }]);
+    // Nothing is applied until the user chooses
+    expect(tradesOf(b)[0].notes).toBe('From b');
+
+    expect(await resolve(b, outcome, { t1: 'remote' })).not.toBeNull();
+    expect(tradesOf(b)[0].notes).toBe('From a');
+    expect(await sync(a)).toMatchObject({ kind: 'synced' });
+    expect(tradesOf(a)[0].notes).toBe('From a');
+  });
+
+  it('deletes a trade on the other device through its tombstone', async () => {
+    await pair();
+    edit(a, { type: 'DELETE_TRADE', id: 't1' });
+    await sync(a);
+    await sync(b);
+
+    expect(tradesOf(b)).toEqual([]);
+    expect(b.history.present.deletedTrades.t1).toBeDefined();
+  });
+
+  it('asks whether to keep a trade one device edited and the other deleted', async () => {
+    await pair();
+    edit(a, { type: 'DELETE_TRADE', id: 't1' });
+    edit(b, { type: 'UPDATE_TRADE', trade: { ...tradesOf(b)[0], pnl: 400 } });
+    await sync(a);
+
+    const outcome = await sync(b);
+    expect(outcome.kind).toBe('conflict');
+    if (outcome.kind !== 'conflict') return;
+    expect(outcome.pending.merge.conflicts).toMatchObject([{ id: 't1', remote: undefined }]);
+
+    await resolve(b, outcome, { t1: 'local' });
+    await sync(a);
+    expect(tradesOf(a)).toMatchObject([{ id: 't1', pnl: 400 }]);
+    expect(await cloudTrades(a)).toMatchObject([{ id: 't1', pnl: 400 }]);
+  });
+
+  it('merges a device that never synced with the cloud copy', async () => {
+    edit(a, { type: 'ADD_TRADE', trade: trade('t1') });
+    await sync(a);
+    edit(b, { type: 'ADD_TRADE', trade: trade('t2', { symbol: 'NQ' }) });
+
+    expect(await sync(b)).toMatchObject({ kind: 'synced' });
+    expect(tradesOf(b).map(t => t.id).sort()).toEqual(['t1', 't2']);
+    await sync(a);
+    expect(tradesOf(a).map(t => t.id).sort()).toEqual(['t1', 't2']);
+  });
+
+  it('keeps the more recently changed copy of a trade when there is no base to compare against', async () => {
+    edit(a, { type: 'ADD_TRADE', trade: trade('t1') });
+    await sync(a);
+    edit(b, { type: 'ADD_TRADE', trade: trade('t1', { pnl: 300 }) });
+
+    expect(await sync(b)).toMatchObject({ kind: 'synced' });
+    expect(tradesOf(b)).toMatchObject([{ id: 't1', pnl: 300 }]);
+    await sync(a);
+    expect(tradesOf(a)).toMatchObject([{ id: 't1', pnl: 300 }]);
+  });
+
+  it('rejects a push made against a cloud copy that has since moved on', async () => {
+    await pair();
+    const stale = (await on(a, () => pullFromCloud(config)))!;
+    edit(b, { type: 'DELETE_TRADE', id: 't1' });
+    await sync(b);
+
+    await expect(on(a, () => pushToCloud(config, stale.state, stale.updatedAt))).rejects.toBeInstanceOf(RemoteChangedError);
+  });
+
+  it('merges again when another device pushes between the pull and the push', async () => {
+    await pair();
+    let patches = 0;
+    setSyncTransport(async (input, init) => {
+      // b syncs a new trade just before a's first push lands
+      if (init?.method === 'PATCH' && globalThis.localStorage === a.storage && patches++ === 0) {
+        edit(b, { type: 'ADD_TRADE', trade: trade('t2') });
+        await sync(b);
+      }
+      return backend.fetch(input, init);
+    });
+    edit(a, { type: 'UPDATE_TRADE', trade: { ...tradesOf(a)[0], notes: 'Scaled out early' } });
+
+    expect(await sync(a)).toMatchObject({ kind: 'synced' });
+    expect(patches).toBe(2);
+    expect(tradesOf(a).map(t => t.id).sort()).toEqual(['t1', 't2']);
+    const cloud = await cloudTrades(a);
+    expect(cloud.find(t => t.id === 't1')?.notes).toBe('Scaled out early');
+    expect(cloud.some(t => t.id === 't2')).toBe(true);
+  });
+
+  it('gives up after repeated races', async () => {
+    await pair();
+    let n = 0;
+    setSyncTransport(async (input, init) => {
+      if (init?.method === 'PATCH' && globalThis.localStorage === a.storage) {
+        edit(b, { type: 'ADD_TRADE', trade: trade(`race-${n++}`) });
+        await sync(b);
+      }
+      return backend.fetch(input, init);
+    });
+    edit(a, { type: 'DELETE_TRADE', id: 't1' });
+
+    await expect(sync(a)).rejects.toBeInstanceOf(RemoteChangedError);
+  });
+
+  it('keeps synced changes when undoing and redoing local edits', async () => {
+    await pair();
+    edit(b, { type: 'ADD_TRADE', trade: trade('t2') });
+    edit(a, { type: 'UPDATE_TRADE', trade: { ...tradesOf(a)[0], pnl: 900 } });
+    await sync(a);
+    await sync(b);
+    expect(b.history.last?.label).toBe('Trade added');
+
+    edit(b, { type: 'UNDO' });
+    expect(tradesOf(b)).toMatchObject([{ id: 't1', pnl: 900 }]);
+    edit(b, { type: 'REDO' });
+    expect(tradesOf(b).map(t => t.id).sort()).toEqual(['t1', 't2']);
+    expect(tradesOf(b).find(t => t.id === 't1')?.pnl).toBe(900);
+  });
+});
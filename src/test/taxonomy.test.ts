@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { JournalState, Trade, TradeTemplate } from '../types/trade';
+import { historyReducer, initHistory } from '../store/JournalContext';
+import { emptyState } from '../store/seed';
+
+const trade: Trade = {
+  id: 't1',
+  createdAt: '2024-09-02T14:00:00.000Z',
+  date: '2024-09-02T14:00:00.000Z',
+  symbol: 'ES',
+  direction: 'Long',
+  timeframe: '5m',
+  session: 'New York',
+  setup: 'A+ Setup',
+  strategyType: 'Momentum',
+  pnl: 250,
+};
+
+const templates: TradeTemplate[] = [
+  { id: 'tpl-1', name: 'Opening drive', fields: { symbol: 'ES', setup: 'A+ Setup', session: 'New York' } },
+  { id: 'tpl-2', name: 'London fade', fields: { setup: 'A Setup', session: 'London' } },
+];
+
+describe('renaming a taxonomy item', () => {
+  it('renames the value in trades and templates that use it', () => {
+    const state: JournalState = { ...emptyState(), trades: [trade], templates };
+    const item = state.taxonomies.setup.find(i => i.label === 'A+ Setup')!;
+
+    const { present } = historyReducer(initHistory(state), { type: 'UPSERT_TAXONOMY_ITEM', kind: 'setup', item: { ...item, label: 'Grade A' } });
+
+    expect(present.trades[0].setup).toBe('Grade A');
+    expect(present.templates[0].fields).toEqual({ symbol: 'ES', setup: 'Grade A', session: 'New York' });
+    // Templates using another setup are left as they were
+    expect(present.templates[1]).toBe(templates[1]);
+  });
+
+  it('leaves templates alone when only the colour changes', () => {
+    const state: JournalState = { ...emptyState(), templates };
+    const item = state.taxonomies.setup.find(i => i.label === 'A+ Setup')!;
+
+    const { present } = historyReducer(initHistory(state), { type: 'UPSERT_TAXONOMY_ITEM', kind: 'setup', item: { ...item, color: '#7aa0e1' } });
+
+    expect(present.templates).toBe(templates);
+  });
+});
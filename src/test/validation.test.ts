@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Trade } from '../types/trade';
+import { validateJournal } from '../store/validation';
+import { emptyState, withDefaults } from '../store/seed';
+import { netPnl } from '../utils/pnl';
+
+const trade = {
+  id: 't1',
+  createdAt: '2024-09-02T14:00:00.000Z',
+  date: '2024-09-02T14:00:00.000Z',
+  symbol: 'ES',
+  direction: 'Long',
+  timeframe: '5m',
+  session: 'New York',
+  setup: 'A+ Setup',
+  strategyType: 'Momentum',
+  pnl: 250,
+};
+
+describe('journal validation', () => {
+  it('accepts the journal a fresh install starts with', () => {
+    expect(validateJournal(emptyState()).issues).toEqual([]);
+  });
+
+  it('turns a fill fee saved as text into a number', () => {
+    const executions = [
+      { id: 'f1', time: '2024-09-02T14:00:00.000Z', side: 'Buy', quantity: 1, price: 5600, fee: '1.5' },
+      { id: 'f2', time: '2024-09-02T14:20:00.000Z', side: 'Sell', quantity: 1, price: 5605, fee: 'n/a' },
+    ];
+    const { issues, repaired } = validateJournal({ trades: [{ ...trade, executions } as unknown as Trade] });
+
+    expect(issues).toEqual([{ record: 'Trade 1 (ES)', problems: ['fill fee is not a number'] }]);
+    const [fixed] = repaired.trades!;
+    expect(fixed.executions?.map(e => e.fee)).toEqual([1.5, undefined]);
+    expect(netPnl(fixed)).toBe(248.5);
+  });
+
+  it('repairs or drops malformed collections so the views get the shapes they expect', () => {
+    const { issues, repaired } = validateJournal({
+      trades: [],
+      accounts: {} as never,
+      instruments: [
+        { id: 'zn', symbol: 'ZN', assetClass: 'Bonds', tickSize: '0.015625', tickValue: 15.625, quoteCurrency: 'USD' },
+        { id: 'x', symbol: 'X', assetClass: 'Other', tickSize: 0, tickValue: 1, quoteCurrency: 'USD' },
+      ] as never,
+      taxonomies: { session: null, setup: [{ id: 's1', label: 'Breakout' }, 'Fade'] } as never,
+      dailyEntries: { '2024-09-02': { date: '2024-09-02', mood: '4', updatedAt: '2024-09-02T20:00:00.000Z' }, '2024-09-03': 'busy' } as never,
+      reviews: [{ id: 'r1', period: 'fortnight', start: '2024-09-02', end: '2024-09-15', answers: [], updatedAt: '2024-09-15T20:00:00.000Z' }] as never,
+      templates: [{ id: 'tpl', name: 'Opening drive', fields: { symbol: 'ES', positionSize: '2', tags: 'gap' } }] as never,
+    });
+
+    expect(issues).toEqual([
+      { record: 'Instrument 1 (ZN)', problems: ['unknown assetClass "Bonds"', 'tickSize is not a number'] },
+      { record: 'Instrument 2 (X)', problems: ['tickSize is not a positive number', 'dropped'] },
+      { record: 'Accounts', problems: ['not a list — defaults used'] },
+      { record: 'Taxonomy session', problems: ['not a list — defaults used'] },
+      { record: 'Taxonomy setup 2', problems: ['not a record', 'dropped'] },
+      { record: 'Daily entry 2024-09-02', problems: ['mood is not a number'] },
+      { record: 'Daily entry 2024-09-03', problems: ['not a record', 'dropped'] },
+      { record: 'Review 1 (2024-09-02)', problems: ['unknown period "fortnight"', 'dropped'] },
+      { record: 'Template 1 (Opening drive)', problems: ['positionSize is not a number', 'tags is not a list of text'] },
+    ]);
+
+    const state = withDefaults(repaired);
+    expect(state.instruments).toEqual([{ id: 'zn', symbol: 'ZN', assetClass: 'Other', tickSize: 0.015625, tickValue: 15.625, quoteCurrency: 'USD' }]);
+    expect(state.accounts).toEqual([]);
+    expect(state.taxonomies.session).toEqual(emptyState().taxonomies.session);
+    expect(state.taxonomies.setup).toEqual([{ id: 's1', label: 'Breakout' }]);
+    expect(state.dailyEntries).toEqual({ '2024-09-02': { date: '2024-09-02', mood: 4, updatedAt: '2024-09-02T20:00:00.000Z' } });
+    expect(state.reviews).toEqual([]);
+    expect(state.templates[0].fields).toEqual({ symbol: 'ES', positionSize: 2 });
+  });
+});
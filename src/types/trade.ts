@@ -1,35 +1,195 @@
 export type Direction = 'Long' | 'Short';
-export type Session = 'London' | 'New York' | 'Asian' | 'Other';
-export type Setup = 'A++ Setup' | 'A+ Setup' | 'A Setup';
+// Values come from the user-editable taxonomies (see JournalState.taxonomies)
+export type Session = string;
+export type Setup = string;
 
 // UI-only helper (computed from pnl, not stored on Trade)
 export type TradeResult = 'Win' | 'Loss' | 'BE';
 
+/** Lifecycle of a trade idea. Trades without a status are treated as closed. */
+export type TradeStatus = 'planned' | 'open' | 'closed' | 'cancelled';
+
+/** Snapshot of one setup rule at the time the trade was logged. */
+export interface ChecklistEntry {
+  rule: string;
+  met: boolean;
+}
+
+export type ExecutionSide = 'Buy' | 'Sell';
+
+/** A single fill. Trades scaled in or out carry several of these. */
+export interface Execution {
+  id: string;
+  time: string;
+  side: ExecutionSide;
+  quantity: number;
+  price: number;
+  fee?: number;
+}
+
 export interface Trade {
   id: string;
   createdAt: string;
+  /** Last local or synced change — used to merge edits made on different devices */
+  updatedAt?: string;
+  accountId?: string;
+  status?: TradeStatus;
+  plannedAt?: string;
+  openedAt?: string;
+  closedAt?: string;
+  /** For cancelled / skipped ideas: how the trade would have played out */
+  hypotheticalResult?: TradeResult;
   symbol: string;
   direction: Direction;
   timeframe: string;
   session: Session;
   setup: Setup;
   strategyType: string;
+  /** Gross P&L, before commission and fees. Zero until the trade is closed. */
   pnl: number;
+  commission?: number;
+  fees?: number;
+  // Optional price levels — R:R and R-multiple are derived from these, not stored
+  entryPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  exitPrice?: number;
+  positionSize?: number;
+  executions?: Execution[];
   emotion?: string;
+  /** Free-form labels such as "news" or "moved stop" */
+  tags?: string[];
+  /** Labels from the mistake taxonomy */
+  mistakes?: string[];
+  /** Setup rules ticked when logging, and the resulting adherence score (0–100) */
+  checklist?: ChecklistEntry[];
+  adherence?: number;
   notes?: string;
   imageUrls?: string[];
   date: string;
 }
 
-export type AppView = 'dashboard' | 'journal' | 'add-trade' | 'analytics' | 'settings';
+/** Trade fields a template can preset. */
+export type TemplateFields = Partial<Pick<Trade,
+  'accountId' | 'symbol' | 'direction' | 'timeframe' | 'session' | 'setup' | 'strategyType' | 'positionSize' | 'emotion' | 'tags'
+>>;
+
+export interface TradeTemplate {
+  id: string;
+  name: string;
+  fields: TemplateFields;
+}
+
+export type AssetClass = 'Futures' | 'Forex' | 'Stocks' | 'Crypto' | 'Other';
+
+/** Catalog entry used to turn price moves into money. Point value = tickValue / tickSize. */
+export interface Instrument {
+  id: string;
+  symbol: string;
+  assetClass: AssetClass;
+  /** Minimum price increment */
+  tickSize: number;
+  /** Value of one tick for one contract / lot / share, in quoteCurrency */
+  tickValue: number;
+  quoteCurrency: string;
+  /** Default round-turn commission per contract / lot / share */
+  commissionPerUnit?: number;
+  /** Default round-turn exchange / regulatory fees per contract / lot / share */
+  feePerUnit?: number;
+}
+
+export type AccountType = 'Live' | 'Funded' | 'Demo';
+
+export interface Account {
+  id: string;
+  name: string;
+  broker?: string;
+  type: AccountType;
+  baseCurrency: string;
+  startingBalance: number;
+}
+
+export type TaxonomyKind = 'session' | 'setup' | 'strategy' | 'emotion' | 'timeframe' | 'mistake';
+
+export interface TaxonomyItem {
+  id: string;
+  label: string;
+  /** Hex colour used for badges, e.g. #7aa0e1 */
+  color?: string;
+  /** Hidden from pickers for new trades; existing trades keep the value */
+  archived?: boolean;
+  /** Entry rules — only used on setups */
+  rules?: string[];
+}
+
+/** Ordered value lists per taxonomy. Trades store the label, so renames rewrite matching trades. */
+export type Taxonomies = Record<TaxonomyKind, TaxonomyItem[]>;
+
+export type MarketBias = 'Bullish' | 'Bearish' | 'Neutral';
+
+/** Pre-market plan and end-of-day review for one trading day. Trades are linked by date, not stored here. */
+export interface DailyEntry {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  bias?: MarketBias;
+  keyLevels?: string;
+  news?: string;
+  plan?: string;
+  review?: string;
+  // Self-ratings, 1–5
+  mood?: number;
+  sleep?: number;
+  focus?: number;
+  imageUrls?: string[];
+  updatedAt: string;
+}
+
+export type ReviewPeriod = 'week' | 'month';
+
+/** Answer to one guided prompt, snapshotted with the prompt text it was written against. */
+export interface ReviewAnswer {
+  prompt: string;
+  answer: string;
+}
+
+/** Weekly or monthly review. Stats are recomputed from the trades in [start, end]; only the writing is stored. */
+export interface Review {
+  id: string;
+  period: ReviewPeriod;
+  /** First and last day covered, YYYY-MM-DD */
+  start: string;
+  end: string;
+  answers: ReviewAnswer[];
+  completedAt?: string;
+  updatedAt: string;
+}
+
+export type AppView = 'dashboard' | 'journal' | 'daily' | 'add-trade' | 'analytics' | 'review' | 'settings';
+
+export type PnlMode = 'gross' | 'net';
 
 export interface AppSettings {
   currency: string;
+  /** Whether P&L figures across the app include or exclude commission and fees */
+  pnlMode: PnlMode;
+  /** Account that scopes Dashboard, Journal and Analytics; undefined means all accounts */
+  activeAccountId?: string;
   blurIntensity: number;
   theme: 'default' | 'warm' | 'cool';
+  /** Cloud storage screenshots may use, in MB; 0 keeps them on each device */
+  imageSyncLimitMb: number;
 }
 
 export interface JournalState {
   trades: Trade[];
   settings: AppSettings;
+  instruments: Instrument[];
+  accounts: Account[];
+  taxonomies: Taxonomies;
+  /** Daily journal entries keyed by their date */
+  dailyEntries: Record<string, DailyEntry>;
+  reviews: Review[];
+  templates: TradeTemplate[];
+  /** Ids of deleted trades and when they were deleted, so sync removes them on other devices too */
+  deletedTrades: Record<string, string>;
 }
@@ -0,0 +1,130 @@
+/**
+ * Single-file backup: the journal plus every screenshot it references, as one
+ * JSON document with the IndexedDB blobs inlined as base64. Each image and the
+ * journal carry a SHA-256 so a damaged or truncated file is caught before restore.
+ */
+import type { JournalState } from '../types/trade';
+import { toPersisted } from '../store/migrations';
+import { deleteImages, loadImageBlob, storeImage } from './imageStore';
+import { fromBase64, toBase64 } from './base64';
+import { sha256 } from './hash';
+
+export const BACKUP_FORMAT = 'crtv-backup';
+
+export interface BackupImage {
+  type: string;
+  size: number;
+  sha256: string;
+  /** Base64 of the blob's bytes */
+  data: string;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  createdAt: string;
+  /** SHA-256 of JSON.stringify(journal) */
+  checksum: string;
+  journal: JournalState & { schemaVersion: number };
+  /** Keyed by the idb: key the journal references */
+  images: Record<string, BackupImage>;
+}
+
+export type ProgressFn = (done: number, total: number) => void;
+
+/** Every IndexedDB image key referenced by trades and daily entries. */
+export function referencedImages(state: Pick<JournalState, 'trades' | 'dailyEntries'>): string[] {
+  const keys = [
+    ...state.trades.flatMap(t => t.imageUrls ?? []),
+    ...Object.values(state.dailyEntries).flatMap(e => e.imageUrls ?? []),
+  ];
+  return [...new Set(keys.filter(k => k.startsWith('idb:')))];
+}
+
+/** Builds the archive. Keys whose blob is gone from this device are returned in `missing`. */
+export async function createBackup(state: JournalState, onProgress: ProgressFn): Promise<{ archive: BackupArchive; missing: string[] }> {
+  const keys = referencedImages(state);
+  const images: Record<string, BackupImage> = {};
+  const missing: string[] = [];
+  for (const [i, key] of keys.entries()) {
+    onProgress(i, keys.length);
+    const blob = await loadImageBlob(key);
+    if (!blob) {
+      missing.push(key);
+      continue;
+    }
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    images[key] = { type: blob.type, size: bytes.length, sha256: await sha256(bytes), data: toBase64(bytes) };
+  }
+  onProgress(keys.length, keys.length);
+  const journal = toPersisted(state);
+  return {
+    archive: { format: BACKUP_FORMAT, version: 1, createdAt: new Date().toISOString(), checksum: await sha256(JSON.stringify(journal)), journal, images },
+    missing,
+  };
+}
+
+export function isBackupArchive(raw: unknown): raw is BackupArchive {
+  if (!raw || typeof raw !== 'object') return false;
+  const a = raw as Partial<BackupArchive>;
+  return a.format === BACKUP_FORMAT && !!a.journal && typeof a.journal === 'object' && !!a.images && typeof a.images === 'object';
+}
+
+/**
+ * Recomputes every checksum. Returns the keys of images that are damaged, and
+ * whether the journal itself matches; a damaged journal must not be restored.
+ */
+export async function verifyBackup(archive: BackupArchive, onProgress: ProgressFn): Promise<{ journalOk: boolean; badImages: string[] }> {
+  const entries = Object.entries(archive.images);
+  const badImages: string[] = [];
+  for (const [i, [key, img]] of entries.entries()) {
+    onProgress(i, entries.length);
+    try {
+      const bytes = fromBase64(img.data);
+      if (bytes.length !== img.size || await sha256(bytes) !== img.sha256) badImages.push(key);
+    } catch {
+      badImages.push(key);
+    }
+  }
+  onProgress(entries.length, entries.length);
+  return { journalOk: await sha256(JSON.stringify(archive.journal)) === archive.checksum, badImages };
+}
+
+/**
+ * Writes the archive's images into this device's IndexedDB under fresh keys and
+ * returns the old → new key map. Keys listed in `skip` are left out.
+ */
+export async function restoreImages(archive: BackupArchive, skip: string[], onProgress: ProgressFn): Promise<Record<string, string>> {
+  const entries = Object.entries(archive.images).filter(([key]) => !skip.includes(key));
+  const keyMap: Record<string, string> = {};
+  try {
+    for (const [i, [key, img]] of entries.entries()) {
+      onProgress(i, entries.length);
+      keyMap[key] = await storeImage(new Blob([fromBase64(img.data)], { type: img.type }));
+    }
+  } catch (err) {
+    await deleteImages(Object.values(keyMap));
+    throw err;
+  }
+  onProgress(entries.length, entries.length);
+  return keyMap;
+}
+
+/**
+ * Points image references at their restored keys; references with no restored blob are dropped.
+ * Runs before validation, so it leaves anything that isn't shaped like a trade or entry alone.
+ */
+export function rewriteImageKeys(journal: Partial<JournalState>, keyMap: Record<string, string>): Partial<JournalState> {
+  const rewrite = <T extends { imageUrls?: string[] }>(item: T): T => {
+    if (!item || typeof item !== 'object' || !Array.isArray(item.imageUrls)) return item;
+    const next = item.imageUrls.flatMap(u => typeof u !== 'string' || !u.startsWith('idb:') ? [u] : keyMap[u] ? [keyMap[u]] : []);
+    return { ...item, imageUrls: next.length ? next : undefined };
+  };
+  return {
+    ...journal,
+    trades: Array.isArray(journal.trades) ? journal.trades.map(rewrite) : journal.trades,
+    dailyEntries: journal.dailyEntries && typeof journal.dailyEntries === 'object'
+      ? Object.fromEntries(Object.entries(journal.dailyEntries).map(([date, e]) => [date, rewrite(e)]))
+      : journal.dailyEntries,
+  };
+}
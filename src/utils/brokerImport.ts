@@ -0,0 +1,434 @@
+/**
+ * Turns broker statement CSVs into trades. A mapping says which column holds
+ * each field; "fills" layouts (one row per execution) are paired into
+ * round-trip trades, "trades" layouts (one row per closed position) map
+ * directly. Built-in presets cover common platforms; mappings the user saves
+ * are kept per device in localStorage.
+ */
+import type { Direction, Execution, ExecutionSide, Instrument, Trade } from '../types/trade';
+import { generateId } from './id';
+import { findInstrument } from './instruments';
+import { sortExecutions, summarizeExecutions } from './executions';
+import { detectDateFormat, detectDecimal, parseDate, parseNumber, type DateFormat, type DecimalSeparator } from './csv';
+
+export type ImportLayout = 'fills' | 'trades';
+
+export type ImportField =
+  | 'time' | 'symbol' | 'side' | 'quantity' | 'price' | 'fee' | 'status'
+  | 'openTime' | 'closeTime' | 'direction' | 'entryPrice' | 'exitPrice' | 'pnl' | 'commission';
+
+export interface FieldSpec {
+  field: ImportField;
+  label: string;
+  required: boolean;
+}
+
+export const LAYOUT_LABEL: Record<ImportLayout, string> = {
+  fills: 'Fills / executions',
+  trades: 'Closed trades',
+};
+
+export const LAYOUT_FIELDS: Record<ImportLayout, FieldSpec[]> = {
+  fills: [
+    { field: 'time', label: 'Fill time', required: true },
+    { field: 'symbol', label: 'Symbol', required: true },
+    { field: 'side', label: 'Side (Buy / Sell)', required: true },
+    { field: 'quantity', label: 'Quantity', required: true },
+    { field: 'price', label: 'Fill price', required: true },
+    { field: 'fee', label: 'Fee / commission', required: false },
+    { field: 'status', label: 'Order status (only filled rows are used)', required: false },
+  ],
+  trades: [
+    { field: 'openTime', label: 'Open time', required: true },
+    { field: 'closeTime', label: 'Close time', required: false },
+    { field: 'symbol', label: 'Symbol', required: true },
+    { field: 'direction', label: 'Direction (Buy / Sell, Long / Short)', required: true },
+    { field: 'quantity', label: 'Quantity', required: false },
+    { field: 'entryPrice', label: 'Entry price', required: false },
+    { field: 'exitPrice', label: 'Exit price', required: false },
+    { field: 'pnl', label: 'P&L', required: true },
+    { field: 'commission', label: 'Commission', required: false },
+  ],
+};
+
+export interface CsvMapping {
+  layout: ImportLayout;
+  /** Header name per field; unmapped fields are left out */
+  columns: Partial<Record<ImportField, string>>;
+  dateFormat: DateFormat;
+  decimal: DecimalSeparator;
+}
+
+export interface CsvPreset {
+  id: string;
+  name: string;
+  /** Bundled presets can't be overwritten or deleted */
+  builtIn?: boolean;
+  /** File under public/samples/ exported in this format */
+  sample?: string;
+  mapping: CsvMapping;
+}
+
+export const BROKER_PRESETS: CsvPreset[] = [
+  {
+    id: 'tradovate',
+    name: 'Tradovate — Orders',
+    builtIn: true,
+    sample: 'tradovate-orders.csv',
+    mapping: {
+      layout: 'fills',
+      columns: { time: 'Fill Time', symbol: 'Contract', side: 'B/S', quantity: 'filledQty', price: 'avgPrice', status: 'Status' },
+      dateFormat: 'mdy',
+      decimal: '.',
+    },
+  },
+  {
+    id: 'ninjatrader',
+    name: 'NinjaTrader — Executions',
+    builtIn: true,
+    sample: 'ninjatrader-executions.csv',
+    mapping: {
+      layout: 'fills',
+      columns: { time: 'Time', symbol: 'Instrument', side: 'Action', quantity: 'Quantity', price: 'Price', fee: 'Commission' },
+      dateFormat: 'mdy',
+      decimal: '.',
+    },
+  },
+  {
+    id: 'mt4',
+    name: 'MetaTrader 4 — Account History',
+    builtIn: true,
+    sample: 'mt4-history.csv',
+    mapping: {
+      layout: 'trades',
+      columns: {
+        openTime: 'Open Time', closeTime: 'Close Time', symbol: 'Item', direction: 'Type', quantity: 'Size',
+        entryPrice: 'Price', exitPrice: 'Price (2)', pnl: 'Profit', commission: 'Commission',
+      },
+      dateFormat: 'ymd',
+      decimal: '.',
+    },
+  },
+  {
+    id: 'mt5',
+    name: 'MetaTrader 5 — Positions',
+    builtIn: true,
+    sample: 'mt5-positions.csv',
+    mapping: {
+      layout: 'trades',
+      columns: {
+        openTime: 'Time', closeTime: 'Time (2)', symbol: 'Symbol', direction: 'Type', quantity: 'Volume',
+        entryPrice: 'Price', exitPrice: 'Price (2)', pnl: 'Profit', commission: 'Commission',
+      },
+      dateFormat: 'ymd',
+      decimal: '.',
+    },
+  },
+  {
+    id: 'tradingview',
+    name: 'TradingView — Paper Trading Orders',
+    builtIn: true,
+    sample: 'tradingview-paper.csv',
+    mapping: {
+      layout: 'fills',
+      columns: { time: 'Closing Time', symbol: 'Symbol', side: 'Side', quantity: 'Qty', price: 'Fill Price', fee: 'Commission', status: 'Status' },
+      dateFormat: 'ymd',
+      decimal: '.',
+    },
+  },
+];
+
+// ─── Saved presets ───────────────────────────────────────────────────────────
+
+const PRESETS_KEY = 'crtv_csv_presets';
+
+function loadSavedPresets(): CsvPreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    if (raw) return JSON.parse(raw) as CsvPreset[];
+  } catch { /* ignore */ }
+  return [];
+}
+
+function savePresets(presets: CsvPreset[]): void {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch { /* ignore */ }
+}
+
+/** Built-in presets first, then the ones saved on this device. */
+export function loadCsvPresets(): CsvPreset[] {
+  return [...BROKER_PRESETS, ...loadSavedPresets()];
+}
+
+export function saveCsvPreset(preset: CsvPreset): void {
+  const saved = loadSavedPresets();
+  const exists = saved.some(p => p.id === preset.id);
+  savePresets(exists ? saved.map(p => p.id === preset.id ? preset : p) : [...saved, preset]);
+}
+
+export function deleteCsvPreset(id: string): void {
+  savePresets(loadSavedPresets().filter(p => p.id !== id));
+}
+
+/** The first preset whose mapped columns all exist in the file. Saved presets win over built-ins. */
+export function matchPreset(headers: string[], presets: CsvPreset[]): CsvPreset | undefined {
+  return [...presets].reverse().find(p => Object.values(p.mapping.columns).every(col => headers.includes(col)));
+}
+
+// ─── Mapping guesses ─────────────────────────────────────────────────────────
+
+const FIELD_HINTS: Record<ImportField, RegExp> = {
+  time: /fill.?time|exec.*time|^time|date/i,
+  symbol: /symbol|instrument|contract|ticker|item|market/i,
+  side: /^side$|action|b\/s|buy.?sell/i,
+  quantity: /qty|quantity|size|volume|contracts|lots/i,
+  price: /fill.?price|avg.?price|avgprice|^price/i,
+  fee: /fee|commission/i,
+  status: /status/i,
+  openTime: /open.?time|entry.?time|opened|^time$/i,
+  closeTime: /close.?time|exit.?time|closed|^time \(2\)$/i,
+  direction: /direction|^type$|^side$|long.?short/i,
+  entryPrice: /entry.?price|open.?price|^price$/i,
+  exitPrice: /exit.?price|close.?price|^price \(2\)$/i,
+  pnl: /p&l|pnl|profit|net|realized/i,
+  commission: /commission|fee/i,
+};
+
+/** Best guess at a mapping for an unknown file, from header names and sample values. */
+export function guessMapping(headers: string[], rows: string[][]): CsvMapping {
+  const layout: ImportLayout = headers.some(h => FIELD_HINTS.pnl.test(h)) ? 'trades' : 'fills';
+  const columns: CsvMapping['columns'] = {};
+  for (const { field } of LAYOUT_FIELDS[layout]) {
+    const header = headers.find(h => FIELD_HINTS[field].test(h) && !Object.values(columns).includes(h));
+    if (header) columns[field] = header;
+  }
+  return { layout, columns, ...detectFormats(headers, rows, columns) };
+}
+
+/** Date order and decimal separator read off the mapped time and number columns. */
+export function detectFormats(
+  headers: string[],
+  rows: string[][],
+  columns: CsvMapping['columns'],
+): Pick<CsvMapping, 'dateFormat' | 'decimal'> {
+  const values = (fields: ImportField[]) => fields.flatMap(f => {
+    const i = columns[f] ? headers.indexOf(columns[f]) : -1;
+    return i < 0 ? [] : rows.slice(0, 50).map(r => r[i] ?? '');
+  });
+  return {
+    dateFormat: detectDateFormat(values(['time', 'openTime', 'closeTime'])),
+    decimal: detectDecimal(values(['quantity', 'price', 'entryPrice', 'exitPrice', 'pnl', 'fee', 'commission'])),
+  };
+}
+
+// ─── Building trades ─────────────────────────────────────────────────────────
+
+export interface RowError {
+  /** Line in the file, counting the header as line 1 */
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  trades: Trade[];
+  errors: RowError[];
+  /** Rows left out on purpose, e.g. cancelled orders */
+  skipped: number;
+}
+
+interface ImportContext {
+  instruments: Instrument[];
+  accountId?: string;
+}
+
+/** "CME_MINI:NQ1!", "NQ 12-24" and "NQZ4" all become "NQ" when the catalog knows NQ. */
+function resolveSymbol(raw: string, instruments: Instrument[]): string {
+  const base = raw.slice(raw.lastIndexOf(':') + 1).trim().split(/\s+/)[0].replace(/\d*!$/, '').toUpperCase();
+  if (findInstrument(instruments, base)) return base;
+  const root = base.replace(/[FGHJKMNQUVXZ]\d{1,2}$/, '');
+  return root && findInstrument(instruments, root) ? root : base;
+}
+
+function parseSide(raw: string): ExecutionSide | null {
+  if (/^(buy|b|bot|bought|long)\b/i.test(raw)) return 'Buy';
+  if (/^(sell|s|sld|sold|short)\b/i.test(raw)) return 'Sell';
+  return null;
+}
+
+const NOT_A_TRADE = /limit|stop|balance|deposit|withdraw|credit/i;
+
+function importedTrade(fields: Pick<Trade, 'symbol' | 'direction' | 'pnl' | 'date'> & Partial<Trade>, ctx: ImportContext): Trade {
+  return {
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    accountId: ctx.accountId,
+    status: 'closed',
+    timeframe: '',
+    session: '',
+    setup: '',
+    strategyType: '',
+    tags: ['imported'],
+    ...fields,
+  };
+}
+
+interface Fill {
+  line: number;
+  symbol: string;
+  side: ExecutionSide;
+  quantity: number;
+  price: number;
+  time: Date;
+  fee?: number;
+}
+
+interface OpenPosition {
+  symbol: string;
+  direction: Direction;
+  size: number;
+  executions: Execution[];
+  firstLine: number;
+}
+
+function positionTrade(pos: OpenPosition, closed: boolean, ctx: ImportContext, errors: RowError[]): Trade {
+  const executions = sortExecutions(pos.executions);
+  const instrument = findInstrument(ctx.instruments, pos.symbol);
+  const summary = summarizeExecutions(executions, pos.direction, instrument);
+  if (closed && summary.grossPnl === null) {
+    errors.push({ line: pos.firstLine, message: `No instrument "${pos.symbol}" in the catalog — P&L set to 0. Add it under Instruments and re-import.` });
+  }
+  const first = executions[0].time;
+  const last = executions[executions.length - 1].time;
+  return importedTrade({
+    symbol: pos.symbol,
+    direction: pos.direction,
+    status: closed ? 'closed' : 'open',
+    openedAt: first,
+    closedAt: closed ? last : undefined,
+    pnl: closed ? summary.grossPnl ?? 0 : 0,
+    entryPrice: summary.avgEntry ?? undefined,
+    exitPrice: closed ? summary.avgExit ?? undefined : undefined,
+    positionSize: summary.entryQty,
+    executions,
+    date: first,
+  }, ctx);
+}
+
+/**
+ * Replays fills in time order per symbol. A trade opens when the position
+ * leaves flat and closes when it returns to flat; a fill that flips the
+ * position is split between the closing and the new trade, fee pro rata.
+ * Positions still open at the end of the file become open trades.
+ */
+/** Fractional fills (0.1 + 0.2 lots) don't add up exactly; anything smaller than this is flat. */
+const FLAT = 1e-9;
+
+function pairFills(fills: Fill[], ctx: ImportContext, errors: RowError[]): Trade[] {
+  const sorted = [...fills].sort((a, b) => a.time.getTime() - b.time.getTime() || a.line - b.line);
+  const book = new Map<string, OpenPosition>();
+  const trades: Trade[] = [];
+
+  for (const fill of sorted) {
+    let remaining = fill.quantity;
+    while (remaining > FLAT) {
+      let pos = book.get(fill.symbol);
+      if (!pos) {
+        pos = { symbol: fill.symbol, direction: fill.side === 'Buy' ? 'Long' : 'Short', size: 0, executions: [], firstLine: fill.line };
+        book.set(fill.symbol, pos);
+      }
+      const opening = (pos.direction === 'Long') === (fill.side === 'Buy');
+      const qty = opening ? remaining : Math.min(remaining, pos.size);
+      pos.executions.push({
+        id: generateId(),
+        time: fill.time.toISOString(),
+        side: fill.side,
+        quantity: qty,
+        price: fill.price,
+        fee: fill.fee !== undefined ? parseFloat((fill.fee * qty / fill.quantity).toFixed(2)) : undefined,
+      });
+      pos.size += opening ? qty : -qty;
+      remaining -= qty;
+      if (Math.abs(pos.size) < FLAT) {
+        trades.push(positionTrade(pos, true, ctx, errors));
+        book.delete(fill.symbol);
+      }
+    }
+  }
+  for (const pos of book.values()) trades.push(positionTrade(pos, false, ctx, errors));
+  return trades;
+}
+
+/** Maps parsed CSV rows (header excluded) to trades, collecting an error per row that can't be used. */
+export function buildTrades(headers: string[], rows: string[][], mapping: CsvMapping, ctx: ImportContext): ImportResult {
+  const errors: RowError[] = [];
+  let skipped = 0;
+  const missing = LAYOUT_FIELDS[mapping.layout].filter(f => f.required && !mapping.columns[f.field]);
+  if (missing.length) {
+    return { trades: [], errors: [{ line: 1, message: `Map a column to ${missing.map(f => f.label).join(', ')}` }], skipped: 0 };
+  }
+
+  const at = (row: string[], field: ImportField) => {
+    const col = mapping.columns[field];
+    const i = col ? headers.indexOf(col) : -1;
+    return i < 0 ? '' : row[i] ?? '';
+  };
+  const num = (row: string[], field: ImportField) => parseNumber(at(row, field), mapping.decimal);
+  const date = (row: string[], field: ImportField) => parseDate(at(row, field), mapping.dateFormat);
+
+  if (mapping.layout === 'fills') {
+    const fills: Fill[] = [];
+    rows.forEach((row, i) => {
+      const line = i + 2;
+      const fail = (message: string) => { errors.push({ line, message }); };
+      const status = at(row, 'status');
+      const quantity = num(row, 'quantity');
+      if ((status && !/fill/i.test(status)) || quantity === 0) { skipped++; return; }
+      const side = parseSide(at(row, 'side'));
+      const time = date(row, 'time');
+      const price = num(row, 'price');
+      const symbol = at(row, 'symbol');
+      const fee = num(row, 'fee');
+      if (!symbol) return fail('Missing symbol');
+      if (!side) return fail(`Unrecognised side "${at(row, 'side')}"`);
+      if (!time) return fail(`Unreadable time "${at(row, 'time')}"`);
+      if (quantity === null || quantity < 0) return fail(`Invalid quantity "${at(row, 'quantity')}"`);
+      if (price === null) return fail(`Invalid price "${at(row, 'price')}"`);
+      fills.push({ line, symbol: resolveSymbol(symbol, ctx.instruments), side, quantity, price, time, fee: fee === null ? undefined : Math.abs(fee) });
+    });
+    return { trades: pairFills(fills, ctx, errors), errors, skipped };
+  }
+
+  const trades: Trade[] = [];
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const fail = (message: string) => { errors.push({ line, message }); };
+    const rawDirection = at(row, 'direction');
+    const side = parseSide(rawDirection);
+    const openTime = date(row, 'openTime');
+    const closeTime = mapping.columns.closeTime ? date(row, 'closeTime') : openTime;
+    const pnl = num(row, 'pnl');
+    const symbol = at(row, 'symbol');
+    // Statements mix in deposits, withdrawals and cancelled pending orders — those aren't trades
+    if ((!symbol && !side) || NOT_A_TRADE.test(rawDirection)) { skipped++; return; }
+    if (!symbol) return fail('Missing symbol');
+    if (!side) return fail(`Unrecognised direction "${rawDirection}"`);
+    if (!openTime) return fail(`Unreadable open time "${at(row, 'openTime')}"`);
+    if (!closeTime) return fail(`Unreadable close time "${at(row, 'closeTime')}"`);
+    if (pnl === null) return fail(`Invalid P&L "${at(row, 'pnl')}"`);
+    const commission = num(row, 'commission');
+    trades.push(importedTrade({
+      symbol: resolveSymbol(symbol, ctx.instruments),
+      direction: side === 'Buy' ? 'Long' : 'Short',
+      pnl: parseFloat(pnl.toFixed(2)),
+      commission: commission ? Math.abs(commission) : undefined,
+      positionSize: num(row, 'quantity') ?? undefined,
+      entryPrice: num(row, 'entryPrice') ?? undefined,
+      exitPrice: num(row, 'exitPrice') ?? undefined,
+      openedAt: openTime.toISOString(),
+      closedAt: closeTime.toISOString(),
+      date: openTime.toISOString(),
+    }, ctx));
+  });
+  return { trades, errors, skipped };
+}
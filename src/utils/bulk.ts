@@ -0,0 +1,15 @@
+import type { TaxonomyKind, Trade } from '../types/trade';
+import { TAXONOMY_FIELDS } from './taxonomy';
+
+/** Single-valued taxonomies that can be reassigned across a selection. */
+export const BULK_KINDS = ['session', 'setup', 'strategy', 'emotion'] as const satisfies readonly TaxonomyKind[];
+export type BulkKind = typeof BULK_KINDS[number];
+
+/** Sets a single-valued taxonomy field. An empty value clears it (only meaningful for emotion). */
+export function setTaxonomyValue(t: Trade, kind: BulkKind, value: string): Trade {
+  return { ...t, [TAXONOMY_FIELDS[kind]]: value || undefined };
+}
+
+export function appendNote(t: Trade, text: string): Trade {
+  return { ...t, notes: t.notes ? `${t.notes}\n\n${text}` : text };
+}
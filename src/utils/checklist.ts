@@ -0,0 +1,16 @@
+import type { ChecklistEntry, Trade } from '../types/trade';
+
+/** Percentage of rules met, rounded; undefined when the setup has no rules. */
+export function adherenceScore(checklist: ChecklistEntry[]): number | undefined {
+  if (!checklist.length) return undefined;
+  return Math.round((checklist.filter(c => c.met).length / checklist.length) * 100);
+}
+
+export function isCompliant(t: Trade): boolean {
+  return t.adherence === 100;
+}
+
+/** Trades that were scored against a checklist at all. */
+export function hasAdherence(t: Trade): t is Trade & { adherence: number } {
+  return typeof t.adherence === 'number';
+}
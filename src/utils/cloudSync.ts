@@ -1,8 +1,9 @@
 /**
- * Cloud Sync via Supabase REST API (PostgREST).
- * No SDK dependency — uses plain fetch() calls against the Supabase REST endpoint.
+ * Cloud Sync — config, per-device sync state, encryption and schema checks on
+ * top of a sync provider (utils/syncProviders.ts): Supabase, a self-hosted REST
+ * server, WebDAV or a local folder. No SDK dependency — plain fetch() calls.
  *
- * Setup instructions:
+ * Supabase setup:
  *  1. Go to https://supabase.com and create a free project.
  *  2. In the SQL Editor, run the following to create the journals table:
  *       create table journals (
@@ -15,27 +16,63 @@
  *       -- generated key has ~60 bits of entropy, making brute-force infeasible.
  *       create policy "Public access" on journals
  *         for all using (true) with check (true);
+ *     For snapshots, run the same for a second table:
+ *       create table journal_snapshots (
+ *         sync_key   text   not null,
+ *         updated_at bigint not null,
+ *         payload    text   not null,
+ *         primary key (sync_key, updated_at)
+ *       );
+ *       alter table journal_snapshots enable row level security;
+ *       create policy "Public access" on journal_snapshots
+ *         for all using (true) with check (true);
  *  3. Go to Project Settings → API and copy the Project URL and the anon public key.
  *  4. Paste them and a sync key into Settings → Cloud Sync.
+ *  5. For screenshots, create a private Storage bucket named "screenshots" and
+ *     let the anon role read and add objects:
+ *       create policy "Screenshots read" on storage.objects
+ *         for select using (bucket_id = 'screenshots');
+ *       create policy "Screenshots upload" on storage.objects
+ *         for insert with check (bucket_id = 'screenshots');
+ *
+ * Devices merge record by record against the copy they last synced (the
+ * "base"), and pushes are conditional on updated_at so two devices can't
+ * overwrite each other's changes — see store/syncJournal.ts.
+ *
+ * The policy above lets anyone holding the anon key and a sync key read that
+ * row, so once a passphrase is set the payload is end-to-end encrypted before
+ * upload (utils/syncCrypto.ts). Snapshots kept from before are re-encrypted
+ * then, and again whenever the passphrase changes, so the journal is only
+ * stored as ciphertext. Screenshots uploaded before the passphrase was set
+ * stay unencrypted.
  */
 
-export interface SyncConfig {
-  /** Supabase project URL, e.g. https://xyzcompany.supabase.co */
-  supabaseUrl: string;
-  /** Supabase anon (public) API key */
-  anonKey: string;
-  /** Shared secret used as the row key — treat like a password */
-  syncKey: string;
-}
+import type { JournalState } from '../types/trade';
+import { NewerSchemaError, schemaVersionOf } from '../store/migrations';
+import { PassphraseError, decryptPayload, encryptPayload, isEncryptedPayload, unwrapImageKey, type SyncSecret } from './syncCrypto';
+import {
+  createSyncBackend,
+  syncEndpoint,
+  type StoredJournal,
+  type SupabaseSyncConfig,
+  type SyncConfig,
+  type SyncSnapshot,
+} from './syncProviders';
 
 /** Keys for localStorage */
 const SYNC_CONFIG_KEY = 'crtv_sync_config';
 const SYNC_META_KEY = 'crtv_sync_meta';
+const SYNC_BASE_KEY = 'crtv_sync_base';
+const SYNC_SECRET_KEY = 'crtv_sync_secret';
+
+/** Minimum time between snapshots of the pushed journal */
+const SNAPSHOT_INTERVAL = 60 * 60 * 1000;
 
 /** Built-in credentials — pre-configured for personal use.
  *  These are used the first time the app loads (before any user input)
  *  and are automatically persisted to localStorage so sync works immediately. */
 const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  provider: 'supabase',
   supabaseUrl: 'https://snolxaadnbqgqhycgbeg.supabase.co',
   anonKey: 'sb_publishable_l8as_h0nObdKx5FLXydPig_XkvqMhMt',
   syncKey: 'CRTV-MY-JOURNAL',
@@ -44,6 +81,16 @@ const DEFAULT_SYNC_CONFIG: SyncConfig = {
 interface SyncMeta {
   /** Unix ms — when we last successfully pushed to the cloud */
   lastPushedAt: number;
+  /** Schema version of the last payload seen in the cloud. Pushes from an app
+   *  with an older schema are refused so they can't clobber newer data. */
+  remoteSchemaVersion?: number;
+  /** Unix ms — when this device last merged with the cloud copy */
+  lastSyncedAt?: number;
+  /** Whether the last payload seen in the cloud was encrypted. A device without
+   *  the passphrase won't push plaintext over it. */
+  remoteEncrypted?: boolean;
+  /** updated_at of the last push kept as a snapshot */
+  lastSnapshotAt?: number;
 }
 
 // ─── Config helpers ──────────────────────────────────────────────────────────
@@ -51,7 +98,11 @@ interface SyncMeta {
 export function loadSyncConfig(): SyncConfig | null {
   try {
     const raw = localStorage.getItem(SYNC_CONFIG_KEY);
-    if (raw) return JSON.parse(raw) as SyncConfig;
+    if (raw) {
+      // Configs saved before other providers existed are all Supabase
+      const config = JSON.parse(raw) as SyncConfig | Omit<SupabaseSyncConfig, 'provider'>;
+      return 'provider' in config ? config : { provider: 'supabase', ...config };
+    }
   } catch { /* ignore */ }
   // No saved config found — seed localStorage with built-in credentials so the
   // user never has to re-enter them.
@@ -83,70 +134,171 @@ export function saveSyncMeta(meta: SyncMeta): void {
   } catch { /* ignore */ }
 }
 
-// ─── Supabase REST helpers ────────────────────────────────────────────────────
-
-function buildHeaders(anonKey: string): Record<string, string> {
-  return {
-    'apikey': anonKey,
-    'Authorization': `Bearer ${anonKey}`,
-    'Content-Type': 'application/json',
-  };
-}
-
-function buildTableUrl(supabaseUrl: string): string {
-  return `${supabaseUrl.replace(/\/$/, '')}/rest/v1/journals`;
-}
-
-/** Push local state to the cloud (upsert). */
-export async function pushToCloud(config: SyncConfig, state: unknown): Promise<void> {
-  if (!isValidSupabaseUrl(config.supabaseUrl)) throw new Error('Invalid Supabase URL');
-  const updatedAt = Date.now();
-  const body = JSON.stringify({
-    sync_key: config.syncKey,
-    payload: JSON.stringify(state),
-    updated_at: updatedAt,
-  });
-  const res = await fetch(`${buildTableUrl(config.supabaseUrl)}?on_conflict=sync_key`, {
-    method: 'POST',
-    headers: {
-      ...buildHeaders(config.anonKey),
-      'Prefer': 'resolution=merge-duplicates,return=minimal',
-    },
-    body,
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => String(res.status));
-    throw new Error(text);
+/** The journal as of the last successful sync with this config, or null if it never synced. */
+export function loadSyncBase(config: SyncConfig): Partial<JournalState> | null {
+  try {
+    const raw = localStorage.getItem(SYNC_BASE_KEY);
+    if (!raw) return null;
+    const base = JSON.parse(raw) as { endpoint: string; syncKey: string; state: Partial<JournalState> };
+    // A base from another journal would read as every record having been deleted
+    return base.endpoint === syncEndpoint(config) && base.syncKey === config.syncKey ? base.state : null;
+  } catch {
+    return null;
   }
-  saveSyncMeta({ lastPushedAt: updatedAt });
 }
 
-/** Pull state from the cloud. Returns null if no cloud data exists yet. */
-export async function pullFromCloud(config: SyncConfig): Promise<{ state: unknown; updatedAt: number } | null> {
-  if (!isValidSupabaseUrl(config.supabaseUrl)) throw new Error('Invalid Supabase URL');
-  const url = `${buildTableUrl(config.supabaseUrl)}?sync_key=eq.${encodeURIComponent(config.syncKey)}&select=payload,updated_at`;
-  const res = await fetch(url, { headers: buildHeaders(config.anonKey) });
-  if (!res.ok) {
-    const text = await res.text().catch(() => String(res.status));
-    throw new Error(text);
+export function saveSyncBase(config: SyncConfig, state: Partial<JournalState>): void {
+  try {
+    localStorage.setItem(SYNC_BASE_KEY, JSON.stringify({ endpoint: syncEndpoint(config), syncKey: config.syncKey, state }));
+  } catch { /* ignore */ }
+}
+
+/** This device's encryption key for the journal `config` points at, or null if it has none. */
+export function loadSyncSecret(config: SyncConfig): SyncSecret | null {
+  try {
+    const raw = localStorage.getItem(SYNC_SECRET_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as { endpoint: string; syncKey: string; secret: SyncSecret };
+    return stored.endpoint === syncEndpoint(config) && stored.syncKey === config.syncKey ? stored.secret : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSyncSecret(config: SyncConfig, secret: SyncSecret): void {
+  try {
+    localStorage.setItem(SYNC_SECRET_KEY, JSON.stringify({ endpoint: syncEndpoint(config), syncKey: config.syncKey, secret }));
+  } catch { /* ignore */ }
+}
+
+// ─── Push / pull ─────────────────────────────────────────────────────────────
+
+/**
+ * Push local state to the cloud. `state` should carry its schemaVersion.
+ * `expected` makes the write conditional: the updated_at of the copy this state
+ * was merged with, or null if the cloud had none. Omitted, it overwrites
+ * whatever is there. The payload is encrypted with `secret` — this device's
+ * stored one unless given. Returns the new updated_at.
+ */
+export async function pushToCloud(
+  config: SyncConfig,
+  state: unknown,
+  expected?: number | null,
+  secret: SyncSecret | null = loadSyncSecret(config),
+): Promise<number> {
+  const backend = createSyncBackend(config);
+  const version = schemaVersionOf(state);
+  const meta = loadSyncMeta();
+  const remoteVersion = meta.remoteSchemaVersion ?? 0;
+  if (remoteVersion > version) throw new NewerSchemaError(remoteVersion);
+  if (!secret && meta.remoteEncrypted) throw new PassphraseError('missing');
+  // Strictly increasing, so a clock behind the other device's can't repeat a version
+  const updatedAt = Math.max(Date.now(), (expected ?? 0) + 1);
+  const journal = { payload: JSON.stringify(secret ? await encryptPayload(state, secret, config.syncKey) : state), updatedAt };
+  await backend.push(journal, expected);
+  saveSyncMeta({ ...loadSyncMeta(), lastPushedAt: updatedAt, remoteSchemaVersion: version, remoteEncrypted: !!secret });
+  if (updatedAt - (meta.lastSnapshotAt ?? 0) >= SNAPSHOT_INTERVAL) {
+    try {
+      await backend.saveSnapshot(journal);
+      saveSyncMeta({ ...loadSyncMeta(), lastSnapshotAt: updatedAt });
+    } catch { /* snapshots are a safety net — the push itself succeeded */ }
   }
-  const rows = (await res.json()) as Array<{ payload: string; updated_at: number }>;
-  if (!rows || rows.length === 0) return null;
-  const row = rows[0];
+  return updatedAt;
+}
+
+function parsePayload(journal: StoredJournal): unknown {
   try {
-    return { state: JSON.parse(row.payload), updatedAt: row.updated_at };
+    return JSON.parse(journal.payload);
   } catch {
     throw new Error('Invalid cloud data format');
   }
 }
 
-// ─── Utilities ────────────────────────────────────────────────────────────────
+/** The cloud row as stored — possibly an EncryptedPayload. Returns null if no cloud data exists yet. */
+export async function readCloudRow(config: SyncConfig): Promise<{ payload: unknown; updatedAt: number } | null> {
+  const journal = await createSyncBackend(config).pull();
+  return journal && { payload: parsePayload(journal), updatedAt: journal.updatedAt };
+}
+
+/**
+ * Pull state from the cloud, decrypted with this device's passphrase.
+ * Returns null if no cloud data exists yet; throws PassphraseError if the
+ * payload is encrypted and this device can't open it.
+ */
+export async function pullFromCloud(config: SyncConfig): Promise<{ state: unknown; updatedAt: number } | null> {
+  const row = await readCloudRow(config);
+  if (!row) return null;
+  const { payload } = row;
+  const encrypted = isEncryptedPayload(payload);
+  saveSyncMeta({ ...loadSyncMeta(), remoteEncrypted: encrypted });
+  let state = payload;
+  if (encrypted) {
+    const secret = loadSyncSecret(config);
+    if (!secret) throw new PassphraseError('missing');
+    state = await decryptPayload(payload, secret, config.syncKey);
+    // Another device may have added the image key since this one unlocked
+    const imageKey = await unwrapImageKey(payload, secret, config.syncKey);
+    if (imageKey && imageKey !== secret.imageKey) saveSyncSecret(config, { ...secret, imageKey });
+  }
+  saveSyncMeta({ ...loadSyncMeta(), remoteSchemaVersion: schemaVersionOf(state) });
+  return { state, updatedAt: row.updatedAt };
+}
+
+// ─── Snapshots ───────────────────────────────────────────────────────────────
 
-/** Returns true if the URL looks like a valid Supabase project endpoint. */
-export function isValidSupabaseUrl(url: string): boolean {
-  return /^https:\/\/[a-zA-Z0-9_-]+\.supabase\.co\/?$/.test(url);
+export function listCloudSnapshots(config: SyncConfig): Promise<SyncSnapshot[]> {
+  return createSyncBackend(config).listSnapshots();
 }
 
+/** A snapshot's journal, decrypted. Throws PassphraseError if it was encrypted under another passphrase. */
+export async function pullCloudSnapshot(config: SyncConfig, id: string): Promise<{ state: unknown; updatedAt: number } | null> {
+  const journal = await createSyncBackend(config).pullSnapshot(id);
+  if (!journal) return null;
+  const payload = parsePayload(journal);
+  if (!isEncryptedPayload(payload)) return { state: payload, updatedAt: journal.updatedAt };
+  const secret = loadSyncSecret(config);
+  if (!secret) throw new PassphraseError('missing');
+  return { state: await decryptPayload(payload, secret, config.syncKey), updatedAt: journal.updatedAt };
+}
+
+/**
+ * Re-encrypts every snapshot under `next` after encryption is turned on or the
+ * passphrase changes, so none stays in plaintext or under the old passphrase.
+ * `previous` opens the ones encrypted before; any it can't open are deleted.
+ * Returns how many were deleted.
+ */
+export async function reencryptSnapshots(config: SyncConfig, previous: SyncSecret | null, next: SyncSecret): Promise<number> {
+  const backend = createSyncBackend(config);
+  let deleted = 0;
+  for (const { id } of await backend.listSnapshots()) {
+    const journal = await backend.pullSnapshot(id);
+    if (!journal) continue;
+    let state: unknown;
+    try {
+      const payload = parsePayload(journal);
+      if (!isEncryptedPayload(payload)) state = payload;
+      // Saved by the push that re-encrypted the journal
+      else if (payload.kdf.salt === next.salt) continue;
+      else if (previous) state = await decryptPayload(payload, previous, config.syncKey);
+    } catch { /* unreadable — dropped below */ }
+    if (state === undefined) {
+      await backend.deleteSnapshot(id);
+      deleted++;
+      continue;
+    }
+    const payload = JSON.stringify(await encryptPayload(state, next, config.syncKey));
+    await backend.replaceSnapshot({ payload, updatedAt: journal.updatedAt });
+  }
+  return deleted;
+}
+
+/** Resolves when the provider in `config` is reachable with its credentials; throws with the reason otherwise. */
+export function testSyncConnection(config: SyncConfig): Promise<void> {
+  return createSyncBackend(config).testConnection();
+}
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
 /** Generates a readable random sync key like "ABCD-EFGH-IJKL".
  *  Uses crypto.getRandomValues for a cryptographically secure key. */
 export function generateSyncKey(): string {
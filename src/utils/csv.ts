@@ -0,0 +1,113 @@
+/**
+ * Plain CSV reading plus the format sniffing broker exports need: delimiter,
+ * decimal separator and date order differ by platform and locale.
+ */
+
+export type DateFormat = 'ymd' | 'mdy' | 'dmy';
+export type DecimalSeparator = '.' | ',';
+
+export const DATE_FORMAT_LABEL: Record<DateFormat, string> = {
+  ymd: 'YYYY-MM-DD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY',
+};
+
+/** Picks whichever of comma, semicolon or tab appears most in the header line. */
+function detectDelimiter(text: string): string {
+  const end = text.indexOf('\n');
+  const header = end < 0 ? text : text.slice(0, end);
+  const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+/** Parses CSV text into rows of cells. Handles quoted cells, escaped quotes and CRLF. Blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(c => c.trim())) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim())) rows.push(row);
+  return rows.map(r => r.map(c => c.trim()));
+}
+
+/** Header names made unique, so MT4/MT5's two "Price" columns become "Price" and "Price (2)". */
+export function uniqueHeaders(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map(h => {
+    const n = (seen.get(h) ?? 0) + 1;
+    seen.set(h, n);
+    return n > 1 ? `${h} (${n})` : h;
+  });
+}
+
+const DATE_RE = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(AM|PM)?)?/i;
+
+/** Guesses the day/month order from sample values; ambiguous samples fall back to MM/DD. */
+export function detectDateFormat(samples: string[]): DateFormat {
+  const parts = samples.map(s => s.trim().match(DATE_RE)).filter((m): m is RegExpMatchArray => !!m);
+  if (parts.some(m => m[1].length === 4)) return 'ymd';
+  if (parts.some(m => parseInt(m[1]) > 12)) return 'dmy';
+  return 'mdy';
+}
+
+/** Parses a broker timestamp as local time, or null when it doesn't fit the format. */
+export function parseDate(raw: string, format: DateFormat): Date | null {
+  const value = raw.trim();
+  // Explicit offsets (ISO with Z or ±hh:mm) are already unambiguous
+  if (/\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? null : d;
+  }
+  const m = value.match(DATE_RE);
+  if (!m) return null;
+  const [a, b, c] = [m[1], m[2], m[3]].map(Number);
+  const [y, month, day] = format === 'ymd' ? [a, b, c] : format === 'mdy' ? [c, a, b] : [c, b, a];
+  const year = y < 100 ? y + 2000 : y;
+  let hour = m[4] ? parseInt(m[4]) : 0;
+  if (m[7]) hour = (hour % 12) + (m[7].toUpperCase() === 'PM' ? 12 : 0);
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23) return null;
+  const d = new Date(year, month - 1, day, hour, m[5] ? parseInt(m[5]) : 0, m[6] ? parseInt(m[6]) : 0);
+  return isNaN(d.getTime()) || d.getDate() !== day ? null : d;
+}
+
+/** Comma decimals show up as "12,5" or "1.234,56"; a lone "1,234" is read as a thousands separator. */
+export function detectDecimal(samples: string[]): DecimalSeparator {
+  return samples.some(s => /\d,(\d{1,2}|\d{4,})$/.test(s.trim())) ? ',' : '.';
+}
+
+/** Parses amounts like "1,234.50", "-45", "$12.00", "(12.50)" or, with ',' decimals, "1.234,50". */
+export function parseNumber(raw: string, decimal: DecimalSeparator): number | null {
+  let value = raw.trim().replace(/[\s$€£¥]/g, '');
+  if (!value) return null;
+  const negative = /^\(.*\)$/.test(value);
+  if (negative) value = value.slice(1, -1);
+  value = decimal === ',' ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+  const n = Number(value);
+  if (!isFinite(n)) return null;
+  return negative ? -n : n;
+}
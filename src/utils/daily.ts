@@ -0,0 +1,28 @@
+import type { DailyEntry, Trade } from '../types/trade';
+
+/** Local calendar day as YYYY-MM-DD — the key used for DailyEntry records. */
+export function dayKey(date: Date | string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Shifts a YYYY-MM-DD key by whole days. */
+export function shiftDay(key: string, days: number): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return dayKey(new Date(y, m - 1, d + days));
+}
+
+/** Parses a day key as local midnight (new Date('YYYY-MM-DD') would be UTC). */
+export function parseDayKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function tradesOnDay(trades: Trade[], key: string): Trade[] {
+  return trades.filter(t => dayKey(t.date) === key);
+}
+
+export function hasPlan(entry: DailyEntry | undefined): boolean {
+  return !!entry && !!(entry.bias || entry.keyLevels?.trim() || entry.news?.trim() || entry.plan?.trim());
+}
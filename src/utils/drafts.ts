@@ -0,0 +1,115 @@
+/**
+ * In-progress Add Trade forms, kept per device so a reload or an accidental
+ * close doesn't lose what was typed. Fields live in localStorage; staged
+ * screenshots are written to IndexedDB through imageStore as soon as they are
+ * picked, and only their keys are kept here.
+ */
+import type { Direction, ExecutionSide, TradeResult, TradeStatus } from '../types/trade';
+import { deleteImages } from './imageStore';
+
+/** Form-side fill row: raw strings so partially typed numbers survive re-renders. */
+export interface FillDraft {
+  id: string;
+  time: string;
+  side: ExecutionSide;
+  quantity: string;
+  price: string;
+  fee: string;
+}
+
+/** Everything the Add Trade form holds, as the form holds it (mostly raw strings). */
+export interface TradeFormFields {
+  status: TradeStatus;
+  hypotheticalResult: TradeResult | '';
+  accountId: string;
+  symbol: string;
+  direction: Direction;
+  timeframe: string;
+  session: string;
+  setup: string;
+  strategyType: string;
+  pnl: string;
+  autoPnl: boolean;
+  entryPrice: string;
+  stopLoss: string;
+  takeProfit: string;
+  exitPrice: string;
+  positionSize: string;
+  commission: string;
+  fees: string;
+  fills: FillDraft[];
+  emotion: string;
+  tags: string[];
+  mistakes: string[];
+  metRules: string[];
+  notes: string;
+  tradeDate: string;
+  /** Saved screenshots of the trade being edited that are still attached */
+  imageIds: string[];
+}
+
+export interface TradeDraft {
+  id: string;
+  name: string;
+  /** Set when the draft is an unsaved edit of an existing trade */
+  editId?: string;
+  fields: TradeFormFields;
+  /** Screenshots picked in this draft, already stored in IndexedDB */
+  stagedImageIds: string[];
+  updatedAt: string;
+}
+
+const DRAFTS_KEY = 'crtv_trade_drafts';
+
+export function loadDrafts(): TradeDraft[] {
+  try {
+    const raw = localStorage.getItem(DRAFTS_KEY);
+    if (raw) return JSON.parse(raw) as TradeDraft[];
+  } catch { /* ignore */ }
+  return [];
+}
+
+function saveDrafts(drafts: TradeDraft[]): void {
+  try {
+    if (drafts.length) {
+      localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+    } else {
+      localStorage.removeItem(DRAFTS_KEY);
+    }
+  } catch { /* ignore */ }
+}
+
+/** Drafts that belong to the given form: new trades (no editId) or one specific edit. */
+export function draftsFor(editId: string | undefined): TradeDraft[] {
+  return loadDrafts()
+    .filter(d => d.editId === editId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function upsertDraft(draft: TradeDraft): void {
+  const drafts = loadDrafts();
+  const exists = drafts.some(d => d.id === draft.id);
+  saveDrafts(exists ? drafts.map(d => d.id === draft.id ? draft : d) : [...drafts, draft]);
+}
+
+/** Drops the draft record. Its staged images are kept — call discardDraft to delete those too. */
+export function removeDraft(id: string): void {
+  saveDrafts(loadDrafts().filter(d => d.id !== id));
+}
+
+/** Drops edit drafts whose trade no longer exists and returns the drafts that are left. */
+export function pruneDrafts(tradeIds: Set<string>): TradeDraft[] {
+  const drafts = loadDrafts();
+  const kept = drafts.filter(d => !d.editId || tradeIds.has(d.editId));
+  if (kept.length < drafts.length) saveDrafts(kept);
+  return kept;
+}
+
+export async function discardDraft(draft: TradeDraft): Promise<void> {
+  removeDraft(draft.id);
+  await deleteImages(draft.stagedImageIds);
+}
+
+export function defaultDraftName(fields: TradeFormFields): string {
+  return fields.symbol.trim() ? `${fields.symbol.trim().toUpperCase()} ${fields.direction}` : 'Untitled trade';
+}
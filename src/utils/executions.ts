@@ -0,0 +1,68 @@
+import type { Direction, Execution, Instrument } from '../types/trade';
+import { pointValue } from './instruments';
+
+export interface ExecutionSummary {
+  avgEntry: number | null;
+  avgExit: number | null;
+  /** Quantity opened (buys for a long, sells for a short) */
+  entryQty: number;
+  /** Quantity closed */
+  exitQty: number;
+  /** Quantity still open — positive while the position isn't flat */
+  openQty: number;
+  fees: number;
+  /** Realized P&L on the closed quantity before fees; null without an instrument to price it */
+  grossPnl: number | null;
+  /** First fill to last fill, in ms */
+  holdMs: number;
+}
+
+function weightedAvg(fills: Execution[]): number | null {
+  const qty = fills.reduce((a, f) => a + f.quantity, 0);
+  if (qty <= 0) return null;
+  return fills.reduce((a, f) => a + f.price * f.quantity, 0) / qty;
+}
+
+export function sortExecutions(executions: Execution[]): Execution[] {
+  return [...executions].sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+/** Derives average prices, realized P&L and hold time from a trade's fills. */
+export function summarizeExecutions(
+  executions: Execution[],
+  direction: Direction,
+  instrument?: Instrument,
+): ExecutionSummary {
+  const openSide = direction === 'Long' ? 'Buy' : 'Sell';
+  const entries = executions.filter(e => e.side === openSide);
+  const exits = executions.filter(e => e.side !== openSide);
+  const entryQty = entries.reduce((a, f) => a + f.quantity, 0);
+  const exitQty = exits.reduce((a, f) => a + f.quantity, 0);
+  const avgEntry = weightedAvg(entries);
+  const avgExit = weightedAvg(exits);
+  const fees = executions.reduce((a, f) => a + (f.fee ?? 0), 0);
+
+  let grossPnl: number | null = null;
+  if (instrument && avgEntry !== null && avgExit !== null) {
+    const closedQty = Math.min(entryQty, exitQty);
+    const move = direction === 'Long' ? avgExit - avgEntry : avgEntry - avgExit;
+    grossPnl = parseFloat((move * closedQty * pointValue(instrument)).toFixed(2));
+  }
+
+  const times = executions.map(e => new Date(e.time).getTime()).filter(t => !isNaN(t));
+  const holdMs = times.length > 1 ? Math.max(...times) - Math.min(...times) : 0;
+
+  return { avgEntry, avgExit, entryQty, exitQty, openQty: entryQty - exitQty, fees, grossPnl, holdMs };
+}
+
+/** Compact duration like "45s", "12m" or "2h 05m". */
+export function formatDuration(ms: number): string {
+  const totalMin = Math.floor(ms / 60_000);
+  if (totalMin < 1) return `${Math.floor(ms / 1_000)}s`;
+  if (totalMin < 60) return `${totalMin}m`;
+  const days = Math.floor(totalMin / 1440);
+  const hours = Math.floor((totalMin % 1440) / 60);
+  const mins = totalMin % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  return `${hours}h ${String(mins).padStart(2, '0')}m`;
+}
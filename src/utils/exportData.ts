@@ -0,0 +1,31 @@
+import type { Account, PnlMode, Trade } from '../types/trade';
+import { tradeStatus } from './lifecycle';
+import { tradePnl, tradeFees } from './pnl';
+
+function csvCell(v: unknown): string {
+  const str = v === undefined || v === null ? '' : String(v);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/** Flat CSV of trades. The P&L column follows the Gross / Net toggle; total costs are always included. */
+export function tradesToCsv(trades: Trade[], accounts: Account[], mode: PnlMode): string {
+  const pnlHeader = `pnl_${mode}`;
+  const headers = ['id', 'date', 'status', 'account', 'symbol', 'direction', 'timeframe', 'session', 'setup', 'strategyType', pnlHeader, 'fees_total', 'emotion', 'tags', 'mistakes', 'adherence', 'notes'];
+  const rows = trades.map(t => {
+    const account = accounts.find(a => a.id === t.accountId)?.name;
+    const record: Record<string, unknown> = { ...t, status: tradeStatus(t), account, [pnlHeader]: tradePnl(t, mode), fees_total: tradeFees(t).toFixed(2), tags: t.tags?.join(';'), mistakes: t.mistakes?.join(';') };
+    return headers.map(h => csvCell(record[h])).join(',');
+  });
+  return [headers.join(','), ...rows].join('\n');
+}
+
+/** Saves `content` through a temporary download link. */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
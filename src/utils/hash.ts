@@ -0,0 +1,6 @@
+/** Hex SHA-256 of bytes or of a string's UTF-8 encoding. */
+export async function sha256(data: BufferSource | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const hash = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hash), b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -1,6 +1,20 @@
+import { sha256 } from './hash';
+
 const DB_NAME = 'crtv_images';
 const STORE_NAME = 'blobs';
 
+/**
+ * Keys are `idb:sha256-<hex>-<random>`: unique per attachment, so deleting one
+ * never removes a blob another trade still uses, while the content hash lets
+ * cloud sync fetch the image on other devices. Older keys are `idb:<timestamp>-<random>`.
+ */
+const HASHED_KEY = /^idb:sha256-([0-9a-f]{64})-/;
+
+/** Downloads an image this device doesn't have; registered by cloud image sync. */
+type RemoteImageSource = (id: string) => Promise<Blob | null>;
+let remoteSource: RemoteImageSource | null = null;
+const inFlight = new Map<string, Promise<Blob | null>>();
+
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const req = indexedDB.open(DB_NAME, 1);
@@ -12,34 +26,71 @@ function openDB(): Promise<IDBDatabase> {
   });
 }
 
-export async function storeImage(blob: Blob): Promise<string> {
-  const id = `idb:${Date.now()}-${Math.random().toString(36).slice(2)}`;
+/** The SHA-256 of the image's bytes, or null for keys that predate content hashing. */
+export function contentHashOf(id: string): string | null {
+  return HASHED_KEY.exec(id)?.[1] ?? null;
+}
+
+export function setRemoteImageSource(source: RemoteImageSource | null): void {
+  remoteSource = source;
+}
+
+async function putBlob(id: string, blob: Blob): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readwrite');
     tx.objectStore(STORE_NAME).put(blob, id);
-    tx.oncomplete = () => resolve(id);
+    tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
 }
 
-export async function loadImageUrl(id: string): Promise<string | null> {
-  if (!id.startsWith('idb:')) return id;
+async function readBlob(id: string): Promise<Blob | null> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readonly');
     const req = tx.objectStore(STORE_NAME).get(id);
-    req.onsuccess = () => {
-      if (req.result instanceof Blob) {
-        resolve(URL.createObjectURL(req.result));
-      } else {
-        resolve(null);
-      }
-    };
+    req.onsuccess = () => resolve(req.result instanceof Blob ? req.result : null);
     req.onerror = () => reject(req.error);
   });
 }
 
+/** Local blob, else a one-time download that is kept so later views are local. */
+async function getBlob(id: string): Promise<Blob | null> {
+  const local = await readBlob(id);
+  if (local || !remoteSource || !contentHashOf(id)) return local;
+  let pending = inFlight.get(id);
+  if (!pending) {
+    const source = remoteSource;
+    pending = (async () => {
+      const blob = await source(id).catch(() => null);
+      if (blob) await putBlob(id, blob);
+      return blob;
+    })().finally(() => inFlight.delete(id));
+    inFlight.set(id, pending);
+  }
+  return pending;
+}
+
+export async function storeImage(blob: Blob): Promise<string> {
+  const hash = await sha256(await blob.arrayBuffer());
+  const id = `idb:sha256-${hash}-${Math.random().toString(36).slice(2, 8)}`;
+  await putBlob(id, blob);
+  return id;
+}
+
+export async function loadImageUrl(id: string): Promise<string | null> {
+  if (!id.startsWith('idb:')) return id;
+  const blob = await getBlob(id);
+  return blob ? URL.createObjectURL(blob) : null;
+}
+
+/** `remote: false` skips the download fallback, for callers that only want what is on this device. */
+export async function loadImageBlob(id: string, { remote = true } = {}): Promise<Blob | null> {
+  if (!id.startsWith('idb:')) return null;
+  return remote ? getBlob(id) : readBlob(id);
+}
+
 export async function deleteImages(ids: string[]): Promise<void> {
   if (!ids.length) return;
   const db = await openDB();
@@ -52,12 +103,12 @@ export async function deleteImages(ids: string[]): Promise<void> {
   });
 }
 
-export async function clearAllImages(): Promise<void> {
+/** Every image key stored on this device. */
+export async function listImages(): Promise<string[]> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    tx.objectStore(STORE_NAME).clear();
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
+    const req = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAllKeys();
+    req.onsuccess = () => resolve(req.result.map(String));
+    req.onerror = () => reject(req.error);
   });
 }
@@ -0,0 +1,188 @@
+/**
+ * Screenshot sync through the sync provider's object storage — for Supabase,
+ * the bucket set up in cloudSync.ts. Objects are named by the SHA-256 of the
+ * image, under a folder derived from the sync key, so each image is uploaded
+ * once however many trades use it. Other devices download an image the first
+ * time it is viewed (imageStore's remote source). With a passphrase set,
+ * images are encrypted under the journal's image key and stored as
+ * `<hash>.enc`.
+ *
+ * Uploads wait in a queue kept in localStorage, so closing the tab mid-sync
+ * only delays them until the next sync.
+ */
+import { contentHashOf, loadImageBlob, storeImage } from './imageStore';
+import { sha256 } from './hash';
+import { loadSyncSecret, saveSyncSecret } from './cloudSync';
+import { createSyncBackend, syncEndpoint, syncKeyId, type SyncConfig } from './syncProviders';
+import { decryptImage, encryptImage, generateImageKey } from './syncCrypto';
+
+const IMAGE_QUEUE_KEY = 'crtv_image_queue';
+
+interface ImageQueue {
+  /** The sync target and key the queue belongs to */
+  endpoint: string;
+  syncKey: string;
+  /** Image keys waiting to be uploaded */
+  pending: string[];
+  /** Content hashes known to be in the bucket */
+  uploaded: string[];
+  /** Bytes the bucket folder held at the last upload */
+  usedBytes: number;
+}
+
+export interface ImageSyncStatus {
+  /** Screenshots on this device not yet in the cloud */
+  pending: number;
+  usedBytes: number;
+  /** Uploads stopped because the next one would pass the storage limit */
+  limitReached: boolean;
+  /** Why the last upload run failed */
+  error?: string;
+}
+
+function loadQueue(config: SyncConfig): ImageQueue {
+  const fresh: ImageQueue = { endpoint: syncEndpoint(config), syncKey: config.syncKey, pending: [], uploaded: [], usedBytes: 0 };
+  try {
+    const raw = localStorage.getItem(IMAGE_QUEUE_KEY);
+    if (!raw) return fresh;
+    const queue = JSON.parse(raw) as ImageQueue;
+    // A queue for another project or journal doesn't apply
+    if (queue.endpoint !== syncEndpoint(config) || queue.syncKey !== config.syncKey) return fresh;
+    return queue;
+  } catch {
+    return fresh;
+  }
+}
+
+function saveQueue(queue: ImageQueue): void {
+  try {
+    localStorage.setItem(IMAGE_QUEUE_KEY, JSON.stringify(queue));
+  } catch { /* storage full */ }
+}
+
+/** Additional data for an encrypted image, so an object can't be swapped for another. */
+function imageContext(config: SyncConfig, hash: string): string {
+  return `${config.syncKey}:${hash}`;
+}
+
+export function queuedImages(config: SyncConfig): ImageSyncStatus {
+  const queue = loadQueue(config);
+  return { pending: queue.pending.length, usedBytes: queue.usedBytes, limitReached: false };
+}
+
+/** Queues screenshots the bucket doesn't have yet. Keys that predate content hashing are skipped. */
+export function enqueueImages(config: SyncConfig, keys: string[]): void {
+  const queue = loadQueue(config);
+  const uploaded = new Set(queue.uploaded);
+  const pending = new Set(queue.pending);
+  const added = keys.filter(k => {
+    const hash = contentHashOf(k);
+    return hash && !uploaded.has(hash) && !pending.has(k);
+  });
+  if (added.length) saveQueue({ ...queue, pending: [...queue.pending, ...added] });
+}
+
+/**
+ * Gives an encrypted journal an image key if it was set up before images were
+ * encrypted. Returns true when a key was created, so the caller pushes the
+ * journal and other devices receive it.
+ */
+export function ensureImageKey(config: SyncConfig): boolean {
+  const secret = loadSyncSecret(config);
+  if (!secret || secret.imageKey) return false;
+  saveSyncSecret(config, { ...secret, imageKey: generateImageKey() });
+  return true;
+}
+
+/** Uploads queued screenshots until the queue is empty or the next one would pass `limitBytes`. */
+export async function uploadQueuedImages(config: SyncConfig, limitBytes: number): Promise<ImageSyncStatus> {
+  let queue = loadQueue(config);
+  if (!queue.pending.length) return { pending: 0, usedBytes: queue.usedBytes, limitReached: false };
+  try {
+    const backend = createSyncBackend(config);
+    const folder = await syncKeyId(config.syncKey);
+    const objects = await backend.listObjects(folder);
+    const remote = new Set(objects.map(o => o.name.replace(/\.enc$/, '')));
+    let usedBytes = objects.reduce((sum, o) => sum + o.size, 0);
+    const imageKey = loadSyncSecret(config)?.imageKey;
+
+    while (queue.pending.length) {
+      const [key, ...rest] = queue.pending;
+      const hash = contentHashOf(key);
+      const blob = hash && !remote.has(hash) ? await loadImageBlob(key, { remote: false }) : null;
+      // Already uploaded, or not on this device — whichever device has it uploads it
+      if (!hash || !blob) {
+        queue = { ...queue, pending: rest, uploaded: hash && remote.has(hash) ? [...queue.uploaded, hash] : queue.uploaded };
+        saveQueue({ ...queue, usedBytes });
+        continue;
+      }
+      const body = imageKey
+        ? new Blob([await encryptImage(new Uint8Array(await blob.arrayBuffer()), imageKey, imageContext(config, hash))], { type: 'application/octet-stream' })
+        : blob;
+      if (usedBytes + body.size > limitBytes) {
+        saveQueue({ ...queue, usedBytes });
+        return { pending: queue.pending.length, usedBytes, limitReached: true };
+      }
+      if (await backend.uploadObject(`${folder}/${hash}${imageKey ? '.enc' : ''}`, body)) usedBytes += body.size;
+      remote.add(hash);
+      queue = { ...queue, pending: rest, uploaded: [...queue.uploaded, hash] };
+      saveQueue({ ...queue, usedBytes });
+    }
+    return { pending: 0, usedBytes, limitReached: false };
+  } catch (err) {
+    return {
+      pending: queue.pending.length,
+      usedBytes: queue.usedBytes,
+      limitReached: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/** Fetches a screenshot from the bucket and checks it against the hash in its key. */
+export async function downloadImage(config: SyncConfig, key: string): Promise<Blob | null> {
+  const hash = contentHashOf(key);
+  if (!hash) return null;
+  const backend = createSyncBackend(config);
+  const folder = await syncKeyId(config.syncKey);
+  const imageKey = loadSyncSecret(config)?.imageKey;
+  let bytes: Uint8Array<ArrayBuffer> | null = null;
+  let type = '';
+  const sealed = imageKey ? await backend.downloadObject(`${folder}/${hash}.enc`) : null;
+  if (sealed && imageKey) {
+    bytes = await decryptImage(new Uint8Array(await sealed.arrayBuffer()), imageKey, imageContext(config, hash));
+  } else {
+    // Uploaded before encryption was turned on, or never encrypted
+    const plain = await backend.downloadObject(`${folder}/${hash}`);
+    if (plain) {
+      bytes = new Uint8Array(await plain.arrayBuffer());
+      type = plain.type;
+    }
+  }
+  if (!bytes || (await sha256(bytes)) !== hash) return null;
+  return new Blob([bytes], { type: type || sniffImageType(bytes) });
+}
+
+/** Encrypted objects carry no content type, so recover it from the file signature. */
+function sniffImageType(bytes: Uint8Array): string {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49) return 'image/gif';
+  if (bytes[8] === 0x57 && bytes[9] === 0x45) return 'image/webp';
+  return 'application/octet-stream';
+}
+
+/**
+ * Copies screenshots stored under pre-hash keys to content-hashed keys so they
+ * can sync. Returns old key → new key for the ones found on this device; the
+ * old blobs stay, in case a draft still points at them.
+ */
+export async function rekeyLegacyImages(keys: string[]): Promise<Record<string, string>> {
+  const keyMap: Record<string, string> = {};
+  for (const key of keys) {
+    if (contentHashOf(key)) continue;
+    const blob = await loadImageBlob(key, { remote: false });
+    if (blob) keyMap[key] = await storeImage(blob);
+  }
+  return keyMap;
+}
@@ -0,0 +1,29 @@
+import type { Direction, Instrument } from '../types/trade';
+
+/** Case-insensitive lookup of a catalog entry by symbol. */
+export function findInstrument(instruments: Instrument[], symbol: string): Instrument | undefined {
+  const key = symbol.trim().toUpperCase();
+  if (!key) return undefined;
+  return instruments.find(i => i.symbol.toUpperCase() === key);
+}
+
+/** Money value of a one-point move for a single contract / lot / share (the contract multiplier). */
+export function pointValue(instrument: Instrument): number {
+  return instrument.tickSize > 0 ? instrument.tickValue / instrument.tickSize : 0;
+}
+
+/** Gross P&L in the instrument's quote currency, or null when any input is missing. */
+export function calcPnl(
+  instrument: Instrument | undefined,
+  direction: Direction,
+  entryPrice: number | undefined,
+  exitPrice: number | undefined,
+  quantity: number | undefined,
+): number | null {
+  if (!instrument || entryPrice === undefined || exitPrice === undefined || quantity === undefined) return null;
+  if (instrument.tickSize <= 0) return null;
+  const move = direction === 'Long' ? exitPrice - entryPrice : entryPrice - exitPrice;
+  // Round to whole ticks first so float noise (e.g. 0.1 + 0.2) doesn't leak into the money value
+  const ticks = Math.round(move / instrument.tickSize);
+  return parseFloat((ticks * instrument.tickValue * quantity).toFixed(2));
+}
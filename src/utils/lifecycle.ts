@@ -0,0 +1,33 @@
+import type { Trade, TradeStatus } from '../types/trade';
+
+export const STATUS_LABEL: Record<TradeStatus, string> = {
+  planned: 'Planned',
+  open: 'Open',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+};
+
+export function tradeStatus(t: Trade): TradeStatus {
+  return t.status ?? 'closed';
+}
+
+/** Only closed trades have a final P&L and count towards performance stats. */
+export function isClosed(t: Trade): boolean {
+  return tradeStatus(t) === 'closed';
+}
+
+const STAMP_FIELD: Partial<Record<TradeStatus, 'plannedAt' | 'openedAt' | 'closedAt'>> = {
+  planned: 'plannedAt',
+  open: 'openedAt',
+  closed: 'closedAt',
+};
+
+/** Moves a trade to `status`, stamping when it first reached that stage. Earlier stamps are kept. */
+export function transitionTrade(t: Trade, status: TradeStatus, at = new Date().toISOString()): Trade {
+  const field = STAMP_FIELD[status];
+  const next: Trade = { ...t, status };
+  if (field && !next[field]) next[field] = at;
+  if (status !== 'cancelled') next.hypotheticalResult = undefined;
+  if (status !== 'closed') next.pnl = 0;
+  return next;
+}
@@ -0,0 +1,129 @@
+/**
+ * Merge-import: combines another journal (a second device, a teammate's
+ * export) with this one instead of replacing it. Trades are matched by id,
+ * or by fingerprint when the same trade was logged separately on both sides.
+ */
+import type { JournalState, TaxonomyKind, Trade } from '../types/trade';
+import { generateId } from './id';
+
+export type MatchKind = 'new' | 'identical' | 'changed' | 'conflict';
+
+export interface TradeMatch {
+  kind: MatchKind;
+  incoming: Trade;
+  local?: Trade;
+  /** How the local trade was found */
+  by?: 'id' | 'fingerprint';
+  /** Fields whose values differ, for changed and conflicting trades */
+  fields: (keyof Trade)[];
+}
+
+/** Symbol, minute, direction and P&L — enough to spot the same trade logged on two devices. */
+export function tradeFingerprint(t: Trade): string {
+  const time = new Date(t.date);
+  const minute = isNaN(time.getTime()) ? t.date : time.toISOString().slice(0, 16);
+  return [t.symbol.trim().toUpperCase(), minute, t.direction, t.pnl.toFixed(2)].join('|');
+}
+
+const isBlank = (v: unknown) => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+const same = (a: unknown, b: unknown) => (isBlank(a) && isBlank(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+/** Identity and bookkeeping fields that don't count as a difference */
+const IGNORED: (keyof Trade)[] = ['id', 'createdAt', 'updatedAt'];
+
+/** A field value as shown in a before → after comparison. */
+export function formatFieldValue(v: unknown): string {
+  if (v === undefined || v === null || v === '') return '—';
+  if (Array.isArray(v)) return v.every(x => typeof x === 'string') ? v.join(', ') || '—' : `${v.length} item(s)`;
+  if (typeof v === 'object') return 'set';
+  return String(v);
+}
+
+export function tradeTitle(t: Trade): string {
+  return `${t.symbol} · ${new Date(t.date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * Classifies every incoming trade. A match is "changed" when the incoming copy
+ * only fills in fields that are blank here (safe to take), and a "conflict"
+ * when both sides hold different values for the same field.
+ */
+export function diffTrades(local: Trade[], incoming: Trade[]): TradeMatch[] {
+  const byId = new Map(local.map(t => [t.id, t]));
+  const byPrint = new Map<string, Trade>();
+  for (const t of local) if (!byPrint.has(tradeFingerprint(t))) byPrint.set(tradeFingerprint(t), t);
+  const used = new Set<string>();
+  // Ids are matched first, so a fingerprint match can't claim the trade a later incoming one has the id of
+  const idMatches = incoming.map(t => {
+    const mine = byId.get(t.id);
+    if (!mine || used.has(mine.id)) return undefined;
+    used.add(mine.id);
+    return mine;
+  });
+  const ids = new Set(local.map(t => t.id));
+
+  return incoming.map((t, i) => {
+    let mine = idMatches[i];
+    let by: TradeMatch['by'] = 'id';
+    if (!mine) {
+      const print = byPrint.get(tradeFingerprint(t));
+      mine = print && !used.has(print.id) ? print : undefined;
+      by = 'fingerprint';
+    }
+    if (!mine) {
+      // A new trade whose id is taken — by an unmatched local trade or an earlier incoming one — gets a fresh id
+      if (ids.has(t.id)) return { kind: 'new', incoming: { ...t, id: generateId() }, fields: [] };
+      ids.add(t.id);
+      return { kind: 'new', incoming: t, fields: [] };
+    }
+    used.add(mine.id);
+
+    const keys = new Set([...Object.keys(mine), ...Object.keys(t)] as (keyof Trade)[]);
+    const fields = [...keys].filter(k => !IGNORED.includes(k) && !same(mine[k], t[k]));
+    const kind: MatchKind = fields.length === 0 ? 'identical' : fields.every(k => isBlank(mine[k])) ? 'changed' : 'conflict';
+    return { kind, incoming: t, local: mine, by, fields };
+  });
+}
+
+function addMissing<T>(mine: T[], theirs: T[] | undefined, key: (item: T) => string): T[] {
+  const known = new Set(mine.map(key));
+  return [...mine, ...(theirs ?? []).filter(item => !known.has(key(item)))];
+}
+
+/**
+ * The merged journal: new trades added, changed trades updated, conflicts
+ * resolved per `takeTheirs` (incoming trade ids). Matched trades keep the local
+ * id. Accounts, instruments, templates, reviews, daily entries and category
+ * values that only exist in the import are added; settings stay as they are.
+ */
+export function mergeJournal(
+  local: JournalState,
+  incoming: Partial<JournalState>,
+  matches: TradeMatch[],
+  takeTheirs: Set<string>,
+): JournalState {
+  const replacements = new Map<string, Trade>();
+  const added: Trade[] = [];
+  for (const m of matches) {
+    if (m.kind === 'new') added.push(m.incoming);
+    else if (m.local && (m.kind === 'changed' || (m.kind === 'conflict' && takeTheirs.has(m.incoming.id)))) {
+      replacements.set(m.local.id, { ...m.incoming, id: m.local.id, createdAt: m.local.createdAt });
+    }
+  }
+
+  const taxonomies = { ...local.taxonomies };
+  for (const kind of Object.keys(taxonomies) as TaxonomyKind[]) {
+    taxonomies[kind] = addMissing(local.taxonomies[kind], incoming.taxonomies?.[kind], i => i.label.toLowerCase());
+  }
+
+  return {
+    ...local,
+    trades: [...added, ...local.trades.map(t => replacements.get(t.id) ?? t)],
+    accounts: addMissing(local.accounts, incoming.accounts, a => a.id),
+    instruments: addMissing(local.instruments, incoming.instruments, i => i.symbol.toUpperCase()),
+    templates: addMissing(local.templates, incoming.templates, t => t.id),
+    reviews: addMissing(local.reviews, incoming.reviews, r => `${r.period}:${r.start}`),
+    dailyEntries: { ...incoming.dailyEntries, ...local.dailyEntries },
+    taxonomies,
+  };
+}
@@ -0,0 +1,25 @@
+import type { PnlMode, TaxonomyItem, Trade } from '../types/trade';
+import { groupingValues } from './taxonomy';
+import { tradePnl } from './pnl';
+
+export interface MistakeCost {
+  mistake: string;
+  count: number;
+  /** Summed P&L of the trades carrying this mistake — negative means it cost money */
+  pnl: number;
+}
+
+/** Mistakes that occurred in the given trades, most expensive first (then most frequent). */
+export function mistakeCosts(trades: Trade[], items: TaxonomyItem[], mode: PnlMode): MistakeCost[] {
+  return groupingValues(items, trades, 'mistake')
+    .map(mistake => {
+      const mt = trades.filter(t => t.mistakes?.includes(mistake));
+      return {
+        mistake,
+        count: mt.length,
+        pnl: parseFloat(mt.reduce((a, t) => a + tradePnl(t, mode), 0).toFixed(2)),
+      };
+    })
+    .filter(m => m.count > 0)
+    .sort((a, b) => a.pnl - b.pnl || b.count - a.count);
+}
@@ -0,0 +1,26 @@
+import type { PnlMode, Trade, TradeResult } from '../types/trade';
+
+/** Commission, fees and any per-fill fees attached to the trade. */
+export function tradeFees(t: Trade): number {
+  const fillFees = (t.executions ?? []).reduce((a, e) => a + (e.fee ?? 0), 0);
+  return (t.commission ?? 0) + (t.fees ?? 0) + fillFees;
+}
+
+export function netPnl(t: Trade): number {
+  return parseFloat((t.pnl - tradeFees(t)).toFixed(2));
+}
+
+/** The trade's P&L on the basis selected in settings. */
+export function tradePnl(t: Trade, mode: PnlMode): number {
+  return mode === 'net' ? netPnl(t) : t.pnl;
+}
+
+export function tradeResult(t: Trade, mode: PnlMode): TradeResult {
+  const v = tradePnl(t, mode);
+  return v > 0 ? 'Win' : v < 0 ? 'Loss' : 'BE';
+}
+
+export const PNL_MODE_LABEL: Record<PnlMode, string> = {
+  gross: 'Gross',
+  net: 'Net',
+};
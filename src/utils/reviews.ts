@@ -0,0 +1,95 @@
+import type { PnlMode, ReviewPeriod, Trade } from '../types/trade';
+import { dayKey, parseDayKey } from './daily';
+import { tradePnl } from './pnl';
+
+export const REVIEW_PROMPTS: Record<ReviewPeriod, string[]> = {
+  week: [
+    'What worked this week?',
+    'What didn\'t work?',
+    'Which rules did I break, and why?',
+    'What will I change next week?',
+    'One thing to focus on next week',
+  ],
+  month: [
+    'What were the best setups this month?',
+    'Where did most of the losses come from?',
+    'How well did I follow my plan?',
+    'What will I change next month?',
+    'Goals for next month',
+  ],
+};
+
+export const PERIOD_LABEL: Record<ReviewPeriod, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+/** Day keys bounding the week (Monday–Sunday) or calendar month containing `date`. */
+export function periodRange(period: ReviewPeriod, date: Date): { start: string; end: string } {
+  if (period === 'month') {
+    return {
+      start: dayKey(new Date(date.getFullYear(), date.getMonth(), 1)),
+      end: dayKey(new Date(date.getFullYear(), date.getMonth() + 1, 0)),
+    };
+  }
+  const offset = (date.getDay() + 6) % 7;
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+  return {
+    start: dayKey(monday),
+    end: dayKey(new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6)),
+  };
+}
+
+/** The range one period before (-1) or after (+1) the one starting at `start`. */
+export function shiftPeriod(period: ReviewPeriod, start: string, delta: number): { start: string; end: string } {
+  const d = parseDayKey(start);
+  return period === 'month'
+    ? periodRange('month', new Date(d.getFullYear(), d.getMonth() + delta, 1))
+    : periodRange('week', new Date(d.getFullYear(), d.getMonth(), d.getDate() + delta * 7));
+}
+
+export function periodTitle(period: ReviewPeriod, start: string, end: string): string {
+  const s = parseDayKey(start);
+  if (period === 'month') return s.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  const e = parseDayKey(end);
+  return `${s.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${e.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+export function tradesInRange(trades: Trade[], start: string, end: string): Trade[] {
+  return trades.filter(t => {
+    const key = dayKey(t.date);
+    return key >= start && key <= end;
+  });
+}
+
+export interface ReviewStats {
+  trades: number;
+  pnl: number;
+  winRate: number;
+  best?: Trade;
+  worst?: Trade;
+  emotions: { emotion: string; trades: number; pnl: number }[];
+}
+
+/** Auto-computed figures shown alongside the prompts. Expects closed trades only. */
+export function reviewStats(trades: Trade[], mode: PnlMode): ReviewStats {
+  const sorted = [...trades].sort((a, b) => tradePnl(b, mode) - tradePnl(a, mode));
+  const byEmotion = new Map<string, { trades: number; pnl: number }>();
+  for (const t of trades) {
+    const key = t.emotion || 'No emotion tag';
+    const row = byEmotion.get(key) ?? { trades: 0, pnl: 0 };
+    row.trades += 1;
+    row.pnl += tradePnl(t, mode);
+    byEmotion.set(key, row);
+  }
+  return {
+    trades: trades.length,
+    pnl: trades.reduce((a, t) => a + tradePnl(t, mode), 0),
+    winRate: trades.length ? (trades.filter(t => tradePnl(t, mode) > 0).length / trades.length) * 100 : 0,
+    best: sorted[0],
+    worst: sorted.length > 1 ? sorted[sorted.length - 1] : undefined,
+    emotions: [...byEmotion.entries()]
+      .map(([emotion, row]) => ({ emotion, ...row }))
+      .sort((a, b) => b.trades - a.trades),
+  };
+}
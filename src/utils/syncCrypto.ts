@@ -0,0 +1,153 @@
+/**
+ * End-to-end encryption for cloud sync. The journal is encrypted with AES-GCM
+ * under a key derived from the user's passphrase (PBKDF2-SHA-256), so the
+ * cloud row only ever holds ciphertext. The salt and iteration count travel in
+ * the payload so every device derives the same key; the sync key is bound in
+ * as additional data so a payload can't be replayed into another journal's row.
+ *
+ * Screenshots are encrypted under a separate random image key, which travels
+ * inside the journal payload wrapped by the passphrase key. Changing the
+ * passphrase rewraps it, so uploaded screenshots never need re-encrypting.
+ */
+import { fromBase64, toBase64 } from './base64';
+
+export const ENCRYPTION_FORMAT = 'crtv-e2e';
+
+/** OWASP's 2023 recommendation for PBKDF2-HMAC-SHA-256 */
+const PBKDF2_ITERATIONS = 600_000;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface KdfParams {
+  salt: string;
+  iterations: number;
+}
+
+export interface EncryptedPayload {
+  format: typeof ENCRYPTION_FORMAT;
+  version: 1;
+  kdf: KdfParams & { name: 'PBKDF2'; hash: 'SHA-256' };
+  /** Base64 12-byte AES-GCM nonce */
+  iv: string;
+  /** Base64 ciphertext of the JSON journal, tag included */
+  data: string;
+  /** The image key, encrypted under the passphrase key */
+  imageKey?: { iv: string; data: string };
+}
+
+/**
+ * The derived key as stored on a device, with the parameters that produced it.
+ * Kept in localStorage alongside the journal it protects — this guards the
+ * cloud copy, not a device someone already has.
+ */
+export interface SyncSecret extends KdfParams {
+  /** Base64 raw AES-256 key */
+  key: string;
+  /** Base64 raw AES-256 key for screenshots, the same on every device */
+  imageKey?: string;
+}
+
+/** Thrown when a pulled payload is encrypted and this device has no passphrase, or the wrong one. */
+export class PassphraseError extends Error {
+  readonly reason: 'missing' | 'wrong';
+
+  constructor(reason: 'missing' | 'wrong') {
+    super(reason === 'missing'
+      ? 'The cloud copy is end-to-end encrypted. Enter the sync passphrase in Settings → Cloud Sync to use it on this device.'
+      : "This device's sync passphrase doesn't match the cloud copy — it may have been changed on another device. Enter the current passphrase in Settings → Cloud Sync.");
+    this.name = 'PassphraseError';
+    this.reason = reason;
+  }
+}
+
+export function isEncryptedPayload(raw: unknown): raw is EncryptedPayload {
+  if (!raw || typeof raw !== 'object') return false;
+  const p = raw as Partial<EncryptedPayload>;
+  return p.format === ENCRYPTION_FORMAT && typeof p.iv === 'string' && typeof p.data === 'string' && !!p.kdf;
+}
+
+/** Derives a secret from a passphrase — with `params` to match an existing payload, or a fresh salt. */
+export async function deriveSecret(passphrase: string, params?: KdfParams): Promise<SyncSecret> {
+  const salt = params ? fromBase64(params.salt) : crypto.getRandomValues(new Uint8Array(16));
+  const iterations = params?.iterations ?? PBKDF2_ITERATIONS;
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return { salt: toBase64(salt), iterations, key: toBase64(new Uint8Array(bits)) };
+}
+
+export function sameSecret(a: SyncSecret, b: SyncSecret): boolean {
+  return a.key === b.key && a.salt === b.salt && a.iterations === b.iterations;
+}
+
+function importKey(key: string, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(key), 'AES-GCM', false, [usage]);
+}
+
+async function seal(plain: Uint8Array<ArrayBuffer>, key: string, context: string): Promise<{ iv: Uint8Array<ArrayBuffer>; data: Uint8Array<ArrayBuffer> }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    await importKey(key, 'encrypt'),
+    plain,
+  );
+  return { iv, data: new Uint8Array(data) };
+}
+
+/** Throws PassphraseError('wrong') when the key doesn't open the data. */
+async function open(iv: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, key: string, context: string): Promise<Uint8Array<ArrayBuffer>> {
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+      await importKey(key, 'decrypt'),
+      data,
+    );
+    return new Uint8Array(plain);
+  } catch {
+    throw new PassphraseError('wrong');
+  }
+}
+
+export function generateImageKey(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/** `context` is authenticated but not encrypted — pass the sync key. */
+export async function encryptPayload(state: unknown, secret: SyncSecret, context: string): Promise<EncryptedPayload> {
+  const { iv, data } = await seal(new TextEncoder().encode(JSON.stringify(state)), secret.key, context);
+  const wrapped = secret.imageKey ? await seal(fromBase64(secret.imageKey), secret.key, `${context}:images`) : null;
+  return {
+    format: ENCRYPTION_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', salt: secret.salt, iterations: secret.iterations },
+    iv: toBase64(iv),
+    data: toBase64(data),
+    ...(wrapped && { imageKey: { iv: toBase64(wrapped.iv), data: toBase64(wrapped.data) } }),
+  };
+}
+
+/** Throws PassphraseError('wrong') when the secret doesn't open the payload. */
+export async function decryptPayload(payload: EncryptedPayload, secret: SyncSecret, context: string): Promise<unknown> {
+  // A different salt means the passphrase was changed on another device
+  if (payload.kdf.salt !== secret.salt || payload.kdf.iterations !== secret.iterations) throw new PassphraseError('wrong');
+  const plain = await open(fromBase64(payload.iv), fromBase64(payload.data), secret.key, context);
+  return JSON.parse(new TextDecoder().decode(plain));
+}
+
+/** The image key carried by an encrypted payload, if it has one. */
+export async function unwrapImageKey(payload: EncryptedPayload, secret: SyncSecret, context: string): Promise<string | undefined> {
+  if (!payload.imageKey) return undefined;
+  return toBase64(await open(fromBase64(payload.imageKey.iv), fromBase64(payload.imageKey.data), secret.key, `${context}:images`));
+}
+
+/** Screenshot bytes encrypted under the image key, as nonce followed by ciphertext. */
+export async function encryptImage(bytes: Uint8Array<ArrayBuffer>, imageKey: string, context: string): Promise<Uint8Array<ArrayBuffer>> {
+  const { iv, data } = await seal(bytes, imageKey, context);
+  const out = new Uint8Array(iv.length + data.length);
+  out.set(iv);
+  out.set(data, iv.length);
+  return out;
+}
+
+export async function decryptImage(bytes: Uint8Array<ArrayBuffer>, imageKey: string, context: string): Promise<Uint8Array<ArrayBuffer>> {
+  return open(bytes.slice(0, 12), bytes.slice(12), imageKey, context);
+}
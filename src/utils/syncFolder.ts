@@ -0,0 +1,168 @@
+/**
+ * The local-folder sync provider, through the File System Access API
+ * (Chromium browsers). Point it at a folder a file-sync client such as
+ * Dropbox, iCloud Drive or Syncthing keeps in step, and devices sync through
+ * it without any server. Directory handles can't go in localStorage, so they
+ * are kept in IndexedDB; after a reload the browser asks for access again,
+ * which needs a click in Settings.
+ */
+import { generateId } from './id';
+import type { FileStore } from './syncProviders';
+
+const DB_NAME = 'crtv_sync';
+const STORE_NAME = 'folders';
+
+/** The parts of the File System Access API that TypeScript's DOM types leave out */
+type PermissionMode = { mode: 'readwrite' };
+interface PermissionedHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  values(): AsyncIterableIterator<FileSystemHandle>;
+}
+type DirectoryPicker = (options: PermissionMode & { id?: string }) => Promise<PermissionedHandle>;
+
+const READ_WRITE: PermissionMode = { mode: 'readwrite' };
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE_NAME);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function saveHandle(id: string, handle: FileSystemDirectoryHandle): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).put(handle, id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function loadHandle(id: string): Promise<PermissionedHandle | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const req = tx.objectStore(STORE_NAME).get(id);
+    req.onsuccess = () => resolve((req.result as PermissionedHandle | undefined) ?? null);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function isFolderSyncSupported(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+/** Asks the user for a folder to sync into. Must run from a click. */
+export async function pickSyncFolder(): Promise<{ folderId: string; folderName: string }> {
+  const picker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  const handle = await picker({ ...READ_WRITE, id: 'crtv-sync' });
+  const folderId = generateId();
+  await saveHandle(folderId, handle);
+  return { folderId, folderName: handle.name };
+}
+
+/** Whether this page may use the folder now; 'prompt' needs requestFolderAccess from a click. */
+export async function folderAccess(folderId: string): Promise<PermissionState | 'missing'> {
+  const handle = await loadHandle(folderId);
+  return handle ? handle.queryPermission(READ_WRITE) : 'missing';
+}
+
+/** Must run from a click. */
+export async function requestFolderAccess(folderId: string): Promise<boolean> {
+  const handle = await loadHandle(folderId);
+  return !!handle && (await handle.requestPermission(READ_WRITE)) === 'granted';
+}
+
+function isNotFound(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'NotFoundError' || err.name === 'TypeMismatchError');
+}
+
+/** A tag that changes whenever the file does */
+function etagOf(file: File): string {
+  return `${file.lastModified}-${file.size}`;
+}
+
+export function createFolderStore(folderId: string): FileStore {
+  async function root(): Promise<PermissionedHandle> {
+    const handle = await loadHandle(folderId);
+    if (!handle) throw new Error('The sync folder is no longer available on this device — choose it again in Settings → Cloud Sync.');
+    if ((await handle.queryPermission(READ_WRITE)) !== 'granted') {
+      throw new Error('Allow access to the sync folder again in Settings → Cloud Sync.');
+    }
+    return handle;
+  }
+
+  /** The folder holding `path`'s last segment, or null if it doesn't exist and `create` is off. */
+  async function parentOf(path: string, create: boolean): Promise<{ dir: FileSystemDirectoryHandle; name: string } | null> {
+    const parts = path.split('/');
+    const name = parts.pop() ?? '';
+    let dir: FileSystemDirectoryHandle = await root();
+    try {
+      for (const part of parts) dir = await dir.getDirectoryHandle(part, { create });
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+    return { dir, name };
+  }
+
+  async function readFile(path: string): Promise<File | null> {
+    const at = await parentOf(path, false);
+    if (!at) return null;
+    try {
+      return await (await at.dir.getFileHandle(at.name)).getFile();
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  return {
+    async read(path) {
+      const file = await readFile(path);
+      return file ? { body: file, etag: etagOf(file) } : null;
+    },
+
+    async write(path, body, condition) {
+      if (condition?.create || condition?.etag) {
+        const current = await readFile(path);
+        if (condition.create ? current : !current || etagOf(current) !== condition.etag) return false;
+      }
+      const at = await parentOf(path, true);
+      if (!at) return false;
+      const writable = await (await at.dir.getFileHandle(at.name, { create: true })).createWritable();
+      await writable.write(body);
+      await writable.close();
+      return true;
+    },
+
+    async list(dir) {
+      const at = await parentOf(`${dir}/.`, false);
+      if (!at) return [];
+      const files = [];
+      for await (const entry of (at.dir as PermissionedHandle).values()) {
+        if (entry.kind === 'file') files.push({ name: entry.name, size: (await (entry as FileSystemFileHandle).getFile()).size });
+      }
+      return files;
+    },
+
+    async remove(path) {
+      const at = await parentOf(path, false);
+      try {
+        await at?.dir.removeEntry(at.name);
+      } catch (err) {
+        if (!isNotFound(err)) throw err;
+      }
+    },
+
+    async check() {
+      await root();
+    },
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Three-way merge for cloud sync. Each device keeps the journal as it was at
+ * its last sync (the base). A record changed on one side only takes that
+ * side's version; a record changed on both is merged field by field. Trades
+ * where both sides changed the same field, or one side edited what the other
+ * deleted, are left for the user to decide.
+ */
+import type { JournalState, Trade } from '../types/trade';
+import { withDefaults } from '../store/seed';
+
+export interface SyncConflict {
+  id: string;
+  /** Undefined when this device deleted the trade */
+  local?: Trade;
+  /** Undefined when the other device deleted it */
+  remote?: Trade;
+  /** Fields both sides changed; empty when one side deleted the trade */
+  fields: (keyof Trade)[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface SyncMerge {
+  /** The merged journal, with each conflicting trade in its local version */
+  state: JournalState;
+  conflicts: SyncConflict[];
+  /** Whether `state` differs from this device's journal and from the cloud copy */
+  changedLocal: boolean;
+  changedRemote: boolean;
+}
+
+/** Tombstones are kept this long; a device offline for longer brings the trade back. */
+const TOMBSTONE_TTL_MS = 90 * 86_400_000;
+
+/** JSON with sorted keys, so records compare equal whatever order their fields were set in. */
+function canonical(value: unknown): string | undefined {
+  return JSON.stringify(value, (_, v: unknown) => v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+    : v);
+}
+
+const same = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+/** Daily entries, reviews and trades carry updatedAt; other records don't */
+const stampOf = (record: object): string => (record as { updatedAt?: string }).updatedAt ?? '';
+
+/** The more recently changed of two versions; local wins ties and unstamped records. */
+function newer<T extends object>(local: T, remote: T): T {
+  return stampOf(remote) > stampOf(local) ? remote : local;
+}
+
+interface RecordMerge<T> {
+  value?: T;
+  /** Set when both sides changed the record in ways that can't be combined */
+  conflict?: (keyof T)[];
+}
+
+/**
+ * Merges one record. Without a base (this device never synced) every
+ * difference counts as a conflict, since there is no telling who changed what.
+ * The merged value keeps local values for conflicting fields.
+ */
+function mergeRecord<T extends object>(base: T | undefined, local: T | undefined, remote: T | undefined, hasBase: boolean): RecordMerge<T> {
+  if (same(local, remote)) return { value: local };
+  if (hasBase && same(local, base)) return { value: remote };
+  if (hasBase && same(remote, base)) return { value: local };
+  if (!local || !remote) return { value: local ?? remote, conflict: [] };
+
+  const value = { ...local };
+  const conflict: (keyof T)[] = [];
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)] as (keyof T)[]);
+  for (const k of keys) {
+    if (k === 'updatedAt' || same(local[k], remote[k])) continue;
+    if (base && same(local[k], base[k])) value[k] = remote[k];
+    else if (!base || !same(remote[k], base[k])) conflict.push(k);
+  }
+  const stamp = stampOf(newer(local, remote));
+  if (stamp) Object.assign(value, { updatedAt: stamp });
+  return conflict.length ? { value, conflict } : { value };
+}
+
+/**
+ * Merges a list of records by key. Whole-list checks come first so a reorder on
+ * one side survives; otherwise local order is kept and remote additions go last.
+ * Conflicts resolve to the merged value, which favours local — only trades get
+ * a conflict prompt.
+ */
+function mergeList<T extends object>(base: T[] | undefined, local: T[], remote: T[], key: (item: T) => string): T[] {
+  if (same(local, remote)) return local;
+  if (base && same(local, base)) return remote;
+  if (base && same(remote, base)) return local;
+  const b = new Map((base ?? []).map(i => [key(i), i]));
+  const l = new Map(local.map(i => [key(i), i]));
+  const r = new Map(remote.map(i => [key(i), i]));
+  const merged: T[] = [];
+  for (const k of new Set([...l.keys(), ...r.keys()])) {
+    const { value } = mergeRecord(b.get(k), l.get(k), r.get(k), !!base);
+    if (value) merged.push(value);
+  }
+  return merged;
+}
+
+/** Without a base, tombstones and timestamps decide: a deletion wins unless the trade was changed after it. */
+function mergeTradeWithoutBase(local: Trade | undefined, remote: Trade | undefined, deletedAt: string | undefined): Trade | undefined {
+  if (local && remote) return newer(local, remote);
+  const present = local ?? remote;
+  if (!present) return undefined;
+  return deletedAt && deletedAt >= (present.updatedAt ?? present.createdAt) ? undefined : present;
+}
+
+function mergeTombstones(local: Record<string, string>, remote: Record<string, string>, live: Set<string>): Record<string, string> {
+  const cutoff = new Date(Date.now() - TOMBSTONE_TTL_MS).toISOString();
+  const merged: Record<string, string> = {};
+  for (const [id, at] of [...Object.entries(local), ...Object.entries(remote)]) {
+    if (live.has(id) || at < cutoff) continue;
+    if (!merged[id] || at > merged[id]) merged[id] = at;
+  }
+  return merged;
+}
+
+/**
+ * Merges this device's journal with the cloud copy, against the journal as of
+ * the last sync (`base`, or null if this device never synced with this key).
+ */
+export function mergeForSync(base: Partial<JournalState> | null, local: JournalState, remoteData: Partial<JournalState>): SyncMerge {
+  const b = base ? withDefaults(base) : undefined;
+  const remote = withDefaults(remoteData);
+
+  const baseTrades = new Map((b?.trades ?? []).map(t => [t.id, t]));
+  const localTrades = new Map(local.trades.map(t => [t.id, t]));
+  const remoteTrades = new Map(remote.trades.map(t => [t.id, t]));
+  // Trades new from the other device go first, like freshly logged ones
+  const ids = [...remote.trades.filter(t => !localTrades.has(t.id)).map(t => t.id), ...local.trades.map(t => t.id)];
+
+  const trades: Trade[] = [];
+  const conflicts: SyncConflict[] = [];
+  for (const id of ids) {
+    const l = localTrades.get(id);
+    const r = remoteTrades.get(id);
+    const { value, conflict } = mergeRecord(baseTrades.get(id), l, r, !!b);
+    if (!conflict) {
+      if (value) trades.push(value);
+    } else if (!b) {
+      const kept = mergeTradeWithoutBase(l, r, l ? remote.deletedTrades[id] : local.deletedTrades[id]);
+      if (kept) trades.push(kept);
+    } else {
+      conflicts.push({ id, local: l, remote: r, fields: conflict });
+      if (l) trades.push(l);
+    }
+  }
+
+  const dailyEntries = mergeList(
+    b && Object.values(b.dailyEntries),
+    Object.values(local.dailyEntries),
+    Object.values(remote.dailyEntries),
+    e => e.date,
+  );
+  const taxonomies = { ...local.taxonomies };
+  for (const kind of Object.keys(taxonomies) as (keyof typeof taxonomies)[]) {
+    taxonomies[kind] = mergeList(b?.taxonomies[kind], local.taxonomies[kind], remote.taxonomies[kind], i => i.id);
+  }
+
+  const state: JournalState = {
+    trades,
+    settings: mergeRecord(b?.settings, local.settings, remote.settings, !!b).value ?? local.settings,
+    instruments: mergeList(b?.instruments, local.instruments, remote.instruments, i => i.id),
+    accounts: mergeList(b?.accounts, local.accounts, remote.accounts, a => a.id),
+    taxonomies,
+    dailyEntries: Object.fromEntries(dailyEntries.map(e => [e.date, e])),
+    reviews: mergeList(b?.reviews, local.reviews, remote.reviews, r => r.id),
+    templates: mergeList(b?.templates, local.templates, remote.templates, t => t.id),
+    deletedTrades: mergeTombstones(local.deletedTrades, remote.deletedTrades, new Set(trades.map(t => t.id))),
+  };
+  return {
+    state,
+    conflicts,
+    changedLocal: conflicts.length > 0 || !same(state, local),
+    changedRemote: conflicts.length > 0 || !same(state, remote),
+  };
+}
+
+/** The merged journal with each conflict settled per `choices` (trade id → side; local by default). */
+export function resolveSyncConflicts(merge: SyncMerge, choices: Record<string, ConflictChoice>): JournalState {
+  const now = new Date().toISOString();
+  const chosen = new Map<string, Trade | undefined>(merge.conflicts.map(c => {
+    const pick = choices[c.id] === 'remote' ? c.remote : c.local;
+    // Re-stamped so devices without a base also take the chosen version
+    return [c.id, pick && { ...pick, updatedAt: now }];
+  }));
+  const merged = new Set(merge.state.trades.map(t => t.id));
+  const restored = [...chosen.values()].filter((t): t is Trade => !!t && !merged.has(t.id));
+  const trades = [...restored, ...merge.state.trades.flatMap(t => {
+    if (!chosen.has(t.id)) return [t];
+    const pick = chosen.get(t.id);
+    return pick ? [pick] : [];
+  })];
+
+  const deletedTrades = { ...merge.state.deletedTrades };
+  for (const [id, pick] of chosen) {
+    if (pick) delete deletedTrades[id];
+    else deletedTrades[id] = now;
+  }
+  return { ...merge.state, trades, deletedTrades };
+}
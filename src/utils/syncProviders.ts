@@ -0,0 +1,591 @@
+/**
+ * Sync providers — where the synced journal is stored. Every provider keeps
+ * one journal per sync key as an opaque payload plus an `updatedAt` version,
+ * writes it conditionally on that version, keeps a rolling set of snapshots,
+ * and stores screenshot objects by path. cloudSync.ts layers encryption and
+ * schema checks on top, so providers never see plaintext or care about it.
+ *
+ *  - supabase: PostgREST tables plus a Storage bucket (setup in cloudSync.ts).
+ *    Works with self-hosted Supabase as well as supabase.co.
+ *  - rest: any server that stores files by path over plain HTTP:
+ *      GET    <url>/<path>   the file, with an ETag; 404 if missing
+ *      PUT    <url>/<path>   honouring If-Match and If-None-Match: * (412 when they fail)
+ *      DELETE <url>/<path>
+ *      GET    <url>/<dir>/   JSON [{ "name", "size" }] of the files directly in dir
+ *    with `Authorization: Bearer <token>` when a token is set.
+ *  - webdav: a folder on a WebDAV server (Nextcloud, Apache mod_dav, …). The
+ *    server has to allow this app's origin (CORS).
+ *  - folder: a local folder through the File System Access API — see syncFolder.ts.
+ *
+ * The REST, WebDAV and folder providers share one layout:
+ *   journals/<id>.json, snapshots/<id>/<updatedAt>.json, screenshots/<object path>
+ * where <id> is derived from the sync key (syncKeyId).
+ */
+import { sha256 } from './hash';
+import { toBase64 } from './base64';
+import { createFolderStore } from './syncFolder';
+
+export type SyncProviderKind = 'supabase' | 'rest' | 'webdav' | 'folder';
+
+export const SYNC_PROVIDERS: { value: SyncProviderKind; label: string }[] = [
+  { value: 'supabase', label: 'Supabase' },
+  { value: 'rest', label: 'Self-hosted REST server' },
+  { value: 'webdav', label: 'WebDAV' },
+  { value: 'folder', label: 'Local folder' },
+];
+
+export interface SupabaseSyncConfig {
+  provider: 'supabase';
+  /** Supabase project URL, e.g. https://xyzcompany.supabase.co */
+  supabaseUrl: string;
+  /** Supabase anon (public) API key */
+  anonKey: string;
+  /** Shared secret used as the row key — treat like a password */
+  syncKey: string;
+}
+
+export interface RestSyncConfig {
+  provider: 'rest';
+  url: string;
+  /** Bearer token; empty when the server needs none */
+  token: string;
+  syncKey: string;
+}
+
+export interface WebDavSyncConfig {
+  provider: 'webdav';
+  /** The folder to sync into, e.g. https://cloud.example.com/remote.php/dav/files/me/CRTV */
+  url: string;
+  username: string;
+  password: string;
+  syncKey: string;
+}
+
+export interface FolderSyncConfig {
+  provider: 'folder';
+  /** Key of the directory handle saved by syncFolder.ts */
+  folderId: string;
+  /** Shown in Settings — the browser never reveals the full path */
+  folderName: string;
+  syncKey: string;
+}
+
+export type SyncConfig = SupabaseSyncConfig | RestSyncConfig | WebDavSyncConfig | FolderSyncConfig;
+
+/** The journal as a provider stores it */
+export interface StoredJournal {
+  /** JSON text — the journal, or its EncryptedPayload */
+  payload: string;
+  updatedAt: number;
+}
+
+export interface SyncSnapshot {
+  id: string;
+  /** updatedAt of the journal version it holds */
+  savedAt: number;
+  /** Bytes, where the provider reports it */
+  size?: number;
+}
+
+export interface StoredObject {
+  name: string;
+  size: number;
+}
+
+export interface SyncBackend {
+  /** The stored journal, or null if there is none for this sync key yet */
+  pull(): Promise<StoredJournal | null>;
+  /**
+   * Writes the journal. `expected` makes it conditional: the updatedAt it
+   * replaces, or null to only create. Omitted, it overwrites whatever is there.
+   * Throws RemoteChangedError when the condition fails.
+   */
+  push(journal: StoredJournal, expected?: number | null): Promise<void>;
+  /** Keeps a copy of the journal, dropping the oldest beyond MAX_SNAPSHOTS. */
+  saveSnapshot(journal: StoredJournal): Promise<void>;
+  /** Newest first */
+  listSnapshots(): Promise<SyncSnapshot[]>;
+  pullSnapshot(id: string): Promise<StoredJournal | null>;
+  /** Overwrites the snapshot of the same journal version, e.g. to re-encrypt it. */
+  replaceSnapshot(journal: StoredJournal): Promise<void>;
+  deleteSnapshot(id: string): Promise<void>;
+  /** Resolves when the provider is reachable and accepts the credentials; throws with the reason otherwise. */
+  testConnection(): Promise<void>;
+  /** Stores a screenshot object. Returns false when it was already there — paths are content hashes. */
+  uploadObject(path: string, body: Blob): Promise<boolean>;
+  downloadObject(path: string): Promise<Blob | null>;
+  /** Every object directly under `folder` */
+  listObjects(folder: string): Promise<StoredObject[]>;
+}
+
+export const MAX_SNAPSHOTS = 30;
+
+/** Thrown by a conditional push when another device pushed since our last pull. */
+export class RemoteChangedError extends Error {
+  constructor() {
+    super('The cloud copy changed while syncing — try again.');
+    this.name = 'RemoteChangedError';
+  }
+}
+
+/** fetch, unless replaced — e.g. with the in-memory stand-in from test/memorySupabase.ts. */
+let transport: typeof fetch = (input, init) => fetch(input, init);
+
+export function setSyncTransport(fn: typeof fetch): void {
+  transport = fn;
+}
+
+async function responseError(res: Response): Promise<Error> {
+  const text = await res.text().catch(() => '');
+  return new Error(text || `${res.status} ${res.statusText}`.trim());
+}
+
+function credentialsError(res: Response, what: string): Error | null {
+  return res.status === 401 || res.status === 403 ? new Error(`The server rejected the ${what}.`) : null;
+}
+
+function parseStoredJournal(text: string): StoredJournal {
+  try {
+    const journal = JSON.parse(text) as StoredJournal;
+    if (typeof journal.payload === 'string' && typeof journal.updatedAt === 'number') return journal;
+  } catch { /* fall through */ }
+  throw new Error('Invalid cloud data format');
+}
+
+// ─── Config helpers ──────────────────────────────────────────────────────────
+
+/** https anywhere, or http on this machine for a server under development. */
+export function isValidSyncUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'https:') return true;
+    return parsed.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function isSyncConfigured(config: SyncConfig | null): config is SyncConfig {
+  if (!config?.syncKey) return false;
+  switch (config.provider) {
+    case 'supabase': return !!config.anonKey && isValidSyncUrl(config.supabaseUrl);
+    case 'rest':
+    case 'webdav': return isValidSyncUrl(config.url);
+    case 'folder': return !!config.folderId;
+  }
+}
+
+/** Identifies where a config syncs to, so state saved for one journal isn't applied to another. */
+export function syncEndpoint(config: SyncConfig): string {
+  switch (config.provider) {
+    case 'supabase': return config.supabaseUrl;
+    case 'rest':
+    case 'webdav': return config.url;
+    case 'folder': return `folder:${config.folderId}`;
+  }
+}
+
+/** Short description of the sync target for Settings. */
+export function describeSyncTarget(config: SyncConfig): string {
+  switch (config.provider) {
+    case 'supabase': return config.supabaseUrl.replace(/^https:\/\//, '').replace(/\.supabase\.co\/?$/, '…supabase.co');
+    case 'rest':
+    case 'webdav': return config.url.replace(/^https?:\/\//, '');
+    case 'folder': return `Folder “${config.folderName}”`;
+  }
+}
+
+/** An empty config for `provider`, carrying over the sync key. */
+export function blankSyncConfig(provider: SyncProviderKind, syncKey = ''): SyncConfig {
+  switch (provider) {
+    case 'supabase': return { provider, supabaseUrl: '', anonKey: '', syncKey };
+    case 'rest': return { provider, url: '', token: '', syncKey };
+    case 'webdav': return { provider, url: '', username: '', password: '', syncKey };
+    case 'folder': return { provider, folderId: '', folderName: '', syncKey };
+  }
+}
+
+/** Names the journal in file layouts and bucket folders. Hashed so listings don't reveal the sync key. */
+export async function syncKeyId(syncKey: string): Promise<string> {
+  return (await sha256(`crtv:${syncKey}`)).slice(0, 32);
+}
+
+export function createSyncBackend(config: SyncConfig): SyncBackend {
+  if (!isSyncConfigured(config)) throw new Error('Cloud sync is not fully set up — check Settings → Cloud Sync.');
+  switch (config.provider) {
+    case 'supabase': return supabaseBackend(config);
+    case 'rest': return fileBackend(restStore(config), config.syncKey);
+    case 'webdav': return fileBackend(webDavStore(config), config.syncKey);
+    case 'folder': return fileBackend(createFolderStore(config.folderId), config.syncKey);
+  }
+}
+
+// ─── Supabase ────────────────────────────────────────────────────────────────
+
+const IMAGE_BUCKET = 'screenshots';
+
+function supabaseBackend(config: SupabaseSyncConfig): SyncBackend {
+  const root = config.supabaseUrl.replace(/\/$/, '');
+  const table = `${root}/rest/v1/journals`;
+  const snapshotTable = `${root}/rest/v1/journal_snapshots`;
+  const storage = (path: string) => `${root}/storage/v1/object/${path}`;
+  const headers: Record<string, string> = {
+    'apikey': config.anonKey,
+    'Authorization': `Bearer ${config.anonKey}`,
+    'Content-Type': 'application/json',
+  };
+  const key = `sync_key=eq.${encodeURIComponent(config.syncKey)}`;
+
+  async function rows<T>(url: string): Promise<T[]> {
+    const res = await transport(url, { headers });
+    if (!res.ok) throw await responseError(res);
+    return (await res.json()) as T[];
+  }
+
+  async function one(url: string): Promise<StoredJournal | null> {
+    const [row] = await rows<{ payload: string; updated_at: number }>(url);
+    return row ? { payload: row.payload, updatedAt: row.updated_at } : null;
+  }
+
+  return {
+    pull: () => one(`${table}?${key}&select=payload,updated_at`),
+
+    async push({ payload, updatedAt }, expected) {
+      let res: Response;
+      if (expected === undefined) {
+        res = await transport(`${table}?on_conflict=sync_key`, {
+          method: 'POST',
+          headers: { ...headers, 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+          body: JSON.stringify({ sync_key: config.syncKey, payload, updated_at: updatedAt }),
+        });
+      } else if (expected === null) {
+        // Plain insert: fails with 409 if another device created the row first
+        res = await transport(table, {
+          method: 'POST',
+          headers: { ...headers, 'Prefer': 'return=minimal' },
+          body: JSON.stringify({ sync_key: config.syncKey, payload, updated_at: updatedAt }),
+        });
+        if (res.status === 409) throw new RemoteChangedError();
+      } else {
+        res = await transport(`${table}?${key}&updated_at=eq.${expected}`, {
+          method: 'PATCH',
+          headers: { ...headers, 'Prefer': 'return=representation' },
+          body: JSON.stringify({ payload, updated_at: updatedAt }),
+        });
+        if (res.ok && ((await res.clone().json()) as unknown[]).length === 0) throw new RemoteChangedError();
+      }
+      if (!res.ok) throw await responseError(res);
+    },
+
+    async saveSnapshot({ payload, updatedAt }) {
+      const res = await transport(`${snapshotTable}?on_conflict=sync_key,updated_at`, {
+        method: 'POST',
+        headers: { ...headers, 'Prefer': 'resolution=ignore-duplicates,return=minimal' },
+        body: JSON.stringify({ sync_key: config.syncKey, payload, updated_at: updatedAt }),
+      });
+      if (!res.ok) throw await responseError(res);
+      const [oldestKept] = await rows<{ updated_at: number }>(
+        `${snapshotTable}?${key}&select=updated_at&order=updated_at.desc&limit=1&offset=${MAX_SNAPSHOTS - 1}`,
+      );
+      if (!oldestKept) return;
+      const pruned = await transport(`${snapshotTable}?${key}&updated_at=lt.${oldestKept.updated_at}`, { method: 'DELETE', headers });
+      if (!pruned.ok) throw await responseError(pruned);
+    },
+
+    async listSnapshots() {
+      const list = await rows<{ updated_at: number }>(`${snapshotTable}?${key}&select=updated_at&order=updated_at.desc`);
+      return list.map(r => ({ id: String(r.updated_at), savedAt: r.updated_at }));
+    },
+
+    pullSnapshot: id => one(`${snapshotTable}?${key}&updated_at=eq.${encodeURIComponent(id)}&select=payload,updated_at`),
+
+    async replaceSnapshot({ payload, updatedAt }) {
+      const res = await transport(`${snapshotTable}?on_conflict=sync_key,updated_at`, {
+        method: 'POST',
+        headers: { ...headers, 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+        body: JSON.stringify({ sync_key: config.syncKey, payload, updated_at: updatedAt }),
+      });
+      if (!res.ok) throw await responseError(res);
+    },
+
+    async deleteSnapshot(id) {
+      const res = await transport(`${snapshotTable}?${key}&updated_at=eq.${encodeURIComponent(id)}`, { method: 'DELETE', headers });
+      if (!res.ok) throw await responseError(res);
+    },
+
+    async testConnection() {
+      const res = await transport(`${table}?${key}&select=updated_at`, { headers });
+      if (res.ok) return;
+      const denied = credentialsError(res, 'anon key');
+      if (denied) throw denied;
+      if (res.status === 404) throw new Error('The journals table is missing — run the setup SQL in your Supabase project.');
+      throw await responseError(res);
+    },
+
+    async uploadObject(path, body) {
+      const res = await transport(storage(`${IMAGE_BUCKET}/${path}`), {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': body.type || 'application/octet-stream', 'x-upsert': 'false' },
+        body,
+      });
+      if (res.ok) return true;
+      const text = await res.text().catch(() => String(res.status));
+      // Storage reports an existing object as 409, or as 400 with a "Duplicate" body
+      if (res.status === 409 || /duplicate/i.test(text)) return false;
+      throw new Error(text);
+    },
+
+    async downloadObject(path) {
+      const res = await transport(storage(`authenticated/${IMAGE_BUCKET}/${path}`), { headers });
+      if (res.status === 400 || res.status === 404) return null;
+      if (!res.ok) throw await responseError(res);
+      return res.blob();
+    },
+
+    async listObjects(folder) {
+      const PAGE = 1000;
+      const objects: StoredObject[] = [];
+      for (let offset = 0; ; offset += PAGE) {
+        const res = await transport(storage(`list/${IMAGE_BUCKET}`), {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ prefix: folder, limit: PAGE, offset }),
+        });
+        if (!res.ok) throw await responseError(res);
+        const page = (await res.json()) as Array<{ name: string; metadata?: { size?: number } | null }>;
+        objects.push(...page.map(o => ({ name: o.name, size: o.metadata?.size ?? 0 })));
+        if (page.length < PAGE) return objects;
+      }
+    },
+  };
+}
+
+// ─── File layouts (REST, WebDAV, local folder) ───────────────────────────────
+
+/** A place that stores files by slash-separated path. */
+export interface FileStore {
+  /** The file and a tag that changes whenever it does, or null if it doesn't exist */
+  read(path: string): Promise<{ body: Blob; etag?: string } | null>;
+  /**
+   * Writes a file, creating folders as needed. With `etag`, only replaces the
+   * version that had it; with `create`, only writes if there is no file yet.
+   * Returns false when the condition failed.
+   */
+  write(path: string, body: Blob | string, condition?: { etag?: string; create?: boolean }): Promise<boolean>;
+  /** Files directly in `dir`; empty if it doesn't exist */
+  list(dir: string): Promise<StoredObject[]>;
+  remove(path: string): Promise<void>;
+  /** Throws with the reason when the store can't be used. */
+  check(): Promise<void>;
+}
+
+function fileBackend(store: FileStore, syncKey: string): SyncBackend {
+  const id = syncKeyId(syncKey);
+  const journalPath = async () => `journals/${await id}.json`;
+  const snapshotDir = async () => `snapshots/${await id}`;
+
+  async function readJournal(path: string) {
+    const file = await store.read(path);
+    return file ? { journal: parseStoredJournal(await file.body.text()), etag: file.etag } : null;
+  }
+
+  async function listSnapshots(): Promise<SyncSnapshot[]> {
+    const files = await store.list(await snapshotDir());
+    return files
+      .filter(f => /^\d+\.json$/.test(f.name))
+      .map(f => ({ id: f.name.slice(0, -5), savedAt: Number(f.name.slice(0, -5)), size: f.size }))
+      .sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  return {
+    async pull() {
+      return (await readJournal(await journalPath()))?.journal ?? null;
+    },
+
+    async push(journal, expected) {
+      const path = await journalPath();
+      const body = JSON.stringify(journal);
+      if (expected === undefined) {
+        await store.write(path, body);
+        return;
+      }
+      let condition: { etag?: string; create?: boolean } = { create: true };
+      if (expected !== null) {
+        const current = await readJournal(path);
+        if (current?.journal.updatedAt !== expected) throw new RemoteChangedError();
+        // Without an ETag the write can't be conditional and would overwrite a push made since this read
+        if (!current.etag) throw new Error("The sync server didn't return an ETag, so it can't guard against overwriting another device's changes. Make it send (and, across origins, expose) ETag headers.");
+        condition = { etag: current.etag };
+      }
+      if (!(await store.write(path, body, condition))) throw new RemoteChangedError();
+    },
+
+    async saveSnapshot(journal) {
+      const dir = await snapshotDir();
+      await store.write(`${dir}/${journal.updatedAt}.json`, JSON.stringify(journal));
+      const stale = (await listSnapshots()).slice(MAX_SNAPSHOTS);
+      for (const s of stale) await store.remove(`${dir}/${s.id}.json`);
+    },
+
+    listSnapshots,
+
+    async pullSnapshot(snapshotId) {
+      if (!/^\d+$/.test(snapshotId)) return null;
+      return (await readJournal(`${await snapshotDir()}/${snapshotId}.json`))?.journal ?? null;
+    },
+
+    async replaceSnapshot(journal) {
+      await store.write(`${await snapshotDir()}/${journal.updatedAt}.json`, JSON.stringify(journal));
+    },
+
+    async deleteSnapshot(snapshotId) {
+      if (/^\d+$/.test(snapshotId)) await store.remove(`${await snapshotDir()}/${snapshotId}.json`);
+    },
+
+    testConnection: () => store.check(),
+
+    uploadObject: (path, body) => store.write(`screenshots/${path}`, body, { create: true }),
+
+    async downloadObject(path) {
+      return (await store.read(`screenshots/${path}`))?.body ?? null;
+    },
+
+    listObjects: folder => store.list(`screenshots/${folder}`),
+  };
+}
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+function conditionHeaders(condition?: { etag?: string; create?: boolean }): Record<string, string> {
+  if (condition?.create) return { 'If-None-Match': '*' };
+  if (condition?.etag) return { 'If-Match': condition.etag };
+  return {};
+}
+
+function restStore(config: RestSyncConfig): FileStore {
+  const root = config.url.replace(/\/$/, '');
+  const headers: Record<string, string> = config.token ? { 'Authorization': `Bearer ${config.token}` } : {};
+
+  return {
+    async read(path) {
+      const res = await transport(`${root}/${encodePath(path)}`, { headers });
+      if (res.status === 404) return null;
+      if (!res.ok) throw await responseError(res);
+      return { body: await res.blob(), etag: res.headers.get('ETag') ?? undefined };
+    },
+
+    async write(path, body, condition) {
+      const res = await transport(`${root}/${encodePath(path)}`, {
+        method: 'PUT',
+        headers: { ...headers, ...conditionHeaders(condition) },
+        body,
+      });
+      if (res.status === 412) return false;
+      if (!res.ok) throw await responseError(res);
+      return true;
+    },
+
+    async list(dir) {
+      const res = await transport(`${root}/${encodePath(dir)}/`, { headers });
+      if (res.status === 404) return [];
+      if (!res.ok) throw await responseError(res);
+      return (await res.json()) as StoredObject[];
+    },
+
+    async remove(path) {
+      const res = await transport(`${root}/${encodePath(path)}`, { method: 'DELETE', headers });
+      if (!res.ok && res.status !== 404) throw await responseError(res);
+    },
+
+    async check() {
+      const res = await transport(`${root}/journals/`, { headers });
+      if (res.ok || res.status === 404) return;
+      throw credentialsError(res, 'token') ?? await responseError(res);
+    },
+  };
+}
+
+const PROPFIND_BODY = '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:getcontentlength/></d:prop></d:propfind>';
+
+function webDavStore(config: WebDavSyncConfig): FileStore {
+  const root = `${config.url.replace(/\/$/, '')}/`;
+  const headers: Record<string, string> = config.username
+    ? { 'Authorization': `Basic ${toBase64(new TextEncoder().encode(`${config.username}:${config.password}`))}` }
+    : {};
+
+  /** Creates each missing folder on the way to `path`. */
+  async function makeFolders(path: string) {
+    const parts = path.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+      const res = await transport(`${root}${encodePath(parts.slice(0, i).join('/'))}/`, { method: 'MKCOL', headers });
+      // 405: it already exists
+      if (!res.ok && res.status !== 405) throw await responseError(res);
+    }
+  }
+
+  async function put(path: string, body: Blob | string, condition?: { etag?: string; create?: boolean }) {
+    return transport(`${root}${encodePath(path)}`, { method: 'PUT', headers: { ...headers, ...conditionHeaders(condition) }, body });
+  }
+
+  return {
+    async read(path) {
+      const res = await transport(`${root}${encodePath(path)}`, { headers });
+      if (res.status === 404) return null;
+      if (!res.ok) throw await responseError(res);
+      return { body: await res.blob(), etag: res.headers.get('ETag') ?? undefined };
+    },
+
+    async write(path, body, condition) {
+      let res = await put(path, body, condition);
+      // 409: a parent folder is missing
+      if (res.status === 409) {
+        await makeFolders(path);
+        res = await put(path, body, condition);
+      }
+      if (res.status === 412) return false;
+      if (!res.ok) throw await responseError(res);
+      return true;
+    },
+
+    async list(dir) {
+      const url = `${root}${encodePath(dir)}/`;
+      const res = await transport(url, {
+        method: 'PROPFIND',
+        headers: { ...headers, 'Depth': '1', 'Content-Type': 'application/xml' },
+        body: PROPFIND_BODY,
+      });
+      if (res.status === 404) return [];
+      if (!res.ok) throw await responseError(res);
+      const doc = new DOMParser().parseFromString(await res.text(), 'application/xml');
+      const files: StoredObject[] = [];
+      for (const entry of Array.from(doc.getElementsByTagNameNS('DAV:', 'response'))) {
+        if (entry.getElementsByTagNameNS('DAV:', 'collection').length) continue;
+        const href = entry.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent ?? '';
+        const name = decodeURIComponent(href.replace(/\/$/, '').split('/').pop() ?? '');
+        const size = Number(entry.getElementsByTagNameNS('DAV:', 'getcontentlength')[0]?.textContent ?? 0);
+        if (name) files.push({ name, size });
+      }
+      return files;
+    },
+
+    async remove(path) {
+      const res = await transport(`${root}${encodePath(path)}`, { method: 'DELETE', headers });
+      if (!res.ok && res.status !== 404) throw await responseError(res);
+    },
+
+    async check() {
+      const res = await transport(root, {
+        method: 'PROPFIND',
+        headers: { ...headers, 'Depth': '0', 'Content-Type': 'application/xml' },
+        body: PROPFIND_BODY,
+      });
+      if (res.ok) return;
+      const denied = credentialsError(res, 'username or password');
+      if (denied) throw denied;
+      if (res.status === 404) throw new Error("The folder doesn't exist on the server — create it first.");
+      throw await responseError(res);
+    },
+  };
+}
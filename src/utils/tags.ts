@@ -0,0 +1,25 @@
+import type { Trade } from '../types/trade';
+
+/** Trims, collapses whitespace and lower-cases a tag so "Moved  Stop" and "moved stop" match. */
+export function normalizeTag(raw: string): string {
+  return raw.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Every tag used across the given trades, most frequent first. */
+export function collectTags(trades: Trade[]): string[] {
+  const counts = new Map<string, number>();
+  trades.forEach(t => t.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+export type TagMatch = 'any' | 'all';
+
+export function matchesTags(trade: Trade, selected: string[], match: TagMatch): boolean {
+  if (!selected.length) return true;
+  const tags = trade.tags ?? [];
+  return match === 'all'
+    ? selected.every(s => tags.includes(s))
+    : selected.some(s => tags.includes(s));
+}
@@ -0,0 +1,78 @@
+import type { CSSProperties } from 'react';
+import type { TaxonomyItem, TaxonomyKind, Trade, TradeTemplate } from '../types/trade';
+
+export const TAXONOMY_LABELS: Record<TaxonomyKind, string> = {
+  session: 'Sessions',
+  setup: 'Setups',
+  strategy: 'Strategies',
+  emotion: 'Emotions',
+  timeframe: 'Timeframes',
+  mistake: 'Mistakes',
+};
+
+/** Trade field each taxonomy writes to. Mistakes are the only multi-valued one. */
+export const TAXONOMY_FIELDS = {
+  session: 'session',
+  setup: 'setup',
+  strategy: 'strategyType',
+  emotion: 'emotion',
+  timeframe: 'timeframe',
+  mistake: 'mistakes',
+} as const satisfies Record<TaxonomyKind, keyof Trade>;
+
+/** The trade's value(s) for a taxonomy, as a list. */
+export function taxonomyValues(t: Trade, kind: TaxonomyKind): string[] {
+  const v = t[TAXONOMY_FIELDS[kind]];
+  if (Array.isArray(v)) return v;
+  return v ? [v] : [];
+}
+
+/** Returns the trade with `from` replaced by `to` in the taxonomy's field, or the same object if unaffected. */
+export function renameInTrade(t: Trade, kind: TaxonomyKind, from: string, to: string): Trade {
+  const field = TAXONOMY_FIELDS[kind];
+  const v = t[field];
+  if (Array.isArray(v)) {
+    return v.includes(from) ? { ...t, [field]: v.map(x => x === from ? to : x) } : t;
+  }
+  return v === from ? { ...t, [field]: to } : t;
+}
+
+/** Same as renameInTrade, for the fields a template presets. Templates don't preset mistakes. */
+export function renameInTemplate(t: TradeTemplate, kind: TaxonomyKind, from: string, to: string): TradeTemplate {
+  const field = TAXONOMY_FIELDS[kind];
+  if (field === 'mistakes' || t.fields[field] !== from) return t;
+  return { ...t, fields: { ...t.fields, [field]: to } };
+}
+
+/** Picker options: active items in order, plus the current value if it has been archived. */
+export function pickerOptions(items: TaxonomyItem[], current?: string): { value: string; label: string }[] {
+  const active = items.filter(i => !i.archived || i.label === current).map(i => ({ value: i.label, label: i.label }));
+  if (current && !items.some(i => i.label === current)) active.push({ value: current, label: current });
+  return active;
+}
+
+/** Initial picker value: the preferred label if it's active, else the first active item. */
+export function defaultValue(items: TaxonomyItem[], preferred?: string): string {
+  const active = items.filter(i => !i.archived);
+  return active.find(i => i.label === preferred)?.label ?? active[0]?.label ?? '';
+}
+
+/**
+ * Values to group or filter by: every taxonomy item in its configured order (archived ones included,
+ * since old trades may use them), followed by any values found on trades that aren't in the taxonomy.
+ */
+export function groupingValues(items: TaxonomyItem[], trades: Trade[], kind: TaxonomyKind): string[] {
+  const known = items.map(i => i.label);
+  const extra = new Set<string>();
+  trades.forEach(t => {
+    taxonomyValues(t, kind).forEach(v => { if (!known.includes(v)) extra.add(v); });
+  });
+  return [...known, ...extra];
+}
+
+/** Inline badge colours derived from a taxonomy item's hex colour. */
+export function badgeStyle(items: TaxonomyItem[], label: string): CSSProperties | undefined {
+  const color = items.find(i => i.label === label)?.color;
+  if (!color || !/^#[0-9a-f]{6}$/i.test(color)) return undefined;
+  return { color, borderColor: `${color}40`, background: `${color}14` };
+}
@@ -0,0 +1,22 @@
+import type { TemplateFields, Trade, TradeTemplate } from '../types/trade';
+
+const TEMPLATE_KEYS = [
+  'accountId', 'symbol', 'direction', 'timeframe', 'session', 'setup', 'strategyType', 'positionSize', 'emotion', 'tags',
+] as const satisfies readonly (keyof TemplateFields)[];
+
+/** The preset-able fields of a trade (or form snapshot), skipping blanks. */
+export function templateFields(source: Partial<Trade>): TemplateFields {
+  const fields: TemplateFields = {};
+  for (const key of TEMPLATE_KEYS) {
+    const value = source[key];
+    if (value === undefined || value === '' || (Array.isArray(value) && !value.length)) continue;
+    (fields as Record<string, unknown>)[key] = value;
+  }
+  return fields;
+}
+
+/** Short description of what a template fills in, e.g. "NQ · Long · 5m · New York". */
+export function templateSummary(t: TradeTemplate): string {
+  const f = t.fields;
+  return [f.symbol, f.direction, f.timeframe, f.session, f.setup].filter(Boolean).join(' · ') || 'No presets';
+}
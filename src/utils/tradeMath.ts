@@ -0,0 +1,44 @@
+import type { Trade } from '../types/trade';
+
+type PriceLevels = Pick<Trade, 'direction' | 'entryPrice' | 'stopLoss' | 'takeProfit' | 'exitPrice'>;
+
+function isPrice(v: number | undefined): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+/** Distance between entry and stop (1R, in price units). Null when either level is missing. */
+export function riskPerUnit(t: PriceLevels): number | null {
+  if (!isPrice(t.entryPrice) || !isPrice(t.stopLoss)) return null;
+  const risk = Math.abs(t.entryPrice - t.stopLoss);
+  return risk > 0 ? risk : null;
+}
+
+/** Planned reward-to-risk ratio from entry, stop and take-profit. */
+export function plannedRR(t: PriceLevels): number | null {
+  const risk = riskPerUnit(t);
+  if (risk === null || !isPrice(t.takeProfit) || !isPrice(t.entryPrice)) return null;
+  return Math.abs(t.takeProfit - t.entryPrice) / risk;
+}
+
+/** Realized R-multiple: signed move from entry to exit, measured in units of initial risk. */
+export function realizedR(t: PriceLevels): number | null {
+  const risk = riskPerUnit(t);
+  if (risk === null || !isPrice(t.exitPrice) || !isPrice(t.entryPrice)) return null;
+  const move = t.direction === 'Long' ? t.exitPrice - t.entryPrice : t.entryPrice - t.exitPrice;
+  return move / risk;
+}
+
+/** Parses an optional numeric form field; blank or invalid input yields undefined. */
+export function parseOptionalNumber(raw: string): number | undefined {
+  if (!raw.trim()) return undefined;
+  const n = parseFloat(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function formatR(r: number): string {
+  return `${r >= 0 ? '+' : ''}${r.toFixed(2)}R`;
+}
+
+export function formatRR(rr: number): string {
+  return `1:${rr.toFixed(2)}`;
+}